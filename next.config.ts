@@ -3,6 +3,8 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
+  // Loaded by src/instrumentation.ts; keep its exporters out of the bundle
+  serverExternalPackages: ["@opentelemetry/sdk-node"],
 };
 
 export default nextConfig;
@@ -0,0 +1,48 @@
+/**
+ * Fake `codex app-server` over stdio, for running the app offline
+ * Run with: npx tsx scripts/fake-app-server.ts [script.json]
+ *
+ * script.json holds the turns to replay, e.g.
+ * [{ "steps": [{ "type": "agentMessage", "text": "Hello!" }] }]
+ *
+ * To use it from the Next.js app:
+ * CODEX_APP_SERVER_BIN=npx \
+ * CODEX_APP_SERVER_ARGS="tsx scripts/fake-app-server.ts script.json" npm run dev
+ */
+
+import { EventEmitter } from "node:events";
+import { readFileSync } from "node:fs";
+import readline from "node:readline";
+
+import {
+  FakeAppServer,
+  type ScriptedTurn,
+} from "../src/infrastructure/codex/testing/fake-app-server";
+
+function main() {
+  const scriptPath = process.argv[2];
+  const turns: ScriptedTurn[] = scriptPath
+    ? JSON.parse(readFileSync(scriptPath, "utf8"))
+    : [];
+
+  const connection = Object.assign(new EventEmitter(), {
+    send: (message: string) => {
+      process.stdout.write(`${message}\n`);
+    },
+  });
+
+  const reader = readline.createInterface({ input: process.stdin });
+  reader.on("line", (line) => {
+    connection.emit("message", line);
+  });
+  reader.on("close", () => {
+    process.exit(0);
+  });
+
+  const server = new FakeAppServer(connection, { turns });
+  server.on("error", (error) => {
+    console.error("Fake app-server error:", error);
+  });
+}
+
+main();
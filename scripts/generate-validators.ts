@@ -0,0 +1,328 @@
+/**
+ * Generate runtime validators from the ts-rs schemas
+ * Run with: npx tsx scripts/generate-validators.ts [--schema-version <version>]
+ *
+ * Reads src/infrastructure/codex/schemas/ and the MethodMap in
+ * src/infrastructure/codex/index.ts, and writes
+ * src/infrastructure/codex/validation/generated.ts. Re-run it whenever the
+ * schemas are regenerated. The schema version defaults to the installed
+ * @openai/codex version.
+ */
+
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import ts from "typescript";
+
+import type {
+  PropertyDescriptor,
+  TypeDescriptor,
+} from "../src/infrastructure/codex/validation/types";
+
+const ROOT = path.resolve(__dirname, "..");
+const CODEX_DIR = path.join(ROOT, "src/infrastructure/codex");
+const SCHEMAS_DIR = path.join(CODEX_DIR, "schemas");
+const OUTPUT = path.join(CODEX_DIR, "validation/generated.ts");
+
+/** Types validated directly; everything they reference is included too */
+const ROOT_TYPES = ["ServerNotification", "ServerRequest", "EventMsg"];
+
+// ============================================================================
+// Schema Parsing
+// ============================================================================
+
+/** Module key of a schema file, e.g. `v2/Thread` */
+function moduleKey(file: string): string {
+  return path
+    .relative(SCHEMAS_DIR, file)
+    .replace(/\.ts$/, "")
+    .split(path.sep)
+    .join("/");
+}
+
+function parseFile(file: string): ts.SourceFile {
+  return ts.createSourceFile(
+    file,
+    fs.readFileSync(file, "utf8"),
+    ts.ScriptTarget.Latest,
+    true,
+  );
+}
+
+/**
+ * Map the names a file imports to the module keys they come from.
+ */
+function importedNames(
+  source: ts.SourceFile,
+  resolve: (specifier: string) => string | null,
+): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const statement of source.statements) {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      continue;
+    }
+    const bindings = statement.importClause?.namedBindings;
+    if (!bindings || !ts.isNamedImports(bindings)) {
+      continue;
+    }
+    const target = resolve(statement.moduleSpecifier.text);
+    if (target === null) {
+      continue;
+    }
+    for (const element of bindings.elements) {
+      names.set(element.name.text, target);
+    }
+  }
+  return names;
+}
+
+/**
+ * Convert a ts-rs type node into a descriptor.
+ */
+function describe(
+  node: ts.TypeNode,
+  refs: Map<string, string>,
+  onRef: (key: string) => void,
+): TypeDescriptor {
+  const recurse = (child: ts.TypeNode) => describe(child, refs, onRef);
+
+  switch (node.kind) {
+    case ts.SyntaxKind.StringKeyword:
+      return { kind: "string" };
+    case ts.SyntaxKind.NumberKeyword:
+    case ts.SyntaxKind.BigIntKeyword:
+      return { kind: "number" };
+    case ts.SyntaxKind.BooleanKeyword:
+      return { kind: "boolean" };
+    case ts.SyntaxKind.NullKeyword:
+      return { kind: "null" };
+    case ts.SyntaxKind.UndefinedKeyword:
+      return { kind: "undefined" };
+    case ts.SyntaxKind.NeverKeyword:
+      return { kind: "never" };
+    case ts.SyntaxKind.UnknownKeyword:
+    case ts.SyntaxKind.AnyKeyword:
+      return { kind: "unknown" };
+  }
+
+  if (ts.isParenthesizedTypeNode(node)) {
+    return recurse(node.type);
+  }
+  if (ts.isLiteralTypeNode(node)) {
+    const literal = node.literal;
+    if (literal.kind === ts.SyntaxKind.NullKeyword) {
+      return { kind: "null" };
+    }
+    if (ts.isStringLiteral(literal)) {
+      return { kind: "literal", value: literal.text };
+    }
+    if (ts.isNumericLiteral(literal)) {
+      return { kind: "literal", value: Number(literal.text) };
+    }
+    return {
+      kind: "literal",
+      value: literal.kind === ts.SyntaxKind.TrueKeyword,
+    };
+  }
+  if (ts.isUnionTypeNode(node)) {
+    return { kind: "union", members: node.types.map(recurse) };
+  }
+  if (ts.isIntersectionTypeNode(node)) {
+    return { kind: "intersection", members: node.types.map(recurse) };
+  }
+  if (ts.isArrayTypeNode(node)) {
+    return { kind: "array", items: recurse(node.elementType) };
+  }
+  if (ts.isMappedTypeNode(node) && node.type) {
+    return { kind: "record", values: recurse(node.type) };
+  }
+  if (ts.isTypeLiteralNode(node)) {
+    const properties: Record<string, PropertyDescriptor> = {};
+    for (const member of node.members) {
+      if (!ts.isPropertySignature(member) || !member.type) {
+        throw new Error(`Unsupported member: ${member.getText()}`);
+      }
+      const name = ts.isIdentifier(member.name)
+        ? member.name.text
+        : (member.name as ts.StringLiteral).text;
+      properties[name] = {
+        type: recurse(member.type),
+        ...(member.questionToken ? { optional: true } : {}),
+      };
+    }
+    return { kind: "object", properties };
+  }
+  if (ts.isTypeReferenceNode(node)) {
+    const name = node.typeName.getText();
+    const args = node.typeArguments ?? [];
+    if (name === "Array" && args.length === 1) {
+      return { kind: "array", items: recurse(args[0]) };
+    }
+    if (name === "Record" && args.length === 2) {
+      return { kind: "record", values: recurse(args[1]) };
+    }
+    const key = refs.get(name);
+    if (!key) {
+      throw new Error(`Unresolved type reference: ${name}`);
+    }
+    onRef(key);
+    return { kind: "ref", name: key };
+  }
+
+  throw new Error(`Unsupported type: ${node.getText()}`);
+}
+
+/**
+ * Describe a schema type and, transitively, every type it references.
+ */
+function collect(key: string, types: Map<string, TypeDescriptor>): void {
+  if (types.has(key)) {
+    return;
+  }
+
+  const file = path.join(SCHEMAS_DIR, `${key}.ts`);
+  const source = parseFile(file);
+  const refs = importedNames(source, (specifier) =>
+    moduleKey(path.resolve(path.dirname(file), `${specifier}.ts`)),
+  );
+
+  const alias = source.statements.find(ts.isTypeAliasDeclaration);
+  if (!alias) {
+    throw new Error(`No type alias in ${file}`);
+  }
+  // Recursive types refer to themselves
+  refs.set(alias.name.text, key);
+
+  // Register the key first so that cycles terminate
+  const pending: string[] = [];
+  types.set(key, { kind: "unknown" });
+  types.set(
+    key,
+    describe(alias.type, refs, (ref) => pending.push(ref)),
+  );
+  for (const ref of pending) {
+    collect(ref, types);
+  }
+}
+
+/**
+ * Read the response type of every MethodMap entry.
+ */
+function methodResponseTypes(): Map<string, string> {
+  const file = path.join(CODEX_DIR, "index.ts");
+  const source = parseFile(file);
+  const schemaDirs: Record<string, string> = {
+    "./schemas": "",
+    "./schemas/v2": "v2",
+  };
+  const refs = importedNames(
+    source,
+    (specifier) => schemaDirs[specifier] ?? null,
+  );
+
+  const methodMap = source.statements.find(
+    (statement): statement is ts.InterfaceDeclaration =>
+      ts.isInterfaceDeclaration(statement) &&
+      statement.name.text === "MethodMap",
+  );
+  if (!methodMap) {
+    throw new Error("MethodMap not found in index.ts");
+  }
+
+  const responses = new Map<string, string>();
+  for (const member of methodMap.members) {
+    if (
+      !ts.isPropertySignature(member) ||
+      !member.type ||
+      !ts.isTypeLiteralNode(member.type)
+    ) {
+      continue;
+    }
+    const method = (member.name as ts.Identifier | ts.StringLiteral).text;
+    const response = member.type.members.find(
+      (entry) => entry.name?.getText() === "response",
+    );
+    if (
+      !response ||
+      !ts.isPropertySignature(response) ||
+      !response.type ||
+      !ts.isTypeReferenceNode(response.type)
+    ) {
+      throw new Error(`Unsupported MethodMap entry: ${method}`);
+    }
+
+    const name = response.type.typeName.getText();
+    const dir = refs.get(name);
+    if (dir === undefined) {
+      throw new Error(`Unresolved response type of ${method}: ${name}`);
+    }
+    responses.set(method, dir ? `${dir}/${name}` : name);
+  }
+  return responses;
+}
+
+// ============================================================================
+// Output
+// ============================================================================
+
+function parseArgs(argv: string[]): { schemaVersion: string } {
+  const index = argv.indexOf("--schema-version");
+  if (index !== -1 && argv[index + 1]) {
+    return { schemaVersion: argv[index + 1] };
+  }
+
+  const codexPackage = JSON.parse(
+    fs.readFileSync(
+      path.join(ROOT, "node_modules/@openai/codex/package.json"),
+      "utf8",
+    ),
+  );
+  return { schemaVersion: codexPackage.version };
+}
+
+function main() {
+  const { schemaVersion } = parseArgs(process.argv.slice(2));
+
+  const types = new Map<string, TypeDescriptor>();
+  for (const key of ROOT_TYPES) {
+    collect(key, types);
+  }
+  const responses = methodResponseTypes();
+  for (const key of responses.values()) {
+    collect(key, types);
+  }
+
+  const sortedTypes = Object.fromEntries(
+    [...types].sort(([a], [b]) => a.localeCompare(b)),
+  );
+  const output = `// GENERATED CODE! DO NOT MODIFY BY HAND!
+// Generated by scripts/generate-validators.ts from the ts-rs schemas.
+
+import type { TypeDescriptor } from "./types";
+
+/** Codex version the schemas were generated from */
+export const SCHEMA_VERSION = ${JSON.stringify(schemaVersion)};
+
+/** Response type of each MethodMap method */
+export const RESPONSE_TYPES: Record<string, string> = ${JSON.stringify(
+    Object.fromEntries(responses),
+  )};
+
+/** Descriptors of every schema type reachable from the validated messages */
+export const TYPES: Record<string, TypeDescriptor> = ${JSON.stringify(sortedTypes)};
+`;
+
+  fs.writeFileSync(OUTPUT, output);
+  execFileSync("npx", ["--no-install", "biome", "format", "--write", OUTPUT], {
+    cwd: ROOT,
+    stdio: "inherit",
+  });
+  console.log(
+    `Wrote ${types.size} types and ${responses.size} methods to ${path.relative(ROOT, OUTPUT)}`,
+  );
+}
+
+main();
@@ -3,10 +3,13 @@
  * Run with: npx tsx scripts/list-models.ts
  */
 
-import { CodexAppServer } from "../src/infrastructure/codex";
+import {
+  CodexAppServer,
+  codexAppServerOptionsFromEnv,
+} from "../src/infrastructure/codex";
 
 async function main() {
-  const codex = CodexAppServer.getInstance();
+  const codex = CodexAppServer.getInstance(codexAppServerOptionsFromEnv());
 
   await codex.initialize(
     {
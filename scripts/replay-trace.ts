@@ -0,0 +1,72 @@
+/**
+ * Replay a recorded protocol trace as a fake `codex app-server` over stdio
+ * Run with: npx tsx scripts/replay-trace.ts <trace.jsonl> [--speed <factor>]
+ *
+ * Record a trace with CODEX_APP_SERVER_TRACE=trace.jsonl, then reproduce the
+ * session in the Next.js app by sending the same messages from Chat.tsx:
+ * CODEX_APP_SERVER_BIN=npx \
+ * CODEX_APP_SERVER_ARGS="tsx scripts/replay-trace.ts trace.jsonl" npm run dev
+ *
+ * --speed 0 replays without the recorded delays.
+ */
+
+import { EventEmitter } from "node:events";
+import readline from "node:readline";
+
+import { readTrace } from "../src/infrastructure/codex";
+import { TraceReplayer } from "../src/infrastructure/codex/testing/trace-replayer";
+
+function parseArgs(argv: string[]) {
+  let file: string | undefined;
+  let speed = 1;
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--speed") {
+      speed = Number(argv[++i]);
+    } else {
+      file = argv[i];
+    }
+  }
+
+  if (!file || !Number.isFinite(speed) || speed < 0) {
+    console.error(
+      "Usage: npx tsx scripts/replay-trace.ts <trace.jsonl> [--speed <factor>]",
+    );
+    process.exit(1);
+  }
+  return { file, speed };
+}
+
+async function main() {
+  const { file, speed } = parseArgs(process.argv.slice(2));
+  const entries = readTrace(file);
+
+  const connection = Object.assign(new EventEmitter(), {
+    send: (message: string) => {
+      process.stdout.write(`${message}\n`);
+    },
+  });
+
+  const reader = readline.createInterface({ input: process.stdin });
+  reader.on("line", (line) => {
+    connection.emit("message", line);
+  });
+  reader.on("close", () => {
+    process.exit(0);
+  });
+
+  // stdout carries the protocol, so progress goes to stderr
+  const replayer = new TraceReplayer(connection, entries, { speed });
+  replayer.on("unexpected", (message) => {
+    console.error(`Not in trace: ${message.method}`);
+  });
+
+  console.error(`Replaying ${entries.length} messages from ${file}`);
+  await replayer.start();
+  console.error("Trace finished");
+}
+
+main().catch((error) => {
+  console.error("Replay failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,2682 @@
+/**
+ * Offline tests for CodexAppServer and the /api/threads routes, run against
+ * the fake app-server
+ * Run with: npm test
+ */
+
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import fs from "node:fs";
+import net, { type AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import readline from "node:readline";
+import { after, before, describe, test } from "node:test";
+import { SpanStatusCode } from "@opentelemetry/api";
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  MeterProvider,
+  PeriodicExportingMetricReader,
+} from "@opentelemetry/sdk-metrics";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { WebSocket, WebSocketServer } from "ws";
+import type { ApprovalRequest } from "../src/app/api/_lib/codex";
+import {
+  CodexAppServer,
+  CodexAppServerPool,
+  type CodexAppServerPoolOptions,
+  CodexPoolExhaustedError,
+  CodexRequestAbortedError,
+  CodexRequestTimeoutError,
+  codexAppServerOptionsFromEnv,
+  InMemoryTransport,
+  type ProtocolMismatchEvent,
+  type ReconnectFailedEvent,
+  readTrace,
+  SCHEMA_VERSION,
+  TcpTransport,
+  type Transport,
+  WebSocketTransport,
+} from "../src/infrastructure/codex";
+import type {
+  Model,
+  ThreadItem,
+  ToolRequestUserInputResponse,
+} from "../src/infrastructure/codex/schemas/v2";
+import { instrumentCodexAppServer } from "../src/infrastructure/codex/telemetry";
+import {
+  FakeAppServer,
+  type FakeAppServerOptions,
+  type ReceivedMessage,
+  type ScriptedStep,
+} from "../src/infrastructure/codex/testing/fake-app-server";
+import { TraceReplayer } from "../src/infrastructure/codex/testing/trace-replayer";
+
+const CLIENT_INFO = { name: "offline-test", version: "0.1.0", title: null };
+
+function connect(options: FakeAppServerOptions = {}) {
+  const [client, server] = InMemoryTransport.pair();
+  const fake = new FakeAppServer(server, options);
+  const codex = CodexAppServer.create({ transport: client });
+  return { codex, fake, client };
+}
+
+interface SseEvent {
+  id?: string;
+  event: string;
+  data: unknown;
+}
+
+/**
+ * Read an SSE response to the end, calling `onEvent` as events arrive.
+ */
+async function readSse(
+  response: Response,
+  onEvent: (event: SseEvent) => Promise<void> | void = () => {},
+): Promise<SseEvent[]> {
+  assert.ok(response.body);
+  const events: SseEvent[] = [];
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return events;
+    }
+
+    buffer += value;
+    const blocks = buffer.split("\n\n");
+    buffer = blocks.pop() ?? "";
+    for (const block of blocks) {
+      const id = block.match(/^id: (.*)$/m)?.[1];
+      const event = block.match(/^event: (.*)$/m)?.[1] ?? "message";
+      const data = block.match(/^data: (.*)$/m)?.[1];
+      const parsed = { id, event, data: data ? JSON.parse(data) : null };
+      events.push(parsed);
+      await onEvent(parsed);
+    }
+  }
+}
+
+describe("CodexAppServer", () => {
+  test("initializes and reports the user agent", async () => {
+    const { codex, fake } = connect({ userAgent: "fake/1.2.3" });
+    const response = await codex.initialize(CLIENT_INFO);
+
+    assert.equal(response.userAgent, "fake/1.2.3");
+    assert.ok(codex.isInitialized());
+    assert.deepEqual(fake.received[0].params, {
+      clientInfo: CLIENT_INFO,
+      capabilities: null,
+    });
+    codex.dispose();
+  });
+
+  test("streams a scripted turn through typed notifications", async () => {
+    const { codex } = connect({
+      turns: [
+        {
+          steps: [
+            { type: "agentMessage", text: "Hello offline world" },
+            { type: "commandExecution", command: "ls", output: "a.txt\n" },
+          ],
+        },
+      ],
+    });
+    await codex.initialize(CLIENT_INFO);
+    const { thread } = await codex.startThread({});
+
+    const deltas: string[] = [];
+    const commandOutput: string[] = [];
+    codex.onThreadNotification(
+      "item/agentMessage/delta",
+      { threadId: thread.id },
+      (params) => {
+        deltas.push(params.delta);
+      },
+    );
+    codex.onNotification("item/commandExecution/outputDelta", (params) => {
+      commandOutput.push(params.delta);
+    });
+    const completed = new Promise<string>((resolve) => {
+      codex.onNotification("turn/completed", (params) => {
+        resolve(params.turn.status);
+      });
+    });
+
+    await codex.sendMessage(thread.id, "hi");
+
+    assert.equal(await completed, "completed");
+    assert.equal(deltas.join(""), "Hello offline world");
+    assert.deepEqual(commandOutput, ["a.txt\n"]);
+    codex.dispose();
+  });
+
+  test("answers server requests with registered handlers", async () => {
+    const { codex, fake } = connect({
+      turns: [
+        {
+          steps: [
+            {
+              type: "requestUserInput",
+              questions: [
+                {
+                  id: "q1",
+                  header: "Name",
+                  question: "What is your name?",
+                  isOther: false,
+                  isSecret: false,
+                  options: null,
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+    codex.onServerRequest("item/tool/requestUserInput", async () => ({
+      answers: { q1: { answers: ["Codex"] } },
+    }));
+    await codex.initialize(CLIENT_INFO);
+    const { thread } = await codex.startThread({});
+
+    const answered = new Promise((resolve) => fake.once("userInput", resolve));
+    const completed = new Promise((resolve) => {
+      codex.onNotification("turn/completed", resolve);
+    });
+    await codex.sendMessage(thread.id, "ask me");
+
+    assert.deepEqual(await answered, {
+      answers: { q1: { answers: ["Codex"] } },
+    });
+    await completed;
+    codex.dispose();
+  });
+
+  test("drops answers to server requests once the process is gone", async () => {
+    const { codex, fake, client } = connect({
+      turns: [
+        {
+          steps: [
+            {
+              type: "requestUserInput",
+              questions: [
+                {
+                  id: "q1",
+                  header: "Name",
+                  question: "What is your name?",
+                  isOther: false,
+                  isSecret: false,
+                  options: null,
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+    let answer: (response: ToolRequestUserInputResponse) => void = () => {};
+    const asked = new Promise<void>((resolve) => {
+      codex.onServerRequest(
+        "item/tool/requestUserInput",
+        () =>
+          new Promise((resolveAnswer) => {
+            answer = resolveAnswer;
+            resolve();
+          }),
+      );
+    });
+    await codex.initialize(CLIENT_INFO);
+    const { thread } = await codex.startThread({});
+    await codex.sendMessage(thread.id, "ask me");
+    await asked;
+
+    const rejections: unknown[] = [];
+    const onRejection = (reason: unknown) => rejections.push(reason);
+    process.on("unhandledRejection", onRejection);
+    try {
+      client.close();
+      answer({ answers: { q1: { answers: ["too late"] } } });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    } finally {
+      process.off("unhandledRejection", onRejection);
+    }
+
+    assert.deepEqual(rejections, []);
+    assert.ok(!fake.received.some((m) => m.method === undefined));
+    codex.dispose();
+  });
+
+  test("rejects unknown methods with the server error", async () => {
+    const { codex } = connect();
+    await codex.initialize(CLIENT_INFO);
+
+    await assert.rejects(codex.listApps({}), /Unknown method: app\/list/);
+    codex.dispose();
+  });
+
+  test("interrupts a running turn", async () => {
+    const { codex } = connect({
+      turns: [{ steps: [{ type: "delay", ms: 1000 }] }],
+    });
+    await codex.initialize(CLIENT_INFO);
+    const { thread } = await codex.startThread({});
+
+    const completed = new Promise<string>((resolve) => {
+      codex.onNotification("turn/completed", (params) => {
+        resolve(params.turn.status);
+      });
+    });
+    const { turn } = await codex.sendMessage(thread.id, "wait");
+    await codex.interruptTurn({ threadId: thread.id, turnId: turn.id });
+
+    assert.equal(await completed, "interrupted");
+    codex.dispose();
+  });
+
+  test("gives up on requests after timeoutMs", async () => {
+    const { codex, fake } = connect();
+    await codex.initialize(CLIENT_INFO);
+    const errors: Error[] = [];
+    codex.on("error", (error: Error) => errors.push(error));
+
+    let answer = () => {};
+    fake.handle(
+      "thread/list",
+      () =>
+        new Promise<void>((resolve) => {
+          answer = resolve;
+        }),
+    );
+    await assert.rejects(
+      codex.request("thread/list", {}, { timeoutMs: 20 }),
+      (error: unknown) =>
+        error instanceof CodexRequestTimeoutError &&
+        error.method === "thread/list" &&
+        error.timeoutMs === 20,
+    );
+
+    // The late response is dropped, not reported as unknown
+    answer();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.deepEqual(errors, []);
+
+    fake.handle("thread/list", () => ({ data: [], nextCursor: null }));
+    assert.deepEqual(
+      await codex.request("thread/list", {}, { timeoutMs: 1000 }),
+      { data: [], nextCursor: null },
+    );
+    codex.dispose();
+  });
+
+  test("cancels requests with an AbortSignal", async () => {
+    const { codex, fake } = connect();
+    await codex.initialize(CLIENT_INFO);
+
+    // Already aborted: nothing is sent
+    await assert.rejects(
+      codex.request("thread/list", {}, { signal: AbortSignal.abort() }),
+      CodexRequestAbortedError,
+    );
+    assert.ok(!fake.received.some((m) => m.method === "thread/list"));
+
+    fake.handle("thread/list", () => new Promise(() => {}));
+    const controller = new AbortController();
+    const listed = codex.request(
+      "thread/list",
+      {},
+      { signal: controller.signal },
+    );
+    await fake.waitForMessage("thread/list");
+    controller.abort("user left");
+    await assert.rejects(
+      listed,
+      (error: unknown) =>
+        error instanceof CodexRequestAbortedError &&
+        error.method === "thread/list",
+    );
+    codex.dispose();
+  });
+
+  test("interrupts turns whose start was aborted", async () => {
+    const { codex, fake } = connect({
+      turns: [
+        { steps: [{ type: "delay", ms: 1000 }] },
+        { steps: [{ type: "delay", ms: 1000 }] },
+      ],
+    });
+    await codex.initialize(CLIENT_INFO);
+    const { thread } = await codex.startThread({});
+    const nextCompleted = () =>
+      new Promise<string>((resolve) => {
+        const unsubscribe = codex.onNotification("turn/completed", (params) => {
+          unsubscribe();
+          resolve(params.turn.status);
+        });
+      });
+
+    // Aborted once the turn has started
+    let completed = nextCompleted();
+    const started = new AbortController();
+    await codex.sendMessage(thread.id, "wait", undefined, {
+      signal: started.signal,
+      interruptOnAbort: true,
+    });
+    started.abort();
+    assert.equal(await completed, "interrupted");
+
+    // Aborted before turn/start answered: the late response is interrupted
+    completed = nextCompleted();
+    const pending = new AbortController();
+    const removeMiddleware = codex.use({
+      response: (response) => {
+        if (response.method === "turn/start") {
+          pending.abort();
+        }
+      },
+    });
+    await assert.rejects(
+      codex.sendMessage(thread.id, "wait", undefined, {
+        signal: pending.signal,
+        interruptOnAbort: true,
+      }),
+      CodexRequestAbortedError,
+    );
+    removeMiddleware();
+    assert.equal(await completed, "interrupted");
+
+    assert.equal(
+      fake.received.filter((m) => m.method === "turn/interrupt").length,
+      2,
+    );
+    codex.dispose();
+  });
+
+  test("resumes loaded threads after reconnecting", async () => {
+    const [client, server] = InMemoryTransport.pair();
+    const fake = new FakeAppServer(server);
+    const codex = CodexAppServer.create({
+      transport: client,
+      respawn: { initialDelayMs: 1 },
+    });
+    await codex.initialize(CLIENT_INFO);
+    const { thread } = await codex.startThread({});
+
+    const reconnected = new Promise<string[]>((resolve) => {
+      codex.once("reconnected", (event) => resolve(event.resumedThreadIds));
+    });
+    client.close();
+
+    assert.deepEqual(await reconnected, [thread.id]);
+    assert.ok(
+      fake.received.some(
+        (m) =>
+          m.method === "thread/resume" &&
+          (m.params as { threadId: string }).threadId === thread.id,
+      ),
+    );
+    codex.dispose();
+  });
+
+  test("gives up when the respawn attempts fail", async () => {
+    const sockets: net.Socket[] = [];
+    const server = net.createServer((socket) => {
+      sockets.push(socket);
+      // Answers initialize; the initialized notification needs no answer
+      readline.createInterface({ input: socket }).on("line", (line) => {
+        const { id } = JSON.parse(line);
+        if (id !== undefined) {
+          socket.write(
+            `${JSON.stringify({ id, result: { userAgent: "fake" } })}\n`,
+          );
+        }
+      });
+    });
+    server.listen(0, "127.0.0.1");
+    await once(server, "listening");
+    const { port } = server.address() as AddressInfo;
+
+    // No "error" listener: a failed attempt must not crash the process
+    const codex = CodexAppServer.create({
+      transport: new TcpTransport({ port }),
+      respawn: { initialDelayMs: 1, maxAttempts: 2 },
+    });
+    await codex.initialize(CLIENT_INFO);
+
+    const attempts: number[] = [];
+    codex.on("reconnecting", (event) => attempts.push(event.attempt));
+    const failed = new Promise<ReconnectFailedEvent>((resolve) => {
+      codex.once("reconnectFailed", resolve);
+    });
+    // The server goes away, so every attempt is refused
+    server.close();
+    for (const socket of sockets) {
+      socket.destroy();
+    }
+
+    const event = await failed;
+    assert.deepEqual(attempts, [1, 2]);
+    assert.equal(event.attempts, 2);
+    codex.dispose();
+  });
+});
+
+describe("codexAppServerOptionsFromEnv", () => {
+  test("defaults to spawning the codex on PATH", () => {
+    assert.deepEqual(codexAppServerOptionsFromEnv({}), { spawn: {} });
+  });
+
+  test("reads every variable", () => {
+    const options = codexAppServerOptionsFromEnv({
+      CODEX_APP_SERVER_BIN: "node_modules/.bin/codex",
+      CODEX_APP_SERVER_ARGS: "  app-server   --listen stdio ",
+      CODEX_APP_SERVER_CWD: "workspace",
+      CODEX_APP_SERVER_HOME: "/srv/codex-home",
+      CODEX_APP_SERVER_CONFIG:
+        '{"model":"o3","sandbox_workspace_write":{"network_access":true}}',
+      CODEX_APP_SERVER_REQUEST_TIMEOUT_MS: "1500",
+      CODEX_APP_SERVER_TRACE: "trace.jsonl",
+      CODEX_APP_SERVER_STRICT: "1",
+    });
+
+    assert.deepEqual(options, {
+      spawn: {
+        command: path.resolve("node_modules/.bin/codex"),
+        args: ["app-server", "--listen", "stdio"],
+        cwd: path.resolve("workspace"),
+        codexHome: "/srv/codex-home",
+        config: {
+          model: "o3",
+          sandbox_workspace_write: { network_access: true },
+        },
+      },
+      requestTimeoutMs: 1500,
+      tracePath: path.resolve("trace.jsonl"),
+      strict: true,
+    });
+  });
+
+  test("keeps bare commands for PATH lookup", () => {
+    const options = codexAppServerOptionsFromEnv({
+      CODEX_APP_SERVER_BIN: "codex",
+      // Only "1" turns strict mode on
+      CODEX_APP_SERVER_STRICT: "true",
+    });
+    assert.deepEqual(options, { spawn: { command: "codex" } });
+  });
+
+  test("rejects invalid values", () => {
+    for (const config of ["{model:", "[1]", "null", '"o3"']) {
+      assert.throws(
+        () => codexAppServerOptionsFromEnv({ CODEX_APP_SERVER_CONFIG: config }),
+        /CODEX_APP_SERVER_CONFIG must be (valid JSON|a JSON object)/,
+      );
+    }
+    for (const timeout of ["0", "-5", "soon", "Infinity"]) {
+      assert.throws(
+        () =>
+          codexAppServerOptionsFromEnv({
+            CODEX_APP_SERVER_REQUEST_TIMEOUT_MS: timeout,
+          }),
+        /CODEX_APP_SERVER_REQUEST_TIMEOUT_MS must be a positive number/,
+      );
+    }
+  });
+});
+
+describe("CodexAppServerPool", () => {
+  function createPool(options: CodexAppServerPoolOptions = {}) {
+    return new CodexAppServerPool({
+      createOptions: () => {
+        const [client, server] = InMemoryTransport.pair();
+        new FakeAppServer(server);
+        return { transport: client };
+      },
+      setup: async (codex) => {
+        await codex.initialize(CLIENT_INFO);
+      },
+      ...options,
+    });
+  }
+
+  test("shares one instance per key and disposes it once idle", async () => {
+    const pool = createPool({ idleTimeoutMs: 50 });
+
+    const first = await pool.acquire("/srv/a");
+    const second = await pool.acquire("/srv/a");
+    const other = await pool.acquire("/srv/b");
+    assert.equal(first.codex, second.codex);
+    assert.notEqual(first.codex, other.codex);
+    assert.equal(pool.size, 2);
+
+    // Releasing a lease twice does not give back the other one
+    first.release();
+    first.release();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assert.ok(pool.has("/srv/a"));
+    assert.ok(!first.codex.isDisposed());
+
+    second.release();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assert.ok(!pool.has("/srv/a"));
+    assert.ok(first.codex.isDisposed());
+
+    other.release();
+    pool.disposeAll();
+    assert.ok(other.codex.isDisposed());
+  });
+
+  test("keeps a disposed key's instance until its leases are released", async () => {
+    const pool = createPool();
+
+    const stale = await pool.acquire("/srv/a");
+    pool.dispose("/srv/a");
+    assert.ok(!stale.codex.isDisposed());
+
+    // The stale lease must not release the key's new instance
+    const current = await pool.acquire("/srv/a");
+    assert.notEqual(current.codex, stale.codex);
+    stale.release();
+    assert.ok(stale.codex.isDisposed());
+    assert.ok(!current.codex.isDisposed());
+
+    // Only idle instances make room for new keys
+    const full = createPool({ maxInstances: 1 });
+    const leased = await full.acquire("/srv/a");
+    await assert.rejects(full.acquire("/srv/b"), CodexPoolExhaustedError);
+    leased.release();
+    const next = await full.acquire("/srv/b");
+    assert.ok(leased.codex.isDisposed());
+
+    current.release();
+    next.release();
+    pool.disposeAll();
+    full.disposeAll();
+  });
+});
+
+describe("transports", () => {
+  // Resolves with the next `count` messages the transport receives
+  function nextMessages(transport: Transport, count: number) {
+    return new Promise<string[]>((resolve) => {
+      const messages: string[] = [];
+      const onMessage = (message: string) => {
+        messages.push(message);
+        if (messages.length === count) {
+          transport.off("message", onMessage);
+          resolve(messages);
+        }
+      };
+      transport.on("message", onMessage);
+    });
+  }
+
+  test("talks JSONL over a TCP socket", async () => {
+    const server = net.createServer();
+    server.listen(0, "127.0.0.1");
+    await once(server, "listening");
+    const { port } = server.address() as AddressInfo;
+
+    const transport = new TcpTransport({ port });
+    const errors: Error[] = [];
+    transport.on("error", (error: Error) => errors.push(error));
+    const connected = once(server, "connection");
+    transport.open();
+    // Written before the socket connects
+    transport.send('{"id":1}');
+    const [socket] = (await connected) as [net.Socket];
+    socket.setEncoding("utf8");
+    assert.equal(String((await once(socket, "data"))[0]), '{"id":1}\n');
+
+    // Messages may be split across packets, or share one
+    const received = nextMessages(transport, 2);
+    socket.write('{"id":1,"result":{}}\n{"method"');
+    socket.write(':"initialized"}\n');
+    assert.deepEqual(await received, [
+      '{"id":1,"result":{}}',
+      '{"method":"initialized"}',
+    ]);
+
+    const closed = once(transport, "close");
+    socket.end();
+    assert.deepEqual(await closed, [{ code: null, signal: null }]);
+    assert.ok(!transport.isOpen());
+    assert.throws(() => transport.send("{}"), /not connected/);
+
+    // Reconnecting to a server that is gone fails with an error and a close
+    server.close();
+    await once(server, "close");
+    // Not `once`, which rejects on the error event
+    const failed = new Promise((resolve) => transport.once("close", resolve));
+    transport.open();
+    await failed;
+    assert.equal(errors.length, 1);
+    assert.match(errors[0].message, /ECONNREFUSED/);
+  });
+
+  test("talks JSONL over a WebSocket", async () => {
+    const server = new WebSocketServer({ host: "127.0.0.1", port: 0 });
+    await once(server, "listening");
+    const { port } = server.address() as AddressInfo;
+    const url = `ws://127.0.0.1:${port}`;
+
+    const transport = new WebSocketTransport({ url, WebSocket });
+    const errors: Error[] = [];
+    transport.on("error", (error: Error) => errors.push(error));
+    const connected = once(server, "connection");
+    transport.open();
+    // Sent once the socket has connected
+    transport.send('{"id":1}');
+    const [socket] = (await connected) as [WebSocket];
+    assert.equal(String((await once(socket, "message"))[0]), '{"id":1}');
+
+    // A frame may carry several messages
+    const received = nextMessages(transport, 2);
+    socket.send('{"id":1,"result":{}}\n{"method":"initialized"}\n');
+    assert.deepEqual(await received, [
+      '{"id":1,"result":{}}',
+      '{"method":"initialized"}',
+    ]);
+
+    const closed = once(transport, "close");
+    socket.close(4000);
+    assert.deepEqual(await closed, [{ code: 4000, signal: null }]);
+    assert.ok(!transport.isOpen());
+
+    // Reconnecting to a server that is gone fails with an error and a close
+    server.close();
+    await once(server, "close");
+    // Not `once`, which rejects on the error event
+    const failed = new Promise((resolve) => transport.once("close", resolve));
+    transport.open();
+    await failed;
+    assert.deepEqual(
+      errors.map((error) => error.message),
+      [`WebSocket error on ${url}`],
+    );
+  });
+});
+
+describe("middleware", () => {
+  test("rewrites outbound requests in order", async () => {
+    const { codex, fake } = connect();
+    const order: string[] = [];
+    codex.use({
+      request: (request) => {
+        order.push("first");
+        return {
+          ...request,
+          params: { ...(request.params as object), cwd: "/injected" },
+        };
+      },
+    });
+    codex.use({
+      request: async (request) => {
+        order.push("second");
+        assert.equal((request.params as { cwd: string }).cwd, "/injected");
+      },
+    });
+    await codex.initialize(CLIENT_INFO);
+    await codex.startThread({});
+
+    const threadStart = fake.received.find((m) => m.method === "thread/start");
+    assert.equal((threadStart?.params as { cwd: string }).cwd, "/injected");
+    assert.deepEqual(order, ["first", "second", "first", "second"]);
+    codex.dispose();
+  });
+
+  test("transforms responses and rejects when an interceptor throws", async () => {
+    const { codex } = connect({ userAgent: "secret-agent" });
+    codex.use({
+      response: (response) =>
+        response.method === "initialize"
+          ? { ...response, result: { userAgent: "[redacted]" } }
+          : undefined,
+    });
+    const response = await codex.initialize(CLIENT_INFO);
+    assert.equal(response.userAgent, "[redacted]");
+
+    const remove = codex.use({
+      response: () => {
+        throw new Error("blocked");
+      },
+    });
+    await assert.rejects(codex.startThread({}), /blocked/);
+    remove();
+    await codex.startThread({});
+    codex.dispose();
+  });
+
+  test("keeps notification order and drops filtered notifications", async () => {
+    const { codex } = connect({
+      turns: [{ steps: [{ type: "agentMessage", text: "one two three" }] }],
+    });
+    codex.use({
+      notification: async (notification) => {
+        // Later notifications must wait for earlier ones
+        await new Promise((resolve) => setTimeout(resolve, Math.random() * 5));
+        return notification.method === "item/started" ? null : notification;
+      },
+    });
+    await codex.initialize(CLIENT_INFO);
+    const { thread } = await codex.startThread({});
+
+    const methods: string[] = [];
+    const deltas: string[] = [];
+    codex.on("notification", ({ method }) => methods.push(method));
+    codex.onNotification("item/agentMessage/delta", (params) => {
+      deltas.push(params.delta);
+    });
+    const completed = new Promise((resolve) => {
+      codex.onNotification("turn/completed", resolve);
+    });
+    await codex.sendMessage(thread.id, "hi");
+    await completed;
+
+    assert.equal(deltas.join(""), "one two three");
+    assert.ok(!methods.includes("item/started"));
+    assert.equal(methods.at(-1), "turn/completed");
+    codex.dispose();
+  });
+
+  test("intercepts server requests before their handlers", async () => {
+    const { codex, fake } = connect();
+    codex.use({
+      serverRequest: (request) => ({
+        ...request,
+        params: { ...(request.params as object), reason: "rewritten" },
+      }),
+    });
+    let reason: string | null | undefined;
+    codex.onServerRequest(
+      "item/commandExecution/requestApproval",
+      async (params) => {
+        reason = params.reason;
+        return { decision: "accept" as const };
+      },
+    );
+    await codex.initialize(CLIENT_INFO);
+
+    const response = await fake.request(
+      "item/commandExecution/requestApproval",
+      { threadId: "t", turnId: "u", itemId: "i", reason: "original" },
+    );
+    assert.deepEqual(response, { decision: "accept" });
+    assert.equal(reason, "rewritten");
+    codex.dispose();
+  });
+});
+
+describe("strict mode", () => {
+  function connectStrict(options: FakeAppServerOptions = {}) {
+    const [client, server] = InMemoryTransport.pair();
+    const fake = new FakeAppServer(server, options);
+    const codex = CodexAppServer.create({ transport: client, strict: true });
+    const mismatches: ProtocolMismatchEvent[] = [];
+    codex.on("protocol-mismatch", (event) => mismatches.push(event));
+    return { codex, fake, mismatches };
+  }
+
+  test("accepts messages that match the schemas", async () => {
+    const { codex, mismatches } = connectStrict({
+      turns: [
+        {
+          steps: [
+            { type: "plan", plan: [{ step: "Look", status: "completed" }] },
+            { type: "commandExecution", command: "ls", output: "a\n" },
+            { type: "agentMessage", text: "Done" },
+          ],
+        },
+      ],
+    });
+    await codex.initialize(CLIENT_INFO);
+    const { thread } = await codex.startThread({});
+    const completed = new Promise((resolve) => {
+      codex.onNotification("turn/completed", resolve);
+    });
+    await codex.sendMessage(thread.id, "hi");
+    await completed;
+
+    assert.deepEqual(mismatches, []);
+    assert.deepEqual(codex.getProtocolInfo(), {
+      userAgent: "fake-codex/0.0.0",
+      schemaVersion: SCHEMA_VERSION,
+    });
+    codex.dispose();
+  });
+
+  test("reports responses and notifications that do not match", async () => {
+    const { codex, fake, mismatches } = connectStrict();
+    fake.handle("thread/start", () => ({ thread: { id: 42 } }));
+    await codex.initialize(CLIENT_INFO);
+
+    await codex.startThread({});
+    fake.notify("turn/completed", {
+      threadId: "thread-1",
+      turn: { id: "turn-1", items: [], status: "paused" },
+    } as never);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    assert.equal(mismatches[0].kind, "response");
+    assert.equal(mismatches[0].method, "thread/start");
+    assert.ok(
+      mismatches[0].issues.some(
+        (issue) =>
+          issue.path === "result.thread.id" &&
+          issue.message === "expected string, got number",
+      ),
+    );
+    assert.equal(mismatches[1].kind, "notification");
+    assert.deepEqual(
+      mismatches[1].issues.map((issue) => issue.path),
+      ["params.turn.status", "params.turn.error"],
+    );
+    codex.dispose();
+  });
+});
+
+describe("protocol traces", () => {
+  const tracePath = path.join(
+    fs.mkdtempSync(path.join(os.tmpdir(), "codex-trace-")),
+    "trace.jsonl",
+  );
+
+  /**
+   * Run one turn and collect the agent message deltas.
+   */
+  async function runTurn(codex: CodexAppServer): Promise<string[]> {
+    await codex.initialize(CLIENT_INFO);
+    const { thread } = await codex.startThread({});
+
+    const deltas: string[] = [];
+    codex.onNotification("item/agentMessage/delta", (params) => {
+      deltas.push(params.delta);
+    });
+    const completed = new Promise((resolve) => {
+      codex.onNotification("turn/completed", resolve);
+    });
+    await codex.sendMessage(thread.id, "hi");
+    await completed;
+    return deltas;
+  }
+
+  test("records every message with its direction", async () => {
+    const [client, server] = InMemoryTransport.pair();
+    new FakeAppServer(server, {
+      turns: [{ steps: [{ type: "agentMessage", text: "Recorded reply" }] }],
+    });
+    const codex = CodexAppServer.create({ transport: client, tracePath });
+
+    await runTurn(codex);
+    codex.dispose();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const entries = readTrace(tracePath);
+    assert.deepEqual(entries[0].message, {
+      id: 1,
+      method: "initialize",
+      params: { clientInfo: CLIENT_INFO, capabilities: null },
+    });
+    assert.equal(entries[0].direction, "outbound");
+    assert.equal(entries[1].direction, "inbound");
+    assert.ok(
+      entries.every((entry) => !Number.isNaN(Date.parse(entry.timestamp))),
+    );
+  });
+
+  test("replays a trace against a new client", async () => {
+    const [client, server] = InMemoryTransport.pair();
+    const replayer = new TraceReplayer(server, readTrace(tracePath), {
+      speed: 0,
+    });
+    const codex = CodexAppServer.create({ transport: client });
+
+    const [deltas] = await Promise.all([runTurn(codex), replayer.start()]);
+
+    assert.equal(deltas.join(""), "Recorded reply");
+    codex.dispose();
+  });
+});
+
+describe("telemetry", () => {
+  function instrument(codex: CodexAppServer) {
+    const spans = new InMemorySpanExporter();
+    const tracerProvider = new BasicTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(spans)],
+    });
+    const metrics = new InMemoryMetricExporter(
+      AggregationTemporality.CUMULATIVE,
+    );
+    const meterProvider = new MeterProvider({
+      readers: [new PeriodicExportingMetricReader({ exporter: metrics })],
+    });
+    const stop = instrumentCodexAppServer(codex, {
+      tracer: tracerProvider.getTracer("test"),
+      meter: meterProvider.getMeter("test"),
+    });
+
+    const metricNames = async () => {
+      await meterProvider.forceFlush();
+      return metrics
+        .getMetrics()
+        .flatMap((resource) => resource.scopeMetrics)
+        .flatMap((scope) => scope.metrics)
+        .map((metric) => metric.descriptor.name);
+    };
+    return { spans, metricNames, stop };
+  }
+
+  test("records requests, turns, commands and MCP tool calls", async () => {
+    const { codex } = connect({
+      turns: [
+        {
+          steps: [
+            { type: "commandExecution", command: "ls", output: "a\n" },
+            { type: "mcpToolCall", server: "docs", tool: "search" },
+            { type: "tokenUsage", inputTokens: 10, outputTokens: 5 },
+            { type: "tokenUsage", inputTokens: 20, outputTokens: 7 },
+          ],
+        },
+      ],
+    });
+    const { spans, metricNames, stop } = instrument(codex);
+
+    await codex.initialize(CLIENT_INFO);
+    const { thread } = await codex.startThread({});
+    const completed = new Promise((resolve) => {
+      codex.onNotification("turn/completed", resolve);
+    });
+    await codex.sendMessage(thread.id, "hi");
+    await completed;
+
+    const finished = spans.getFinishedSpans();
+    const byName = (name: string) => {
+      const span = finished.find((entry) => entry.name === name);
+      assert.ok(span, `missing span ${name}`);
+      return span;
+    };
+    assert.equal(
+      byName("codex initialize").attributes["rpc.method"],
+      "initialize",
+    );
+    assert.ok(byName("codex thread/start"));
+    assert.ok(byName("codex turn/start"));
+
+    const turn = byName("codex.turn");
+    assert.equal(turn.attributes["codex.thread.id"], thread.id);
+    assert.equal(turn.attributes["codex.turn.status"], "completed");
+    assert.equal(turn.attributes["gen_ai.usage.input_tokens"], 30);
+    assert.equal(turn.attributes["gen_ai.usage.output_tokens"], 12);
+
+    const command = byName("codex.command");
+    assert.equal(command.attributes["codex.command"], "ls");
+    assert.equal(command.attributes["process.exit.code"], 0);
+    assert.equal(command.parentSpanContext?.spanId, turn.spanContext().spanId);
+    assert.equal(
+      byName("codex.mcp_tool_call docs.search").parentSpanContext?.spanId,
+      turn.spanContext().spanId,
+    );
+
+    const names = await metricNames();
+    for (const name of [
+      "codex.rpc.duration",
+      "codex.turn.duration",
+      "codex.tokens",
+      "codex.command.duration",
+      "codex.mcp.tool_call.duration",
+    ]) {
+      assert.ok(names.includes(name), `missing metric ${name}`);
+    }
+    stop();
+    codex.dispose();
+  });
+
+  test("marks failed requests and tool calls as errors", async () => {
+    const { codex, fake } = connect({
+      turns: [
+        {
+          steps: [
+            {
+              type: "mcpToolCall",
+              server: "docs",
+              tool: "search",
+              error: "offline",
+            },
+          ],
+        },
+      ],
+    });
+    const { spans, stop } = instrument(codex);
+    await codex.initialize(CLIENT_INFO);
+    const { thread } = await codex.startThread({});
+
+    fake.handle("thread/resume", () => {
+      throw new Error("no such thread");
+    });
+    await assert.rejects(codex.resumeThread({ threadId: "missing" }));
+
+    const completed = new Promise((resolve) => {
+      codex.onNotification("turn/completed", resolve);
+    });
+    await codex.sendMessage(thread.id, "hi");
+    await completed;
+
+    const finished = spans.getFinishedSpans();
+    const resume = finished.find((span) => span.name === "codex thread/resume");
+    assert.equal(resume?.status.code, SpanStatusCode.ERROR);
+    assert.equal(resume?.attributes["rpc.jsonrpc.error_code"], -32000);
+    const toolCall = finished.find((span) =>
+      span.name.startsWith("codex.mcp_tool_call"),
+    );
+    assert.equal(toolCall?.status.code, SpanStatusCode.ERROR);
+    assert.equal(toolCall?.status.message, "offline");
+    stop();
+    codex.dispose();
+  });
+
+  test("ends the spans of requests that time out", async () => {
+    const { codex, fake } = connect();
+    const { spans, metricNames, stop } = instrument(codex);
+    await codex.initialize(CLIENT_INFO);
+
+    let answer = () => {};
+    fake.handle(
+      "thread/list",
+      () =>
+        new Promise<void>((resolve) => {
+          answer = resolve;
+        }),
+    );
+    await assert.rejects(
+      codex.request("thread/list", {}, { timeoutMs: 20 }),
+      CodexRequestTimeoutError,
+    );
+
+    const list = spans
+      .getFinishedSpans()
+      .find((span) => span.name === "codex thread/list");
+    assert.equal(list?.status.code, SpanStatusCode.ERROR);
+    assert.ok((await metricNames()).includes("codex.rpc.duration"));
+
+    // The late response finds no span to end again
+    answer();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.equal(
+      spans
+        .getFinishedSpans()
+        .filter((span) => span.name === "codex thread/list").length,
+      1,
+    );
+    stop();
+    codex.dispose();
+  });
+
+  test("ends the spans of requests that cannot be sent", async () => {
+    const [client, server] = InMemoryTransport.pair();
+    new FakeAppServer(server);
+    const codex = CodexAppServer.create({ transport: client });
+    const { spans, stop } = instrument(codex);
+    await codex.initialize(CLIENT_INFO);
+
+    // E.g. while a respawn is waiting for its next attempt
+    client.close();
+    await assert.rejects(codex.request("thread/list", {}), /not connected/);
+
+    const list = spans
+      .getFinishedSpans()
+      .find((span) => span.name === "codex thread/list");
+    assert.equal(list?.status.code, SpanStatusCode.ERROR);
+    assert.equal(list?.attributes["rpc.method"], "thread/list");
+    stop();
+    codex.dispose();
+  });
+});
+
+describe("/api/threads", () => {
+  const workspace = fs.mkdtempSync(path.join(os.tmpdir(), "codex-workspace-"));
+  process.env.CODEX_CHAT_EXEC_POLICY_FILE = path.join(
+    workspace,
+    ".codex-chat",
+    "exec-policy.json",
+  );
+  // Threads start in the workspace of the fake app-server
+  process.env.CODEX_APP_SERVER_CWD = workspace;
+  const [client, server] = InMemoryTransport.pair();
+  const fake = new FakeAppServer(server, { cwd: workspace });
+
+  // The routes reach the fake through the workspace's app-server
+  before(async () => {
+    const { setCodexOptions } = await import("../src/app/api/_lib/codex");
+    setCodexOptions(() => ({ transport: client }));
+  });
+
+  after(async () => {
+    const { setCodexOptions } = await import("../src/app/api/_lib/codex");
+    setCodexOptions();
+  });
+
+  const routeParams = (id: string) => ({ params: Promise.resolve({ id }) });
+
+  async function createThread(): Promise<string> {
+    const { POST } = await import("../src/app/api/threads/route");
+    const response = await POST(
+      new Request("http://localhost/api/threads", { method: "POST" }),
+    );
+    assert.equal(response.status, 201);
+    const { thread } = (await response.json()) as { thread: { id: string } };
+    return thread.id;
+  }
+
+  async function startTurn(threadId: string, body: unknown) {
+    const { POST } = await import("../src/app/api/threads/[id]/turns/route");
+    return POST(
+      new Request(`http://localhost/api/threads/${threadId}/turns`, {
+        method: "POST",
+        body: JSON.stringify(body),
+      }),
+      routeParams(threadId),
+    );
+  }
+
+  test("answers 503 while every app-server is in use", async () => {
+    const { withCodex } = await import("../src/app/api/_lib/codex");
+    const GET = withCodex(async () => {
+      throw new CodexPoolExhaustedError(8);
+    });
+    const response = await GET();
+    assert.equal(response.status, 503);
+    assert.match((await response.json()).error, /All 8/);
+  });
+
+  test("starts threads only in allowed workspaces", async () => {
+    const { POST } = await import("../src/app/api/threads/route");
+    const { isAllowedWorkspace } = await import("../src/app/api/_lib/codex");
+    const start = (cwd: string) =>
+      POST(
+        new Request("http://localhost/api/threads", {
+          method: "POST",
+          body: JSON.stringify({ cwd }),
+        }),
+      );
+
+    assert.equal((await start("relative/path")).status, 400);
+    assert.equal((await start(path.dirname(workspace))).status, 403);
+    // The same workspace, however it is spelled
+    assert.equal((await start(`${workspace}${path.sep}`)).status, 201);
+    const threadStart = fake.received.findLast(
+      (m) => m.method === "thread/start",
+    );
+    assert.equal((threadStart?.params as { cwd: string }).cwd, workspace);
+
+    const other = path.join(os.tmpdir(), "codex-other-workspace");
+    assert.ok(!isAllowedWorkspace(other));
+    process.env.CODEX_CHAT_WORKSPACES = [workspace, other].join(path.delimiter);
+    try {
+      assert.ok(isAllowedWorkspace(path.join(other, "packages", "app")));
+      assert.ok(!isAllowedWorkspace(`${other}-2`));
+    } finally {
+      delete process.env.CODEX_CHAT_WORKSPACES;
+    }
+  });
+
+  test("streams a turn as SSE events", async () => {
+    const threadId = await createThread();
+    fake.enqueueTurn({
+      steps: [
+        {
+          type: "commandExecution",
+          command: "npm test",
+          output: "1 failing\n",
+          exitCode: 1,
+        },
+        {
+          type: "fileChange",
+          changes: [
+            {
+              path: "src/a.ts",
+              kind: { type: "update", move_path: null },
+              diff: "@@ -1 +1 @@\n-a\n+b\n",
+            },
+          ],
+        },
+        { type: "agentMessage", text: "Done." },
+      ],
+    });
+
+    const response = await startTurn(threadId, { message: "run the tests" });
+    const all = await readSse(response);
+    // Item lifecycle events are covered by the timeline test
+    const events = all.filter((e) => !e.event.startsWith("item_"));
+
+    assert.deepEqual(
+      events.map((e) => e.event),
+      ["turn_started", "command_output", "delta", "complete"],
+    );
+    assert.ok((events[0].data as { turnId: string }).turnId);
+
+    // Every item starts and completes once
+    const items = (event: string) =>
+      all
+        .filter((e) => e.event === event)
+        .map((e) => (e.data as { item: ThreadItem }).item);
+    const started = items("item_started");
+    assert.deepEqual(
+      started.map((item) => item.type),
+      ["commandExecution", "fileChange", "agentMessage"],
+    );
+    assert.deepEqual(
+      items("item_completed").map((item) => item.id),
+      started.map((item) => item.id),
+    );
+
+    // Command output carries the item ID of its command
+    assert.deepEqual(events[1].data, {
+      itemId: started[0].id,
+      delta: "1 failing\n",
+    });
+    assert.deepEqual(events.at(-1)?.data, { status: "completed" });
+  });
+
+  test("refuses a second turn submitted at the same time", async () => {
+    const threadId = await createThread();
+    fake.enqueueTurn({ steps: [{ type: "agentMessage", text: "Once." }] });
+
+    // Neither request has reached turn/start when the second one is checked
+    const [first, second] = await Promise.all([
+      startTurn(threadId, { message: "hello" }),
+      startTurn(threadId, { message: "hello" }),
+    ]);
+    assert.equal(second.status, 409);
+    const events = await readSse(first);
+    assert.equal(events.at(-1)?.event, "complete");
+    assert.equal(events.filter((e) => e.event === "turn_started").length, 1);
+  });
+
+  test("streams every item of the turn for the timeline", async () => {
+    const threadId = await createThread();
+    fake.enqueueTurn({
+      steps: [
+        {
+          type: "item",
+          item: {
+            type: "reasoning",
+            id: "reasoning-1",
+            summary: ["Looking for docs"],
+            content: [],
+          },
+        },
+        {
+          type: "item",
+          item: {
+            type: "webSearch",
+            id: "search-1",
+            query: "app-server protocol",
+            action: null,
+          },
+        },
+        {
+          type: "mcpToolCall",
+          server: "docs",
+          tool: "fetch",
+          progress: ["Fetching page 1"],
+        },
+        {
+          type: "item",
+          item: { type: "imageView", id: "image-1", path: "a.png" },
+        },
+        { type: "item", item: { type: "contextCompaction", id: "compact-1" } },
+        { type: "agentMessage", text: "Found it", chunks: ["Found", " it"] },
+      ],
+    });
+
+    const events = await readSse(
+      await startTurn(threadId, { message: "find the docs" }),
+    );
+    const itemEvents = events.filter((e) => e.event.startsWith("item_"));
+    const items = itemEvents.map((e) => (e.data as { item: ThreadItem }).item);
+
+    // Each item starts and completes, in order; the user's message is not sent
+    assert.deepEqual(
+      itemEvents.map((e, i) => `${e.event} ${items[i].type}`),
+      [
+        "reasoning",
+        "webSearch",
+        "mcpToolCall",
+        "imageView",
+        "contextCompaction",
+        "agentMessage",
+      ].flatMap((type) => [`item_started ${type}`, `item_completed ${type}`]),
+    );
+    assert.deepEqual(items[1], {
+      type: "reasoning",
+      id: "reasoning-1",
+      summary: ["Looking for docs"],
+      content: [],
+    });
+
+    // Streamed parts are keyed by the ID of their item
+    const mcpId = items[4].id;
+    assert.deepEqual(
+      events.find((e) => e.event === "mcp_tool_call_progress")?.data,
+      { itemId: mcpId, message: "Fetching page 1" },
+    );
+    const messageId = items.at(-1)?.id;
+    assert.deepEqual(
+      events.filter((e) => e.event === "delta").map((e) => e.data),
+      [
+        { itemId: messageId, text: "Found" },
+        { itemId: messageId, text: " it" },
+      ],
+    );
+  });
+
+  test("streams reasoning summaries part by part", async () => {
+    const threadId = await createThread();
+    fake.enqueueTurn({
+      steps: [
+        {
+          type: "reasoning",
+          summary: ["**Reading** the docs", "**Planning** the change"],
+          content: ["raw thoughts"],
+        },
+        { type: "agentMessage", text: "Done" },
+      ],
+    });
+
+    const events = await readSse(
+      await startTurn(threadId, { message: "think first" }),
+    );
+    const started = events.find((e) => e.event === "item_started");
+    const { item } = started?.data as { item: ThreadItem };
+    assert.deepEqual(item, {
+      type: "reasoning",
+      id: item.id,
+      summary: [],
+      content: [],
+    });
+
+    assert.deepEqual(
+      events
+        .filter((e) => e.event === "reasoning_summary_part_added")
+        .map((e) => e.data),
+      [
+        { itemId: item.id, summaryIndex: 0 },
+        { itemId: item.id, summaryIndex: 1 },
+      ],
+    );
+    const parts: string[] = [];
+    for (const event of events) {
+      if (event.event === "reasoning_summary_delta") {
+        const { itemId, summaryIndex, delta } = event.data as {
+          itemId: string;
+          summaryIndex: number;
+          delta: string;
+        };
+        assert.equal(itemId, item.id);
+        parts[summaryIndex] = (parts[summaryIndex] ?? "") + delta;
+      }
+    }
+    assert.deepEqual(parts, [
+      "**Reading** the docs",
+      "**Planning** the change",
+    ]);
+    assert.deepEqual(events.find((e) => e.event === "reasoning_delta")?.data, {
+      itemId: item.id,
+      contentIndex: 0,
+      delta: "raw thoughts",
+    });
+  });
+
+  test("applies the thread's reasoning settings to its turns", async () => {
+    const threadRoute = await import("../src/app/api/threads/[id]/route");
+    const forkRoute = await import("../src/app/api/threads/[id]/fork/route");
+    const threadId = await createThread();
+    const turnStarts = () =>
+      fake.received.filter(
+        (m) =>
+          m.method === "turn/start" &&
+          (m.params as { threadId: string }).threadId === threadId,
+      );
+    const reasoningOf = (message: ReceivedMessage | undefined) => {
+      const params = message?.params as {
+        summary: string | null;
+        collaborationMode: { settings: { reasoning_effort: string | null } };
+      };
+      return {
+        effort: params.collaborationMode.settings.reasoning_effort,
+        summary: params.summary,
+      };
+    };
+
+    fake.enqueueTurn({ steps: [{ type: "agentMessage", text: "one" }] });
+    await readSse(await startTurn(threadId, { message: "one" }));
+    assert.deepEqual(reasoningOf(turnStarts().at(-1)), {
+      effort: null,
+      summary: null,
+    });
+
+    const reasoning = { effort: "high", summary: "detailed" };
+    fake.enqueueTurn({ steps: [{ type: "agentMessage", text: "two" }] });
+    await readSse(await startTurn(threadId, { message: "two", reasoning }));
+    assert.deepEqual(reasoningOf(turnStarts().at(-1)), reasoning);
+
+    // Later turns keep the settings, and so do forks
+    fake.enqueueTurn({ steps: [{ type: "agentMessage", text: "three" }] });
+    await readSse(await startTurn(threadId, { message: "three" }));
+    assert.deepEqual(reasoningOf(turnStarts().at(-1)), reasoning);
+
+    const read = await threadRoute.GET(
+      new Request(`http://localhost/api/threads/${threadId}`),
+      routeParams(threadId),
+    );
+    assert.deepEqual((await read.json()).reasoning, reasoning);
+
+    const forked = await forkRoute.POST(
+      new Request(`http://localhost/api/threads/${threadId}/fork`, {
+        method: "POST",
+        body: "{}",
+      }),
+      routeParams(threadId),
+    );
+    const { thread: fork } = (await forked.json()) as {
+      thread: { id: string };
+    };
+    const readFork = await threadRoute.GET(
+      new Request(`http://localhost/api/threads/${fork.id}`),
+      routeParams(fork.id),
+    );
+    assert.deepEqual((await readFork.json()).reasoning, reasoning);
+
+    const invalid = await startTurn(threadId, {
+      message: "four",
+      reasoning: { effort: "extreme", summary: null },
+    });
+    assert.equal(invalid.status, 400);
+  });
+
+  test("reports the model turns run with", async () => {
+    const { GET } = await import("../src/app/api/models/route");
+    const model = (id: string, isDefault: boolean): Model => ({
+      id,
+      model: id,
+      upgrade: null,
+      displayName: id,
+      description: "",
+      supportedReasoningEfforts: [
+        { reasoningEffort: "low", description: "Fast" },
+        { reasoningEffort: "high", description: "Thorough" },
+      ],
+      defaultReasoningEffort: "low",
+      inputModalities: [],
+      supportsPersonality: false,
+      isDefault,
+    });
+    // Two pages, with the turns' model on the second
+    fake.handle("model/list", (params) =>
+      (params as { cursor?: string | null }).cursor
+        ? { data: [model("codex-mini-latest", false)], nextCursor: null }
+        : { data: [model("gpt-5", true)], nextCursor: "1" },
+    );
+
+    const response = await GET();
+    const { model: found } = (await response.json()) as { model: Model };
+    assert.equal(found.id, "codex-mini-latest");
+    assert.deepEqual(
+      found.supportedReasoningEfforts.map((option) => option.reasoningEffort),
+      ["low", "high"],
+    );
+  });
+
+  test("isolates concurrent threads", async () => {
+    const [first, second] = await Promise.all([createThread(), createThread()]);
+    fake.enqueueTurn({
+      steps: [
+        { type: "delay", ms: 5 },
+        { type: "agentMessage", text: "first reply" },
+      ],
+    });
+    fake.enqueueTurn({
+      steps: [{ type: "agentMessage", text: "second reply" }],
+    });
+
+    const [firstEvents, secondEvents] = await Promise.all([
+      startTurn(first, { message: "one" }).then((r) => readSse(r)),
+      startTurn(second, { message: "two" }).then((r) => readSse(r)),
+    ]);
+    const text = (events: SseEvent[]) =>
+      events
+        .filter((e) => e.event === "delta")
+        .map((e) => (e.data as { text: string }).text)
+        .join("");
+
+    assert.equal(text(firstEvents), "first reply");
+    assert.equal(text(secondEvents), "second reply");
+  });
+
+  test("keeps streaming a turn after a retryable error", async () => {
+    const threadId = await createThread();
+    fake.enqueueTurn({
+      steps: [
+        { type: "error", message: "Rate limited", willRetry: true },
+        { type: "agentMessage", text: "Done." },
+        { type: "error", message: "Usage limit reached" },
+      ],
+    });
+
+    const events = (
+      await readSse(await startTurn(threadId, { message: "go" }))
+    ).filter((e) => !e.event.startsWith("item_"));
+
+    assert.deepEqual(
+      events.map((e) => e.event),
+      ["turn_started", "error", "delta", "error"],
+    );
+    assert.deepEqual(events[1].data, {
+      message: "Rate limited",
+      willRetry: true,
+    });
+    assert.deepEqual(events[3].data, {
+      message: "Usage limit reached",
+      willRetry: false,
+    });
+  });
+
+  test("forwards user input requests and their answers", async () => {
+    const threadId = await createThread();
+    const answerRoute = await import(
+      "../src/app/api/threads/[id]/answer/route"
+    );
+    fake.enqueueTurn({
+      steps: [
+        {
+          type: "requestUserInput",
+          questions: [
+            {
+              id: "goal",
+              header: "Goal",
+              question: "What should the workflow achieve?",
+              isOther: true,
+              isSecret: false,
+              options: null,
+            },
+          ],
+        },
+      ],
+    });
+
+    const response = await startTurn(threadId, { message: "plan a launch" });
+    const answered = new Promise((resolve) => fake.once("userInput", resolve));
+    const events = await readSse(response, async ({ event, data }) => {
+      if (event !== "user_input_request") {
+        return;
+      }
+      const { itemId } = data as { itemId: string };
+      const answer = await answerRoute.POST(
+        new Request(`http://localhost/api/threads/${threadId}/answer`, {
+          method: "POST",
+          body: JSON.stringify({
+            itemId,
+            answers: { goal: { answers: ["Ship v1"] } },
+          }),
+        }),
+        routeParams(threadId),
+      );
+      assert.equal(answer.status, 200);
+    });
+
+    assert.deepEqual(await answered, {
+      answers: { goal: { answers: ["Ship v1"] } },
+    });
+    assert.deepEqual(
+      events.map((e) => e.event),
+      ["turn_started", "user_input_request", "request_resolved", "complete"],
+    );
+  });
+
+  test("asks the browser to approve commands and file changes", async () => {
+    const threadId = await createThread();
+    const approvalRoute = await import(
+      "../src/app/api/threads/[id]/approval/route"
+    );
+    const change = {
+      path: "src/a.ts",
+      kind: { type: "update" as const, move_path: null },
+      diff: "@@ -1 +1 @@\n-a\n+b\n",
+    };
+    fake.enqueueTurn({
+      steps: [
+        {
+          type: "commandExecution",
+          command: "rm -rf dist",
+          requestApproval: true,
+          reason: "Deletes files",
+        },
+        { type: "fileChange", changes: [change], requestApproval: true },
+      ],
+    });
+
+    const answer = (body: unknown) =>
+      approvalRoute.POST(
+        new Request(`http://localhost/api/threads/${threadId}/approval`, {
+          method: "POST",
+          body: JSON.stringify(body),
+        }),
+        routeParams(threadId),
+      );
+
+    const requests: Record<string, unknown>[] = [];
+    const response = await startTurn(threadId, { message: "clean up" });
+    const events = await readSse(response, async ({ event, data }) => {
+      if (event !== "approval_request") {
+        return;
+      }
+      const request = data as Record<string, unknown>;
+      requests.push(request);
+      assert.equal(
+        (await answer({ itemId: request.itemId, decision: "maybe" })).status,
+        400,
+      );
+      const decision =
+        request.kind === "commandExecution" ? "accept" : "decline";
+      assert.equal(
+        (await answer({ itemId: request.itemId, decision })).status,
+        200,
+      );
+    });
+
+    assert.equal(requests[0].kind, "commandExecution");
+    assert.equal(requests[0].command, "rm -rf dist");
+    assert.equal(requests[0].reason, "Deletes files");
+    assert.equal(requests[1].kind, "fileChange");
+    assert.deepEqual(requests[1].changes, [change]);
+    const completed = events
+      .filter((e) => e.event === "item_completed")
+      .map((e) => (e.data as { item: ThreadItem }).item);
+    assert.deepEqual(
+      completed.map((item) => [
+        item.id,
+        item.type,
+        "status" in item ? item.status : null,
+      ]),
+      [
+        [requests[0].itemId, "commandExecution", "completed"],
+        [requests[1].itemId, "fileChange", "declined"],
+      ],
+    );
+    assert.equal(
+      (await answer({ itemId: requests[0].itemId, decision: "accept" })).status,
+      404,
+    );
+  });
+
+  test("always allows commands with an accepted prefix", async () => {
+    const threadId = await createThread();
+    const approvalRoute = await import(
+      "../src/app/api/threads/[id]/approval/route"
+    );
+    const policyRoute = await import("../src/app/api/exec-policy/route");
+    const ruleRoute = await import("../src/app/api/exec-policy/[id]/route");
+
+    // Accept the proposed prefix, then count the prompts of later commands
+    const runCommands = async (commands: string[]) => {
+      fake.enqueueTurn({
+        steps: commands.map((command) => ({
+          type: "commandExecution" as const,
+          command,
+          requestApproval: true,
+          proposedExecpolicyAmendment: ["npm", "test"],
+        })),
+      });
+      const prompted: string[] = [];
+      await readSse(
+        await startTurn(threadId, { message: "test" }),
+        async ({ event, data }) => {
+          if (event !== "approval_request") {
+            return;
+          }
+          const request = data as {
+            itemId: string;
+            command: string;
+            proposedExecpolicyAmendment: string[];
+          };
+          prompted.push(request.command);
+          await approvalRoute.POST(
+            new Request(`http://localhost/api/threads/${threadId}/approval`, {
+              method: "POST",
+              body: JSON.stringify({
+                itemId: request.itemId,
+                decision: {
+                  acceptWithExecpolicyAmendment: {
+                    execpolicy_amendment: request.proposedExecpolicyAmendment,
+                  },
+                },
+              }),
+            }),
+            routeParams(threadId),
+          );
+        },
+      );
+      return prompted;
+    };
+
+    assert.deepEqual(await runCommands(["npm test"]), ["npm test"]);
+    const answered = fake.received.findLast(
+      (message) => message.id !== undefined && message.result !== undefined,
+    );
+    // The prefix is only kept by the app, so that revoking it takes effect
+    assert.deepEqual(answered?.result, { decision: "accept" });
+
+    const listed = await policyRoute.GET();
+    const { rules } = (await listed.json()) as {
+      rules: { id: string; cwd: string; prefix: string[] }[];
+    };
+    assert.equal(rules.length, 1);
+    assert.equal(rules[0].cwd, workspace);
+    assert.deepEqual(rules[0].prefix, ["npm", "test"]);
+
+    // Compound commands are still prompted for
+    assert.deepEqual(
+      await runCommands(["npm test -- --watch", "npm test && rm -rf dist"]),
+      ["npm test && rm -rf dist"],
+    );
+
+    const request = (method: string, body?: unknown) =>
+      new Request(`http://localhost/api/exec-policy/${rules[0].id}`, {
+        method,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    const updated = await ruleRoute.PATCH(
+      request("PATCH", { prefix: ["npm", "run"] }),
+      routeParams(rules[0].id),
+    );
+    assert.equal(updated.status, 200);
+    assert.equal(
+      (
+        await ruleRoute.PATCH(
+          request("PATCH", { prefix: [] }),
+          routeParams(rules[0].id),
+        )
+      ).status,
+      400,
+    );
+
+    const revoked = await ruleRoute.DELETE(
+      request("DELETE"),
+      routeParams(rules[0].id),
+    );
+    assert.equal(revoked.status, 200);
+    assert.equal(
+      (await ruleRoute.DELETE(request("DELETE"), routeParams(rules[0].id)))
+        .status,
+      404,
+    );
+  });
+
+  test("treats a corrupt exec policy file as empty", async (t) => {
+    const policyRoute = await import("../src/app/api/exec-policy/route");
+    const policyFile = process.env.CODEX_CHAT_EXEC_POLICY_FILE as string;
+    fs.mkdirSync(path.dirname(policyFile), { recursive: true });
+    fs.writeFileSync(policyFile, '{"rules": [');
+    t.after(() => fs.rmSync(policyFile, { force: true }));
+    const warned = t.mock.method(console, "warn", () => {});
+
+    const listed = await policyRoute.GET();
+    assert.equal(listed.status, 200);
+    assert.deepEqual(await listed.json(), { rules: [] });
+    assert.match(
+      String(warned.mock.calls[0]?.arguments[0]),
+      /Ignoring the exec policy/,
+    );
+  });
+
+  test("decides approvals with the workspace's rule file", async (t) => {
+    const threadId = await createThread();
+    const approvalRoute = await import(
+      "../src/app/api/threads/[id]/approval/route"
+    );
+    const rulesFile = path.join(
+      workspace,
+      ".codex-chat",
+      "approval-rules.yaml",
+    );
+    fs.mkdirSync(path.dirname(rulesFile), { recursive: true });
+    fs.writeFileSync(
+      rulesFile,
+      [
+        "rules:",
+        "  - name: no-rm",
+        "    decision: deny",
+        "    when: { command: rm }",
+        "  - name: reads",
+        "    decision: allow",
+        "    when: { actions: [read, listFiles, search] }",
+        "  - name: sources",
+        "    decision: allow",
+        "    when: { kind: fileChange, paths: 'src/**' }",
+        "",
+      ].join("\n"),
+    );
+    t.after(() => fs.rmSync(rulesFile));
+    const logged = t.mock.method(console, "info", () => {});
+
+    const change = (file: string) => ({
+      path: file,
+      kind: { type: "add" as const },
+      diff: "new\n",
+    });
+    // Accept every prompt, and report what was prompted for
+    const runTurn = async (steps: ScriptedStep[]) => {
+      fake.enqueueTurn({ steps });
+      const prompted: string[] = [];
+      const events = await readSse(
+        await startTurn(threadId, { message: "work" }),
+        async ({ event, data }) => {
+          if (event !== "approval_request") {
+            return;
+          }
+          const request = data as {
+            itemId: string;
+            command?: string;
+            changes?: { path: string }[];
+          };
+          prompted.push(
+            request.command ??
+              (request.changes ?? []).map((c) => c.path).join(),
+          );
+          await approvalRoute.POST(
+            new Request(`http://localhost/api/threads/${threadId}/approval`, {
+              method: "POST",
+              body: JSON.stringify({
+                itemId: request.itemId,
+                decision: "accept",
+              }),
+            }),
+            routeParams(threadId),
+          );
+        },
+      );
+      return { prompted, events };
+    };
+
+    const { prompted, events } = await runTurn([
+      {
+        type: "commandExecution",
+        command: "rm -rf dist",
+        requestApproval: true,
+      },
+      {
+        type: "commandExecution",
+        command: "cat README.md",
+        commandActions: [
+          {
+            type: "read",
+            command: "cat README.md",
+            name: "README.md",
+            path: "README.md",
+          },
+        ],
+        requestApproval: true,
+      },
+      {
+        type: "fileChange",
+        changes: [change("src/a.ts")],
+        requestApproval: true,
+      },
+      {
+        type: "fileChange",
+        changes: [change("src/b.ts"), change("package.json")],
+        requestApproval: true,
+      },
+    ]);
+    assert.deepEqual(prompted, ["src/b.ts,package.json"]);
+    // The denied command never runs
+    assert.deepEqual(
+      events
+        .filter((e) => e.event === "item_completed")
+        .map((e) => (e.data as { item: ThreadItem }).item)
+        .filter((item) => item.type === "commandExecution")
+        .map((item) => item.status),
+      ["declined", "completed"],
+    );
+    const logs = logged.mock.calls.map((call) => String(call.arguments[0]));
+    assert.match(
+      logs[0],
+      /^Approval decline for command "rm -rf dist".*rule "no-rm" in .*approval-rules\.yaml/,
+    );
+    assert.match(logs[1], /^Approval accept .*rule "reads"/);
+    assert.match(
+      logs[2],
+      /^Approval accept for patch of src\/a\.ts .*rule "sources"/,
+    );
+    assert.match(
+      logs[3],
+      /^Approval accept for patch of src\/b\.ts, package\.json .*\(user\)$/,
+    );
+
+    // Edits to the rule file apply to the next request
+    fs.writeFileSync(
+      rulesFile,
+      JSON.stringify({ rules: [{ name: "review-all", decision: "ask" }] }),
+    );
+    assert.deepEqual(
+      (
+        await runTurn([
+          {
+            type: "commandExecution",
+            command: "rm -rf dist",
+            requestApproval: true,
+          },
+        ])
+      ).prompted,
+      ["rm -rf dist"],
+    );
+    assert.match(
+      String(logged.mock.calls.at(-1)?.arguments[0]),
+      /\(user, as required by rule "review-all" in .*\)$/,
+    );
+
+    // Malformed rules are skipped instead of breaking every request
+    const warned = t.mock.method(console, "warn", () => {});
+    fs.writeFileSync(
+      rulesFile,
+      JSON.stringify({
+        rules: [
+          { decision: "allow", when: { command: 5 } },
+          { decision: "allow", when: { cwd: [null] } },
+          { decision: "deny", when: { command: "rm" } },
+        ],
+      }),
+    );
+    assert.deepEqual(
+      (
+        await runTurn([
+          {
+            type: "commandExecution",
+            command: "rm -rf dist",
+            requestApproval: true,
+          },
+        ])
+      ).prompted,
+      [],
+    );
+    assert.match(
+      String(logged.mock.calls.at(-1)?.arguments[0]),
+      /^Approval decline .*rule "#3"/,
+    );
+    assert.deepEqual(
+      warned.mock.calls.map((call) =>
+        String(call.arguments[0]).replace(/ in .*:/, ":"),
+      ),
+      [
+        "Ignoring approval rule 1: when.command must be a string or a list of words",
+        "Ignoring approval rule 2: when.cwd must be a glob or a list of globs",
+      ],
+    );
+  });
+
+  test("matches deny rules against any command of a list", async (t) => {
+    const { evaluateApprovalPolicy } = await import(
+      "../src/app/api/_lib/approval-policy"
+    );
+    const rulesFile = path.join(
+      workspace,
+      ".codex-chat",
+      "approval-rules.json",
+    );
+    fs.mkdirSync(path.dirname(rulesFile), { recursive: true });
+    fs.writeFileSync(
+      rulesFile,
+      JSON.stringify({
+        rules: [
+          { name: "no-rm", decision: "deny", when: { command: "rm" } },
+          { name: "npm", decision: "allow", when: { command: "npm" } },
+          { name: "anything", decision: "allow" },
+        ],
+      }),
+    );
+    t.after(() => fs.rmSync(rulesFile));
+
+    const decide = async (command: string) => {
+      const result = await evaluateApprovalPolicy(workspace, {
+        kind: "commandExecution",
+        threadId: "thr",
+        turnId: "turn",
+        itemId: "item",
+        command,
+        cwd: workspace,
+      } as ApprovalRequest);
+      return result?.rule.name;
+    };
+
+    assert.equal(await decide("rm -rf build && true"), "no-rm");
+    assert.equal(await decide("true; rm -rf build"), "no-rm");
+    assert.equal(await decide("ls | xargs 'rm'"), "anything");
+    // A command that cannot be parsed might be the denied one
+    assert.equal(await decide("echo $(rm -rf build)"), "no-rm");
+    // Allowing needs every command to match
+    assert.equal(await decide("npm test && npm run lint"), "npm");
+    assert.equal(await decide("npm test && git push"), "anything");
+    assert.equal(await decide("npm test 'a && b'"), "npm");
+  });
+
+  test("interrupts the running turn when a thread is deleted", async () => {
+    const threadId = await createThread();
+    const { DELETE } = await import("../src/app/api/threads/[id]/route");
+    fake.enqueueTurn({
+      steps: [
+        { type: "agentMessage", text: "working" },
+        { type: "delay", ms: 1000 },
+      ],
+    });
+
+    const response = await startTurn(threadId, { message: "long task" });
+    const events = await readSse(response, async ({ event }) => {
+      if (event === "delta") {
+        const deleted = await DELETE(
+          new Request(`http://localhost/api/threads/${threadId}`),
+          routeParams(threadId),
+        );
+        assert.equal(deleted.status, 200);
+      }
+    });
+
+    assert.equal(events.at(-1)?.event, "aborted");
+    const again = await startTurn(threadId, { message: "more" });
+    assert.equal(again.status, 404);
+  });
+
+  test("stops the running turn", async () => {
+    const threadId = await createThread();
+    const { POST } = await import(
+      "../src/app/api/threads/[id]/interrupt/route"
+    );
+    const interrupt = (id: string) =>
+      POST(
+        new Request(`http://localhost/api/threads/${id}/interrupt`, {
+          method: "POST",
+        }),
+        routeParams(id),
+      );
+
+    assert.equal((await interrupt("thr_unknown")).status, 404);
+    assert.equal((await interrupt(threadId)).status, 409);
+
+    fake.enqueueTurn({
+      steps: [
+        { type: "agentMessage", text: "working" },
+        { type: "delay", ms: 1000 },
+      ],
+    });
+    let turnId: string | undefined;
+    const events = await readSse(
+      await startTurn(threadId, { message: "long task" }),
+      async ({ event, data }) => {
+        if (event === "turn_started") {
+          turnId = (data as { turnId: string }).turnId;
+        }
+        if (event === "delta") {
+          const stopped = await interrupt(threadId);
+          assert.equal(stopped.status, 200);
+          assert.deepEqual(await stopped.json(), { success: true, turnId });
+        }
+      },
+    );
+
+    assert.equal(events.at(-1)?.event, "aborted");
+    assert.equal((await interrupt(threadId)).status, 409);
+  });
+
+  test("interrupts the turn when the browser does not reconnect", async () => {
+    const threadId = await createThread();
+    const { getCodex } = await import("../src/app/api/_lib/codex");
+    const codex = await getCodex();
+
+    // Disconnect after the first delta, and report how the turn ended
+    const runAndDisconnect = async () => {
+      fake.enqueueTurn({
+        steps: [
+          { type: "agentMessage", text: "working" },
+          { type: "delay", ms: 200 },
+        ],
+      });
+      const completed = new Promise<string>((resolve) => {
+        const unsubscribe = codex.onNotification("turn/completed", (params) => {
+          if (params.threadId === threadId) {
+            unsubscribe();
+            resolve(params.turn.status);
+          }
+        });
+      });
+      const response = await startTurn(threadId, { message: "long task" });
+      assert.ok(response.body);
+      const reader = response.body
+        .pipeThrough(new TextDecoderStream())
+        .getReader();
+      let received = "";
+      while (!received.includes("event: delta")) {
+        const { done, value } = await reader.read();
+        assert.ok(!done, "the turn ended before the browser disconnected");
+        received += value;
+      }
+      await reader.cancel();
+      return completed;
+    };
+
+    process.env.CODEX_CHAT_RECONNECT_GRACE_MS = "0";
+    try {
+      assert.equal(await runAndDisconnect(), "interrupted");
+    } finally {
+      delete process.env.CODEX_CHAT_RECONNECT_GRACE_MS;
+    }
+
+    // Configured to let turns finish without the browser
+    process.env.CODEX_CHAT_INTERRUPT_ON_DISCONNECT = "0";
+    try {
+      const status = runAndDisconnect();
+      // The thread stays busy until the turn has finished
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      assert.equal(
+        (await startTurn(threadId, { message: "more" })).status,
+        409,
+      );
+      assert.equal(await status, "completed");
+    } finally {
+      delete process.env.CODEX_CHAT_INTERRUPT_ON_DISCONNECT;
+    }
+    fake.enqueueTurn({ steps: [{ type: "agentMessage", text: "done" }] });
+    const events = await readSse(
+      await startTurn(threadId, { message: "more" }),
+    );
+    assert.equal(events.at(-1)?.event, "complete");
+  });
+
+  test("replays the events a reconnecting browser missed", async () => {
+    const threadId = await createThread();
+    const { GET } = await import("../src/app/api/threads/[id]/events/route");
+    const reconnect = (lastEventId?: string) =>
+      GET(
+        new Request(`http://localhost/api/threads/${threadId}/events`, {
+          headers: lastEventId ? { "Last-Event-ID": lastEventId } : {},
+        }),
+        routeParams(threadId),
+      );
+
+    assert.equal((await reconnect()).status, 404);
+
+    fake.enqueueTurn({
+      steps: [
+        { type: "agentMessage", text: "first", chunks: ["first"] },
+        { type: "delay", ms: 100 },
+        { type: "agentMessage", text: "second", chunks: ["second"] },
+      ],
+    });
+    const response = await startTurn(threadId, { message: "work" });
+    assert.ok(response.body);
+
+    // Drop the connection after the first delta
+    const reader = response.body
+      .pipeThrough(new TextDecoderStream())
+      .getReader();
+    let received = "";
+    while (!received.includes("event: delta")) {
+      const { done, value } = await reader.read();
+      assert.ok(!done, "the turn ended before the connection dropped");
+      received += value;
+    }
+    await reader.cancel();
+    const lastEventId = [...received.matchAll(/^id: (.*)$/gm)].at(-1)?.[1];
+    assert.ok(lastEventId);
+
+    const resumed = await readSse(await reconnect(lastEventId));
+    assert.deepEqual(
+      resumed
+        .filter((e) => e.event === "delta")
+        .map((e) => (e.data as { text: string }).text),
+      ["second"],
+    );
+    assert.equal(resumed.at(-1)?.event, "complete");
+
+    // Without an ID, the whole turn is replayed, also once it has finished
+    const replayed = await readSse(await reconnect());
+    assert.equal(replayed[0].event, "turn_started");
+    assert.deepEqual(
+      replayed
+        .filter((e) => e.event === "delta")
+        .map((e) => (e.data as { text: string }).text),
+      ["first", "second"],
+    );
+    assert.deepEqual(
+      replayed.map((e) => e.id).slice(-resumed.length),
+      resumed.map((e) => e.id),
+    );
+  });
+
+  test("keeps the last events of long turns", async () => {
+    const { TurnEventLog } = await import("../src/app/api/_lib/turn-events");
+    const log = new TurnEventLog(0);
+    for (let i = 0; i < 1005; i++) {
+      log.push("delta", { itemId: "item", text: `${i}` });
+    }
+
+    const all = log.since(null);
+    assert.equal(all.missed, 5);
+    assert.equal(all.events.length, 1000);
+    assert.deepEqual(all.events[0].data, { itemId: "item", text: "5" });
+
+    const tail = log.since(all.events[997].id);
+    assert.equal(tail.missed, 0);
+    assert.deepEqual(
+      tail.events.map((event) => (event.data as { text: string }).text),
+      ["1003", "1004"],
+    );
+  });
+
+  test("lists threads page by page", async () => {
+    const { GET } = await import("../src/app/api/threads/route");
+    const created = [await createThread(), await createThread()];
+
+    const list = async (query: string) => {
+      const response = await GET(
+        new Request(`http://localhost/api/threads?${query}`),
+      );
+      assert.equal(response.status, 200);
+      return (await response.json()) as {
+        threads: { id: string }[];
+        nextCursor: string | null;
+      };
+    };
+
+    const first = await list("limit=1&sortKey=created_at");
+    assert.deepEqual(
+      first.threads.map((t) => t.id),
+      [created[1]],
+    );
+    assert.ok(first.nextCursor);
+    const second = await list(
+      `limit=1&sortKey=created_at&cursor=${first.nextCursor}`,
+    );
+    assert.deepEqual(
+      second.threads.map((t) => t.id),
+      [created[0]],
+    );
+
+    const invalid = await GET(
+      new Request("http://localhost/api/threads?sortKey=name"),
+    );
+    assert.equal(invalid.status, 400);
+  });
+
+  test("reads a thread's history and resumes it", async () => {
+    const threadRoute = await import("../src/app/api/threads/[id]/route");
+    const resumeRoute = await import(
+      "../src/app/api/threads/[id]/resume/route"
+    );
+    const threadId = await createThread();
+    fake.enqueueTurn({ steps: [{ type: "agentMessage", text: "Hi there" }] });
+    await readSse(await startTurn(threadId, { message: "hello" }));
+
+    // A fresh session, e.g. after a server restart
+    await threadRoute.DELETE(
+      new Request(`http://localhost/api/threads/${threadId}`),
+      routeParams(threadId),
+    );
+    assert.equal((await startTurn(threadId, { message: "again" })).status, 404);
+
+    const read = await threadRoute.GET(
+      new Request(`http://localhost/api/threads/${threadId}`),
+      routeParams(threadId),
+    );
+    const { thread } = (await read.json()) as {
+      thread: { preview: string; turns: { items: { type: string }[] }[] };
+    };
+    assert.equal(thread.preview, "hello");
+    assert.deepEqual(
+      thread.turns[0].items.map((item) => item.type),
+      ["userMessage", "agentMessage"],
+    );
+
+    const resumed = await resumeRoute.POST(
+      new Request(`http://localhost/api/threads/${threadId}/resume`, {
+        method: "POST",
+      }),
+      routeParams(threadId),
+    );
+    assert.equal(resumed.status, 200);
+    fake.enqueueTurn({
+      steps: [{ type: "agentMessage", text: "Welcome back" }],
+    });
+    const events = await readSse(
+      await startTurn(threadId, { message: "again" }),
+    );
+    assert.equal(events.at(-1)?.event, "complete");
+
+    const missing = await threadRoute.GET(
+      new Request("http://localhost/api/threads/missing"),
+      routeParams("missing"),
+    );
+    assert.equal(missing.status, 404);
+  });
+
+  test("renames a thread", async () => {
+    const { GET } = await import("../src/app/api/threads/route");
+    const nameRoute = await import("../src/app/api/threads/[id]/name/route");
+    const threadId = await createThread();
+
+    const rename = (body: unknown) =>
+      nameRoute.POST(
+        new Request(`http://localhost/api/threads/${threadId}/name`, {
+          method: "POST",
+          body: JSON.stringify(body),
+        }),
+        routeParams(threadId),
+      );
+    assert.equal((await rename({})).status, 400);
+    assert.equal((await rename({ name: "Release plan" })).status, 200);
+
+    const listed = await GET(new Request("http://localhost/api/threads"));
+    const { threads } = (await listed.json()) as {
+      threads: { id: string; name: string | null }[];
+    };
+    assert.equal(
+      threads.find((thread) => thread.id === threadId)?.name,
+      "Release plan",
+    );
+  });
+
+  test("archives and restores a thread", async () => {
+    const { GET } = await import("../src/app/api/threads/route");
+    const archiveRoute = await import(
+      "../src/app/api/threads/[id]/archive/route"
+    );
+    const threadId = await createThread();
+
+    const listedIds = async (query: string) => {
+      const response = await GET(
+        new Request(`http://localhost/api/threads?${query}`),
+      );
+      const { threads } = (await response.json()) as {
+        threads: { id: string }[];
+      };
+      return threads.map((thread) => thread.id);
+    };
+    const request = new Request(
+      `http://localhost/api/threads/${threadId}/archive`,
+    );
+
+    const archived = await archiveRoute.POST(request, routeParams(threadId));
+    assert.equal(archived.status, 200);
+    assert.ok(!(await listedIds("limit=100")).includes(threadId));
+    assert.ok((await listedIds("limit=100&archived=true")).includes(threadId));
+    // Archived threads are unloaded
+    assert.equal((await startTurn(threadId, { message: "hi" })).status, 404);
+
+    const restored = await archiveRoute.DELETE(request, routeParams(threadId));
+    assert.equal(restored.status, 200);
+    assert.ok((await listedIds("limit=100")).includes(threadId));
+  });
+
+  test("forks a thread from one of its turns", async () => {
+    const forkRoute = await import("../src/app/api/threads/[id]/fork/route");
+    const threadId = await createThread();
+    const turnIds: string[] = [];
+    for (const message of ["one", "two", "three"]) {
+      fake.enqueueTurn({ steps: [{ type: "agentMessage", text: message }] });
+      const events = await readSse(await startTurn(threadId, { message }));
+      turnIds.push((events[0].data as { turnId: string }).turnId);
+    }
+
+    const fork = (body: unknown) =>
+      forkRoute.POST(
+        new Request(`http://localhost/api/threads/${threadId}/fork`, {
+          method: "POST",
+          body: JSON.stringify(body),
+        }),
+        routeParams(threadId),
+      );
+
+    const response = await fork({ turnId: turnIds[1] });
+    assert.equal(response.status, 201);
+    const { thread } = (await response.json()) as {
+      thread: { id: string; turns: { id: string }[] };
+    };
+    assert.notEqual(thread.id, threadId);
+    assert.equal(thread.turns.length, 2);
+
+    // The fork takes turns of its own
+    fake.enqueueTurn({ steps: [{ type: "agentMessage", text: "forked" }] });
+    const events = await readSse(
+      await startTurn(thread.id, { message: "four" }),
+    );
+    assert.equal(events.at(-1)?.event, "complete");
+
+    assert.equal((await fork({ turnId: "missing" })).status, 404);
+  });
+
+  test("rolls back the last turns without reverting files", async () => {
+    const rollbackRoute = await import(
+      "../src/app/api/threads/[id]/rollback/route"
+    );
+    const threadId = await createThread();
+    for (const message of ["one", "two"]) {
+      fake.enqueueTurn({ steps: [{ type: "agentMessage", text: message }] });
+      await readSse(await startTurn(threadId, { message }));
+    }
+
+    const rollback = (numTurns: unknown) =>
+      rollbackRoute.POST(
+        new Request(`http://localhost/api/threads/${threadId}/rollback`, {
+          method: "POST",
+          body: JSON.stringify({ numTurns, restoreFiles: false }),
+        }),
+        routeParams(threadId),
+      );
+
+    assert.equal((await rollback(0)).status, 400);
+    assert.equal((await rollback(5)).status, 400);
+
+    const response = await rollback(1);
+    assert.equal(response.status, 200);
+    const { thread, filesReverted } = (await response.json()) as {
+      thread: { turns: unknown[] };
+      filesReverted: boolean;
+    };
+    assert.equal(thread.turns.length, 1);
+    assert.equal(filesReverted, false);
+
+    // Not while a turn is running
+    fake.enqueueTurn({
+      steps: [
+        { type: "agentMessage", text: "working" },
+        { type: "delay", ms: 20 },
+      ],
+    });
+    await readSse(
+      await startTurn(threadId, { message: "three" }),
+      async ({ event }) => {
+        if (event === "delta") {
+          assert.equal((await rollback(1)).status, 409);
+        }
+      },
+    );
+  });
+
+  test("restores the files changed by rolled back turns", async () => {
+    const rollbackRoute = await import(
+      "../src/app/api/threads/[id]/rollback/route"
+    );
+    const threadId = await createThread();
+    const file = (name: string) => path.join(workspace, name);
+    const read = (name: string) =>
+      fs.existsSync(file(name)) ? fs.readFileSync(file(name), "utf8") : null;
+
+    // The first turn reports its changes through fileChange items
+    fs.writeFileSync(file("a.ts"), "one\nTWO\nthree\n");
+    fs.writeFileSync(file("b.ts"), "added\n");
+    fake.enqueueTurn({
+      steps: [
+        {
+          type: "fileChange",
+          changes: [
+            {
+              path: file("a.ts"),
+              kind: { type: "update", move_path: null },
+              diff: "@@ -1,3 +1,3 @@\n one\n-two\n+TWO\n three\n",
+            },
+            { path: file("b.ts"), kind: { type: "add" }, diff: "added\n" },
+            { path: file("c.ts"), kind: { type: "delete" }, diff: "removed\n" },
+          ],
+        },
+      ],
+    });
+    await readSse(await startTurn(threadId, { message: "edit" }));
+
+    // The second one through the turn diff, relative to the thread's cwd
+    fs.writeFileSync(file("d.ts"), "x\ny\n");
+    fake.enqueueTurn({
+      steps: [
+        {
+          type: "turnDiff",
+          diff: "diff --git a/d.ts b/d.ts\nindex 1111111..2222222 100644\n--- a/d.ts\n+++ b/d.ts\n@@ -1 +1,2 @@\n x\n+y\n",
+        },
+      ],
+    });
+    await readSse(await startTurn(threadId, { message: "append" }));
+
+    // Unrelated edits made afterwards are kept
+    fs.appendFileSync(file("a.ts"), "four\n");
+
+    const rollback = async (body: Record<string, unknown>) => {
+      const response = await rollbackRoute.POST(
+        new Request(`http://localhost/api/threads/${threadId}/rollback`, {
+          method: "POST",
+          body: JSON.stringify({ numTurns: 2, ...body }),
+        }),
+        routeParams(threadId),
+      );
+      return {
+        status: response.status,
+        body: (await response.json()) as {
+          files: { path: string; action: string }[];
+          conflicts: { path: string }[];
+          filesReverted: boolean;
+        },
+      };
+    };
+
+    const preview = await rollback({ dryRun: true });
+    assert.equal(preview.status, 200);
+    assert.deepEqual(
+      preview.body.files.sort((a, b) => a.path.localeCompare(b.path)),
+      [
+        { path: file("a.ts"), action: "restore" },
+        { path: file("b.ts"), action: "delete" },
+        { path: file("c.ts"), action: "create" },
+        { path: file("d.ts"), action: "restore" },
+      ],
+    );
+    assert.deepEqual(preview.body.conflicts, []);
+    assert.equal(read("a.ts"), "one\nTWO\nthree\nfour\n");
+
+    // A file whose changed lines were edited is a conflict
+    fs.writeFileSync(file("d.ts"), "x\nz\n");
+    const conflicted = await rollback({});
+    assert.equal(conflicted.status, 409);
+    assert.deepEqual(
+      conflicted.body.conflicts.map((conflict) => conflict.path),
+      [file("d.ts")],
+    );
+    assert.equal(read("b.ts"), "added\n");
+
+    fs.writeFileSync(file("d.ts"), "x\ny\n");
+    const restored = await rollback({});
+    assert.equal(restored.status, 200);
+    assert.equal(restored.body.filesReverted, true);
+    assert.equal(read("a.ts"), "one\ntwo\nthree\nfour\n");
+    assert.equal(read("b.ts"), null);
+    assert.equal(read("c.ts"), "removed\n");
+    assert.equal(read("d.ts"), "x\n");
+  });
+
+  test("reports the files it could not restore after a rollback", async () => {
+    const rollbackRoute = await import(
+      "../src/app/api/threads/[id]/rollback/route"
+    );
+    const { getCodex } = await import("../src/app/api/_lib/codex");
+    const threadId = await createThread();
+    const file = (name: string) => path.join(workspace, name);
+
+    fs.writeFileSync(file("e.ts"), "E\n");
+    fs.writeFileSync(file("f.ts"), "F\n");
+    fake.enqueueTurn({
+      steps: [
+        {
+          type: "fileChange",
+          changes: ["e.ts", "f.ts"].map((name) => ({
+            path: file(name),
+            kind: { type: "update", move_path: null },
+            diff: `@@ -1 +1 @@\n-${name[0]}\n+${name[0].toUpperCase()}\n`,
+          })),
+        },
+      ],
+    });
+    await readSse(await startTurn(threadId, { message: "edit" }));
+
+    // f.ts turns into a directory once the plan is made and the turn dropped
+    const codex = await getCodex(workspace);
+    const removeMiddleware = codex.use({
+      response: (response) => {
+        if (response.method === "thread/rollback") {
+          fs.rmSync(file("f.ts"));
+          fs.mkdirSync(file("f.ts"));
+        }
+      },
+    });
+    const response = await rollbackRoute.POST(
+      new Request(`http://localhost/api/threads/${threadId}/rollback`, {
+        method: "POST",
+        body: JSON.stringify({ numTurns: 1 }),
+      }),
+      routeParams(threadId),
+    );
+    removeMiddleware();
+
+    assert.equal(response.status, 200);
+    const body = (await response.json()) as {
+      thread: { turns: unknown[] };
+      filesReverted: boolean;
+      files: { path: string }[];
+      failed: { path: string; reason: string }[];
+    };
+    assert.equal(body.thread.turns.length, 0);
+    assert.equal(body.filesReverted, false);
+    assert.deepEqual(
+      body.files.map((restored) => restored.path),
+      [file("e.ts")],
+    );
+    assert.deepEqual(
+      body.failed.map((failure) => failure.path),
+      [file("f.ts")],
+    );
+    assert.equal(fs.readFileSync(file("e.ts"), "utf8"), "e\n");
+    fs.rmdirSync(file("f.ts"));
+  });
+
+  test("rejects a request without a message", async () => {
+    const threadId = await createThread();
+    const response = await startTurn(threadId, {});
+
+    assert.equal(response.status, 400);
+  });
+
+  test("rejects turns in unknown threads", async () => {
+    const response = await startTurn("missing", { message: "hi" });
+
+    assert.equal(response.status, 404);
+  });
+});
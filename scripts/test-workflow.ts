@@ -3,7 +3,10 @@
  * Run with: npx tsx scripts/test-workflow.ts
  */
 
-import { CodexAppServer } from "../src/infrastructure/codex";
+import {
+  CodexAppServer,
+  codexAppServerOptionsFromEnv,
+} from "../src/infrastructure/codex";
 
 // Workflow todo JSON Schema for structured output
 const WORKFLOW_TODO_SCHEMA = {
@@ -79,7 +82,7 @@ You are a workflow planning assistant. Your goal is to create a structured workf
 async function main() {
   console.log("Starting Codex workflow test...\n");
 
-  const codex = CodexAppServer.getInstance();
+  const codex = CodexAppServer.getInstance(codexAppServerOptionsFromEnv());
 
   // Register handlers
   codex.onServerRequest("item/commandExecution/requestApproval", async () => ({
@@ -133,30 +136,22 @@ async function main() {
 
   // Set up event listeners
   codex.onNotification("item/agentMessage/delta", (params) => {
-    const p = params as { delta?: string };
-    if (p.delta) {
-      process.stdout.write(p.delta);
+    if (params.delta) {
+      process.stdout.write(params.delta);
     }
   });
 
   codex.onNotification("turn/plan/updated", (params) => {
-    const p = params as {
-      explanation: string | null;
-      plan: Array<{ step: string; status: string }>;
-    };
     console.log("\n\n=== PLAN UPDATED ===");
-    if (p.explanation) console.log("Explanation:", p.explanation);
-    console.log("Plan:", JSON.stringify(p.plan, null, 2));
+    if (params.explanation) console.log("Explanation:", params.explanation);
+    console.log("Plan:", JSON.stringify(params.plan, null, 2));
     console.log("====================\n");
   });
 
-  codex.onNotification("item/completed", (params) => {
-    const p = params as {
-      item: { type: string; text?: string; id: string };
-    };
-    if (p.item.type === "agentMessage" && p.item.text) {
+  codex.onNotification("item/completed", ({ item }) => {
+    if (item.type === "agentMessage" && item.text) {
       try {
-        const parsed = JSON.parse(p.item.text);
+        const parsed = JSON.parse(item.text);
         if (parsed.tasks && Array.isArray(parsed.tasks)) {
           console.log("\n\n=== STRUCTURED WORKFLOW OUTPUT ===");
           console.log(JSON.stringify(parsed, null, 2));
@@ -169,16 +164,14 @@ async function main() {
   });
 
   codex.onNotification("turn/completed", (params) => {
-    const p = params as { turn?: { status?: string } };
     console.log("\n\n=== TURN COMPLETED ===");
-    console.log("Status:", p.turn?.status);
+    console.log("Status:", params.turn.status);
     console.log("======================\n");
   });
 
   codex.onNotification("error", (params) => {
-    const p = params as { message?: string };
     console.error("\n\n=== ERROR ===");
-    console.error("Message:", p.message);
+    console.error("Message:", params.error.message);
     console.error("=============\n");
   });
 
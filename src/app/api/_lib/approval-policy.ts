@@ -0,0 +1,353 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import type { ApprovalRequest } from "@/app/api/_lib/codex";
+import { splitCommandList } from "@/app/api/_lib/exec-policy";
+import type { CommandAction } from "@/infrastructure/codex/schemas/v2";
+
+export type PolicyDecision = "allow" | "deny" | "ask";
+
+/**
+ * One rule of an approval rule file. A rule matches when all of its
+ * conditions do; a rule without conditions matches every request.
+ */
+export interface ApprovalRule {
+  name?: string;
+  decision: PolicyDecision;
+  when?: {
+    kind?: ApprovalRequest["kind"];
+    /**
+     * Command starts with these words, e.g. `["git", "status"]`. In a list
+     * like `a && b`, every command must for `allow`, any one for the others.
+     */
+    command?: string[] | string;
+    /** Every parsed action of the command is one of these types */
+    actions?: CommandAction["type"][];
+    /** Working directory of the command matches one of these globs */
+    cwd?: string[] | string;
+    /** Every file touched by the patch matches one of these globs */
+    paths?: string[] | string;
+    /** Whether the patch asks for a write root, or a glob it must match */
+    grantRoot?: boolean | string;
+  };
+}
+
+export interface PolicyResult {
+  decision: PolicyDecision;
+  rule: ApprovalRule;
+  /** Rule file the rule was loaded from */
+  file: string;
+  /** How the rule is referred to in logs: its name, or its position */
+  label: string;
+}
+
+/** Rule files looked up in the workspace, in order */
+export const APPROVAL_RULE_FILES = [
+  ".codex-chat/approval-rules.yaml",
+  ".codex-chat/approval-rules.yml",
+  ".codex-chat/approval-rules.json",
+];
+
+const DECISIONS: PolicyDecision[] = ["allow", "deny", "ask"];
+const KINDS: ApprovalRequest["kind"][] = ["commandExecution", "fileChange"];
+
+// A valid rule, with its position in the file for logs
+interface LoadedRule {
+  rule: ApprovalRule;
+  position: number;
+}
+
+// Parsed rule files by path, re-parsed whenever their text changes
+const ruleFiles = new Map<string, { text: string; rules: LoadedRule[] }>();
+
+/**
+ * Evaluate the workspace's rule file against an approval request.
+ *
+ * The first matching rule wins. Returns null when no rule matches, or when
+ * the workspace has no (valid) rule file, so that the request goes on to the
+ * user. Rule files are read on every request, so edits apply immediately.
+ */
+export async function evaluateApprovalPolicy(
+  workspace: string,
+  request: ApprovalRequest,
+): Promise<PolicyResult | null> {
+  const loaded = await loadRules(workspace);
+  if (!loaded) {
+    return null;
+  }
+  const match = loaded.rules.find(({ rule }) =>
+    ruleMatches(rule, workspace, request),
+  );
+  if (!match) {
+    return null;
+  }
+  const { rule, position } = match;
+  return {
+    decision: rule.decision,
+    rule,
+    file: loaded.file,
+    label: `rule "${rule.name ?? `#${position}`}" in ${loaded.file}`,
+  };
+}
+
+/**
+ * Log how an approval request was decided, e.g. by which rule.
+ */
+export function logApprovalDecision(
+  request: ApprovalRequest,
+  decision: unknown,
+  source: string,
+) {
+  const subject =
+    request.kind === "commandExecution"
+      ? `command ${JSON.stringify(request.command ?? "")}`
+      : `patch of ${request.changes.map((change) => change.path).join(", ") || "unknown files"}`;
+  const outcome =
+    typeof decision === "string" ? decision : JSON.stringify(decision);
+  console.info(
+    `Approval ${outcome} for ${subject} in thread ${request.threadId} (${source})`,
+  );
+}
+
+async function loadRules(
+  workspace: string,
+): Promise<{ file: string; rules: LoadedRule[] } | null> {
+  for (const name of APPROVAL_RULE_FILES) {
+    const file = path.join(workspace, name);
+    let text: string;
+    try {
+      text = await readFile(file, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        continue;
+      }
+      throw error;
+    }
+
+    const cached = ruleFiles.get(file);
+    if (cached?.text === text) {
+      return { file, rules: cached.rules };
+    }
+    try {
+      const rules = parseRules(
+        file,
+        file.endsWith(".json") ? JSON.parse(text) : parseYaml(text),
+      );
+      ruleFiles.set(file, { text, rules });
+      return { file, rules };
+    } catch (error) {
+      // Broken rules decide nothing: every request is asked for
+      console.warn(
+        `Ignoring approval rules in ${file}: ${error instanceof Error ? error.message : error}`,
+      );
+      ruleFiles.delete(file);
+      return null;
+    }
+  }
+  return null;
+}
+
+// Invalid rules are left out, so that they never match by accident
+function parseRules(file: string, value: unknown): LoadedRule[] {
+  const rules = (value as { rules?: unknown } | null)?.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error("expected a `rules` array");
+  }
+
+  const loaded: LoadedRule[] = [];
+  rules.forEach((rule: unknown, index) => {
+    const problem = ruleProblem(rule);
+    if (problem) {
+      console.warn(
+        `Ignoring approval rule ${index + 1} in ${file}: ${problem}`,
+      );
+    } else {
+      loaded.push({ rule: rule as ApprovalRule, position: index + 1 });
+    }
+  });
+  return loaded;
+}
+
+/**
+ * Check the shape of a rule, which comes from a hand-written file.
+ *
+ * @returns What is wrong with the rule, or null if it is valid
+ */
+function ruleProblem(rule: unknown): string | null {
+  if (!isObject(rule)) {
+    return "expected an object";
+  }
+  if (!DECISIONS.some((decision) => decision === rule.decision)) {
+    return `needs a decision (${DECISIONS.join(", ")})`;
+  }
+  if (rule.name !== undefined && typeof rule.name !== "string") {
+    return "name must be a string";
+  }
+  if (rule.when === undefined) {
+    return null;
+  }
+  if (!isObject(rule.when)) {
+    return "when must be an object";
+  }
+
+  const { kind, command, actions, cwd, paths, grantRoot } = rule.when;
+  if (kind !== undefined && !KINDS.some((k) => k === kind)) {
+    return `when.kind must be one of ${KINDS.join(", ")}`;
+  }
+  if (command !== undefined && !isStrings(command)) {
+    return "when.command must be a string or a list of words";
+  }
+  if (
+    actions !== undefined &&
+    !(Array.isArray(actions) && isStrings(actions))
+  ) {
+    return "when.actions must be a list of action types";
+  }
+  for (const [key, globs] of [
+    ["cwd", cwd],
+    ["paths", paths],
+  ] as const) {
+    if (globs !== undefined && !isStrings(globs)) {
+      return `when.${key} must be a glob or a list of globs`;
+    }
+  }
+  if (
+    grantRoot !== undefined &&
+    typeof grantRoot !== "boolean" &&
+    typeof grantRoot !== "string"
+  ) {
+    return "when.grantRoot must be a boolean or a glob";
+  }
+  return null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// A string, or an array of strings
+function isStrings(value: unknown): value is string | string[] {
+  return (
+    typeof value === "string" ||
+    (Array.isArray(value) && value.every((item) => typeof item === "string"))
+  );
+}
+
+function ruleMatches(
+  rule: ApprovalRule,
+  workspace: string,
+  request: ApprovalRequest,
+): boolean {
+  const when = rule.when ?? {};
+
+  if (when.kind && when.kind !== request.kind) {
+    return false;
+  }
+
+  if (when.command !== undefined) {
+    const prefix =
+      typeof when.command === "string"
+        ? when.command.split(/\s+/).filter(Boolean)
+        : when.command;
+    const commands =
+      request.kind === "commandExecution" && request.command
+        ? splitCommandList(request.command)
+        : [];
+    const matches = (words: string[] | null) =>
+      words !== null && prefix.every((word, i) => words[i] === word);
+    // Allowing needs every command of a list to match. Denying or asking
+    // needs only one, or a command that cannot be parsed, so that a denied
+    // command cannot slip through as `rm -rf build && true`.
+    if (
+      commands.length === 0 ||
+      (rule.decision === "allow"
+        ? !commands.every(matches)
+        : !commands.some((words) => words === null || matches(words)))
+    ) {
+      return false;
+    }
+  }
+
+  if (when.actions !== undefined) {
+    const actions =
+      request.kind === "commandExecution" ? request.commandActions : null;
+    if (
+      !actions?.length ||
+      !actions.every((action) => when.actions?.includes(action.type))
+    ) {
+      return false;
+    }
+  }
+
+  if (when.cwd !== undefined) {
+    const cwd = request.kind === "commandExecution" ? request.cwd : null;
+    if (!cwd || !matchesAnyGlob(workspace, cwd, when.cwd)) {
+      return false;
+    }
+  }
+
+  if (when.paths !== undefined) {
+    const paths =
+      request.kind === "fileChange"
+        ? request.changes.flatMap((change) =>
+            change.kind.type === "update" && change.kind.move_path
+              ? [change.path, change.kind.move_path]
+              : [change.path],
+          )
+        : [];
+    if (
+      paths.length === 0 ||
+      !paths.every((file) => matchesAnyGlob(workspace, file, when.paths ?? []))
+    ) {
+      return false;
+    }
+  }
+
+  if (when.grantRoot !== undefined) {
+    const grantRoot = request.kind === "fileChange" ? request.grantRoot : null;
+    if (typeof when.grantRoot === "boolean") {
+      if (Boolean(grantRoot) !== when.grantRoot) {
+        return false;
+      }
+    } else if (
+      !grantRoot ||
+      !matchesAnyGlob(workspace, grantRoot, when.grantRoot)
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// Globs are relative to the workspace unless they are absolute
+function matchesAnyGlob(
+  workspace: string,
+  file: string,
+  globs: string[] | string,
+): boolean {
+  const absolute = path.resolve(workspace, file);
+  const relative = path.relative(workspace, absolute) || ".";
+  return (typeof globs === "string" ? [globs] : globs).some((glob) =>
+    globToRegExp(glob).test(path.isAbsolute(glob) ? absolute : relative),
+  );
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // `**/` also matches no directory at all
+      source += glob[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += glob[i + 2] === "/" ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,80 @@
+import type { ApprovalRequest } from "@/app/api/_lib/codex";
+import type { StructuredWorkflow } from "@/app/api/_lib/workflow";
+import type {
+  ThreadItem,
+  ToolRequestUserInputParams,
+  TurnPlanStep,
+  TurnStatus,
+} from "@/infrastructure/codex/schemas/v2";
+
+/**
+ * Data of every SSE event a turn's stream sends, by event name. Shared by
+ * the routes that emit them and the chat UI that reads them.
+ */
+export interface ChatEventMap {
+  /** Turn ID, for interrupting, forking and rolling back the turn */
+  turn_started: { turnId: string };
+  /**
+   * An item of the turn (other than the user's message) started or
+   * completed, with everything known about it so far
+   */
+  item_started: { item: ThreadItem };
+  item_completed: { item: ThreadItem };
+  /** Streamed text of the agent's reply */
+  delta: { itemId: string; text: string };
+  /** Streamed text of a plan item */
+  plan_delta: { itemId: string; delta: string };
+  /** A new part of a reasoning item's summary begins */
+  reasoning_summary_part_added: { itemId: string; summaryIndex: number };
+  /** Streamed text of a part of a reasoning item's summary */
+  reasoning_summary_delta: {
+    itemId: string;
+    summaryIndex: number;
+    delta: string;
+  };
+  /** Streamed raw reasoning, where the model shares it */
+  reasoning_delta: { itemId: string; contentIndex: number; delta: string };
+  /** Progress message of a running MCP tool call */
+  mcp_tool_call_progress: { itemId: string; message: string };
+  /** Streamed output of applying a file change */
+  file_change_output: { itemId: string; delta: string };
+  /** Streamed output of a command, keyed by item ID as commands may interleave */
+  command_output: { itemId: string; delta: string };
+  plan_updated: { explanation: string | null; plan: TurnPlanStep[] };
+  /** The agent's final message, when it is a structured workflow */
+  workflow_output: StructuredWorkflow;
+  user_input_request: ToolRequestUserInputParams;
+  approval_request: ApprovalRequest;
+  /** A user input or approval request was answered, or given up on */
+  request_resolved: { itemId: string };
+  thread_name_updated: { threadId: string; name: string | null };
+  /** The Codex process stopped and is restarted */
+  reconnecting: { attempt: number; delayMs: number };
+  reconnected: { attempt: number };
+  /** Events a reconnecting browser missed that were no longer kept */
+  events_dropped: { count: number };
+  complete: { status: TurnStatus };
+  aborted: { reason: "interrupted" };
+  /** Ends the turn, unless Codex retries after it */
+  error: { message: string; willRetry: boolean };
+}
+
+export type ChatEventName = keyof ChatEventMap;
+
+/** One SSE event, discriminated by its name */
+export type ChatEvent = {
+  [E in ChatEventName]: { event: E; data: ChatEventMap[E] };
+}[ChatEventName];
+
+/** Whether a turn's stream has nothing more to send after an event */
+export function endsTurn(event: ChatEvent): boolean {
+  switch (event.event) {
+    case "complete":
+    case "aborted":
+      return true;
+    case "error":
+      return !event.data.willRetry;
+    default:
+      return false;
+  }
+}
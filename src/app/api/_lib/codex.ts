@@ -0,0 +1,504 @@
+import path from "node:path";
+import { NextResponse } from "next/server";
+import {
+  evaluateApprovalPolicy,
+  logApprovalDecision,
+} from "@/app/api/_lib/approval-policy";
+import type { ChatEventMap, ChatEventName } from "@/app/api/_lib/chat-events";
+import { addAllowPrefix, findAllowPrefix } from "@/app/api/_lib/exec-policy";
+import { recordFileChanges, recordTurnDiff } from "@/app/api/_lib/file-restore";
+import type { TurnEventLog } from "@/app/api/_lib/turn-events";
+import {
+  type CodexAppServer,
+  type CodexAppServerOptions,
+  CodexAppServerPool,
+  CodexPoolExhaustedError,
+  codexAppServerOptionsFromEnv,
+  type ProtocolMismatchEvent,
+  type ReconnectFailedEvent,
+} from "@/infrastructure/codex";
+import type {
+  ReasoningEffort,
+  ReasoningSummary,
+} from "@/infrastructure/codex/schemas";
+import type {
+  CommandExecutionApprovalDecision,
+  CommandExecutionRequestApprovalParams,
+  FileChangeRequestApprovalParams,
+  FileUpdateChange,
+  ToolRequestUserInputParams,
+  ToolRequestUserInputResponse,
+} from "@/infrastructure/codex/schemas/v2";
+import { instrumentCodexAppServer } from "@/infrastructure/codex/telemetry";
+
+/** Writes one SSE event to the browsers streaming a turn */
+export type SendEvent = <E extends ChatEventName>(
+  event: E,
+  data: ChatEventMap[E],
+) => void;
+
+/**
+ * A conversation created through `POST /api/threads`
+ *
+ * Each thread streams its own turns, so concurrent conversations (e.g. two
+ * browser tabs) never see each other's events.
+ */
+export interface ThreadSession {
+  threadId: string;
+  /** SSE stream of the running turn, if any */
+  sendEvent: SendEvent | null;
+  /** Events of the running or last turn, replayed to reconnecting browsers */
+  events: TurnEventLog | null;
+  /** ID of the running turn, once `turn/start` has answered */
+  turnId: string | null;
+  /**
+   * Working directory of the thread: the workspace whose app-server it is
+   * loaded in, and whose allow-prefixes apply to it
+   */
+  cwd: string;
+  /** Lets the workspace's app-server go once the thread is closed */
+  release: () => void;
+}
+
+/** An approval request forwarded to the browser as `approval_request` */
+export type ApprovalRequest =
+  | ({ kind: "commandExecution" } & CommandExecutionRequestApprovalParams)
+  | ({
+      kind: "fileChange";
+      /** Proposed changes, from the item's `item/started` */
+      changes: FileUpdateChange[];
+    } & FileChangeRequestApprovalParams);
+
+/**
+ * Decision of the browser; `acceptWithExecpolicyAmendment` is only offered
+ * for commands
+ */
+export type ApprovalDecision = CommandExecutionApprovalDecision;
+
+// A server request waiting for the browser - keyed by itemId
+interface PendingRequest<T, P> {
+  resolve: (response: T) => void;
+  reject: (error: Error) => void;
+  params: P;
+}
+
+// Global state for the app-servers and their conversations
+let codexPool: CodexAppServerPool | null = null;
+let workspaceOptions = workspaceOptionsFromEnv;
+export const threadSessions = new Map<string, ThreadSession>();
+export const pendingUserInputs = new Map<
+  string,
+  PendingRequest<ToolRequestUserInputResponse, ToolRequestUserInputParams>
+>();
+export const pendingApprovals = new Map<
+  string,
+  PendingRequest<ApprovalDecision, ApprovalRequest>
+>();
+// File changes announced by `item/started`, until they are completed
+const proposedFileChanges = new Map<string, FileUpdateChange[]>();
+// Thread names from `thread/name/updated` (threads themselves carry none)
+export const threadNames = new Map<string, string>();
+
+/** Model the chat's turns run with */
+export const TURN_MODEL = "codex-mini-latest";
+
+/**
+ * How much a thread's turns reason, and how their reasoning is summarized.
+ * `null` leaves it to the model's default.
+ */
+export interface ReasoningSettings {
+  effort: ReasoningEffort | null;
+  summary: ReasoningSummary | null;
+}
+
+export const REASONING_EFFORTS: ReasoningEffort[] = [
+  "none",
+  "minimal",
+  "low",
+  "medium",
+  "high",
+  "xhigh",
+];
+export const REASONING_SUMMARIES: ReasoningSummary[] = [
+  "auto",
+  "concise",
+  "detailed",
+  "none",
+];
+
+// Reasoning settings by thread, as last sent with one of its turns
+export const threadReasoning = new Map<string, ReasoningSettings>();
+
+/**
+ * Workspace the app-server runs in unless a thread asks for another one:
+ * `CODEX_APP_SERVER_CWD`, or the directory the app was started in
+ */
+export function defaultWorkspace(): string {
+  return codexAppServerOptionsFromEnv().spawn?.cwd ?? process.cwd();
+}
+
+/**
+ * Whether threads may be started in `cwd`: the default workspace, one of the
+ * directories listed in `CODEX_CHAT_WORKSPACES` (separated like `PATH`), or a
+ * directory inside one of them
+ */
+export function isAllowedWorkspace(cwd: string): boolean {
+  const roots = [
+    defaultWorkspace(),
+    ...(process.env.CODEX_CHAT_WORKSPACES ?? "")
+      .split(path.delimiter)
+      .filter(Boolean),
+  ];
+  return roots.some((root) => {
+    const relative = path.relative(path.resolve(root), path.resolve(cwd));
+    return (
+      relative !== ".." &&
+      !relative.startsWith(`..${path.sep}`) &&
+      !path.isAbsolute(relative)
+    );
+  });
+}
+
+/**
+ * Wrap a route handler so that it answers 503 while every app-server is held
+ * by thread sessions, instead of failing with a 500.
+ */
+export function withCodex<Args extends unknown[]>(
+  handler: (...args: Args) => Promise<Response>,
+): (...args: Args) => Promise<Response> {
+  return async (...args) => {
+    try {
+      return await handler(...args);
+    } catch (error) {
+      if (error instanceof CodexPoolExhaustedError) {
+        return NextResponse.json({ error: error.message }, { status: 503 });
+      }
+      throw error;
+    }
+  };
+}
+
+/**
+ * Get the app-server of a workspace. Each workspace has its own process, so
+ * threads of different workspaces never share a working directory; those not
+ * used by any thread are stopped after a while.
+ */
+export async function getCodex(
+  workspace = defaultWorkspace(),
+): Promise<CodexAppServer> {
+  // Only thread sessions keep their workspace's app-server leased
+  const lease = await getCodexPool().acquire(workspace);
+  lease.release();
+  return lease.codex;
+}
+
+/**
+ * Replace the options app-servers are created with, e.g. to talk to a fake
+ * app-server; without them, the environment's are used again. The
+ * app-servers created so far are disposed.
+ */
+export function setCodexOptions(
+  createOptions: (
+    workspace: string,
+  ) => CodexAppServerOptions = workspaceOptionsFromEnv,
+) {
+  codexPool?.disposeAll();
+  codexPool = null;
+  workspaceOptions = createOptions;
+}
+
+function workspaceOptionsFromEnv(workspace: string): CodexAppServerOptions {
+  const options = codexAppServerOptionsFromEnv();
+  return {
+    ...options,
+    spawn: { ...options.spawn, cwd: workspace },
+    respawn: true,
+  };
+}
+
+function getCodexPool(): CodexAppServerPool {
+  if (!codexPool) {
+    codexPool = new CodexAppServerPool({
+      createOptions: (workspace) => workspaceOptions(workspace),
+      setup: setupCodex,
+    });
+  }
+  return codexPool;
+}
+
+async function setupCodex(codex: CodexAppServer): Promise<void> {
+  // Approve commands and edits by rule, or ask the browser streaming the
+  // thread
+  codex.onServerRequest(
+    "item/commandExecution/requestApproval",
+    async (params) => ({
+      decision: await decideApproval({ kind: "commandExecution", ...params }),
+    }),
+  );
+  codex.onServerRequest("item/fileChange/requestApproval", async (params) => ({
+    decision: await decideApproval({
+      kind: "fileChange",
+      ...params,
+      changes: proposedFileChanges.get(params.itemId) ?? [],
+    }),
+  }));
+  codex.onNotification("item/started", ({ item }) => {
+    if (item.type === "fileChange") {
+      proposedFileChanges.set(item.id, item.changes);
+    }
+  });
+
+  // Register user input request handler
+  codex.onServerRequest(
+    "item/tool/requestUserInput",
+    async (
+      params: ToolRequestUserInputParams,
+    ): Promise<ToolRequestUserInputResponse> => {
+      // Forward the request to the stream of the thread that asked
+      threadSessions
+        .get(params.threadId)
+        ?.sendEvent?.("user_input_request", params);
+
+      // Wait for user response
+      return waitForBrowser(
+        pendingUserInputs,
+        params,
+        "User input request timed out",
+      );
+    },
+  );
+
+  // Keep thread names, and tell the browser streaming that thread
+  codex.onNotification("thread/name/updated", ({ threadId, threadName }) => {
+    if (threadName) {
+      threadNames.set(threadId, threadName);
+    } else {
+      threadNames.delete(threadId);
+    }
+    threadSessions.get(threadId)?.sendEvent?.("thread_name_updated", {
+      threadId,
+      name: threadName ?? null,
+    });
+  });
+
+  // Remember what each turn changed on disk, to undo it on rollback
+  codex.onNotification("item/completed", ({ threadId, turnId, item }) => {
+    if (item.type !== "fileChange") {
+      return;
+    }
+    proposedFileChanges.delete(item.id);
+    if (item.status === "completed") {
+      recordFileChanges(threadId, turnId, item.changes);
+    }
+  });
+  codex.onNotification("turn/diff/updated", ({ threadId, turnId, diff }) => {
+    recordTurnDiff(threadId, turnId, diff);
+  });
+
+  // Only emitted with CODEX_APP_SERVER_STRICT=1
+  codex.on("protocol-mismatch", (event: ProtocolMismatchEvent) => {
+    console.warn(
+      `Codex protocol mismatch in ${event.kind} ${event.method} (server: ${event.userAgent}, schemas: ${event.schemaVersion})`,
+      event.issues,
+    );
+  });
+
+  // Transport failures end in a respawn, or in `reconnectFailed`
+  codex.on("error", (error: Error) => {
+    console.error("Codex app-server error:", error);
+  });
+  codex.on("reconnectFailed", (event: ReconnectFailedEvent) => {
+    console.error(
+      `Codex app-server did not come back after ${event.attempts} attempts:`,
+      event.error,
+    );
+  });
+
+  // No-op unless an OpenTelemetry SDK is registered (src/instrumentation.ts)
+  instrumentCodexAppServer(codex);
+
+  await codex.initialize(
+    {
+      name: "next-codex-chat",
+      version: "0.1.0",
+      title: "Next.js Codex Chat",
+    },
+    { experimentalApi: true },
+  );
+}
+
+/**
+ * Let turns be started in a thread loaded in the app-server of `cwd`, which is
+ * kept running until the session is closed.
+ */
+export async function openThreadSession(
+  threadId: string,
+  cwd: string,
+): Promise<ThreadSession> {
+  const existing = threadSessions.get(threadId);
+  if (existing) {
+    return existing;
+  }
+
+  const { release } = await getCodexPool().acquire(cwd);
+  // Another request may have opened it in the meantime
+  const opened = threadSessions.get(threadId);
+  if (opened) {
+    release();
+    return opened;
+  }
+
+  const session: ThreadSession = {
+    threadId,
+    sendEvent: null,
+    events: null,
+    turnId: null,
+    cwd,
+    release,
+  };
+  threadSessions.set(threadId, session);
+  return session;
+}
+
+/**
+ * Workspace of a thread: that of its session, or the one it was started in.
+ */
+export async function threadWorkspace(threadId: string): Promise<string> {
+  const session = threadSessions.get(threadId);
+  if (session) {
+    return session.cwd;
+  }
+  const { thread } = await (await getCodex()).readThread(threadId);
+  return thread.cwd;
+}
+
+/**
+ * Forget a thread's session, letting its workspace's app-server go.
+ */
+export function closeThreadSession(threadId: string) {
+  threadSessions.get(threadId)?.release();
+  threadSessions.delete(threadId);
+}
+
+/**
+ * Reject the user input and approval requests a thread is still waiting on.
+ */
+export function rejectPendingRequests(threadId: string, reason: string) {
+  for (const pending of [pendingUserInputs, pendingApprovals]) {
+    for (const [itemId, request] of pending) {
+      if (request.params.threadId === threadId) {
+        pending.delete(itemId);
+        request.reject(new Error(reason));
+      }
+    }
+  }
+}
+
+/**
+ * Decide an approval request with the workspace's rule file first, then the
+ * prefixes the user always allows, and finally the user. Every decision is
+ * logged with what made it.
+ *
+ * A prefix the user chooses to always allow is kept by the app only, and
+ * Codex is told a plain `accept`: an amendment would also land in Codex's own
+ * execpolicy, where revoking it in /settings could not reach it.
+ */
+async function decideApproval(
+  request: ApprovalRequest,
+): Promise<Extract<ApprovalDecision, string>> {
+  const workspace =
+    threadSessions.get(request.threadId)?.cwd ??
+    (request.kind === "commandExecution" ? request.cwd : null) ??
+    null;
+
+  const policy = workspace
+    ? await evaluateApprovalPolicy(workspace, request)
+    : null;
+  if (policy && policy.decision !== "ask") {
+    const decision = policy.decision === "allow" ? "accept" : "decline";
+    logApprovalDecision(request, decision, policy.label);
+    return decision;
+  }
+
+  // A rule saying "ask" overrides the allowed prefixes
+  if (!policy && workspace && request.kind === "commandExecution") {
+    const allowed = request.command
+      ? await findAllowPrefix(workspace, request.command)
+      : null;
+    if (allowed) {
+      logApprovalDecision(
+        request,
+        "accept",
+        `allowed prefix "${allowed.prefix.join(" ")}"`,
+      );
+      return "accept";
+    }
+  }
+
+  const decision = await askForApproval(request);
+  logApprovalDecision(
+    request,
+    decision,
+    policy ? `user, as required by ${policy.label}` : "user",
+  );
+  if (typeof decision === "object") {
+    if (workspace) {
+      const { execpolicy_amendment } = decision.acceptWithExecpolicyAmendment;
+      await addAllowPrefix(workspace, execpolicy_amendment);
+    }
+    return "accept";
+  }
+  return decision;
+}
+
+function askForApproval(request: ApprovalRequest): Promise<ApprovalDecision> {
+  threadSessions
+    .get(request.threadId)
+    ?.sendEvent?.("approval_request", request);
+  return waitForBrowser(
+    pendingApprovals,
+    request,
+    "Approval request timed out",
+  );
+}
+
+// Park a server request until the browser answers, for up to 5 minutes
+function waitForBrowser<T, P extends { threadId: string; itemId: string }>(
+  pending: Map<string, PendingRequest<T, P>>,
+  params: P,
+  timeoutMessage: string,
+): Promise<T> {
+  // Lets browsers replaying the turn know the request needs no answer
+  const resolved = () => {
+    threadSessions
+      .get(params.threadId)
+      ?.sendEvent?.("request_resolved", { itemId: params.itemId });
+  };
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => {
+        if (pending.has(params.itemId)) {
+          pending.delete(params.itemId);
+          resolved();
+          reject(new Error(timeoutMessage));
+        }
+      },
+      5 * 60 * 1000,
+    );
+
+    pending.set(params.itemId, {
+      resolve: (response) => {
+        clearTimeout(timer);
+        resolved();
+        resolve(response);
+      },
+      reject: (error) => {
+        clearTimeout(timer);
+        resolved();
+        reject(error);
+      },
+      params,
+    });
+  });
+}
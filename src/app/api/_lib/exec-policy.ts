@@ -0,0 +1,234 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { ExecPolicyAmendment } from "@/infrastructure/codex/schemas/v2";
+
+/** "Always allow commands starting with ..." in one workspace */
+export interface AllowPrefixRule {
+  id: string;
+  /** Working directory of the threads the rule applies to */
+  cwd: string;
+  prefix: ExecPolicyAmendment;
+  createdAt: number;
+}
+
+interface ExecPolicyFile {
+  rules: AllowPrefixRule[];
+}
+
+/**
+ * Where the rules are kept: `CODEX_CHAT_EXEC_POLICY_FILE`, or
+ * `.codex-chat/exec-policy.json` in the current directory.
+ */
+function execPolicyFile(): string {
+  return path.resolve(
+    process.env.CODEX_CHAT_EXEC_POLICY_FILE ??
+      path.join(".codex-chat", "exec-policy.json"),
+  );
+}
+
+// A missing or broken file allows nothing: every command is asked for
+async function readRules(): Promise<AllowPrefixRule[]> {
+  const file = execPolicyFile();
+  try {
+    const { rules } = JSON.parse(
+      await readFile(file, "utf8"),
+    ) as Partial<ExecPolicyFile>;
+    if (!Array.isArray(rules)) {
+      throw new Error("expected a `rules` array");
+    }
+    return rules;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.warn(
+        `Ignoring the exec policy in ${file}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+    return [];
+  }
+}
+
+// Writes are queued so that concurrent updates do not overwrite each other
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+function updateRules<T>(
+  update: (rules: AllowPrefixRule[]) => { rules: AllowPrefixRule[]; result: T },
+): Promise<T> {
+  const write = pendingWrite.then(async () => {
+    const { rules, result } = update(await readRules());
+    const file = execPolicyFile();
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, `${JSON.stringify({ rules }, null, 2)}\n`);
+    return result;
+  });
+  pendingWrite = write.catch(() => {});
+  return write;
+}
+
+export async function listAllowPrefixes(): Promise<AllowPrefixRule[]> {
+  await pendingWrite;
+  return readRules();
+}
+
+export function addAllowPrefix(
+  cwd: string,
+  prefix: ExecPolicyAmendment,
+): Promise<AllowPrefixRule> {
+  return updateRules((rules) => {
+    const existing = rules.find(
+      (rule) => rule.cwd === cwd && samePrefix(rule.prefix, prefix),
+    );
+    if (existing) {
+      return { rules, result: existing };
+    }
+    const rule = { id: randomUUID(), cwd, prefix, createdAt: Date.now() };
+    return { rules: [...rules, rule], result: rule };
+  });
+}
+
+export function updateAllowPrefix(
+  id: string,
+  prefix: ExecPolicyAmendment,
+): Promise<AllowPrefixRule | null> {
+  return updateRules((rules) => {
+    const rule = rules.find((entry) => entry.id === id);
+    if (!rule) {
+      return { rules, result: null };
+    }
+    const updated = { ...rule, prefix };
+    return {
+      rules: rules.map((entry) => (entry.id === id ? updated : entry)),
+      result: updated,
+    };
+  });
+}
+
+export function removeAllowPrefix(id: string): Promise<boolean> {
+  return updateRules((rules) => ({
+    rules: rules.filter((rule) => rule.id !== id),
+    result: rules.some((rule) => rule.id === id),
+  }));
+}
+
+/**
+ * The rule allowing `command` in `cwd`, if any.
+ *
+ * Only simple commands are matched: anything with shell operators (pipes,
+ * `&&`, redirects, substitutions) still needs an approval, since the prefix
+ * says nothing about the rest of the script.
+ */
+export async function findAllowPrefix(
+  cwd: string,
+  command: string,
+): Promise<AllowPrefixRule | null> {
+  const words = splitCommand(command);
+  if (!words) {
+    return null;
+  }
+  const rules = await listAllowPrefixes();
+  return (
+    rules.find(
+      (rule) =>
+        rule.cwd === cwd &&
+        rule.prefix.length > 0 &&
+        samePrefix(words.slice(0, rule.prefix.length), rule.prefix),
+    ) ?? null
+  );
+}
+
+/**
+ * Split a simple shell command into words, or null if it uses shell syntax
+ * beyond quoting.
+ */
+export function splitCommand(command: string): string[] | null {
+  const words: string[] = [];
+  let word: string | null = null;
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (quote === '"' && (char === "$" || char === "`")) {
+        return null;
+      } else if (quote === '"' && char === "\\" && i + 1 < command.length) {
+        word = (word ?? "") + command[++i];
+      } else {
+        word = (word ?? "") + char;
+      }
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+      word = word ?? "";
+    } else if (char === "\\" && i + 1 < command.length) {
+      word = (word ?? "") + command[++i];
+    } else if (char === " " || char === "\t") {
+      if (word !== null) {
+        words.push(word);
+        word = null;
+      }
+    } else if (/[|&;<>()$`\n*?]/.test(char)) {
+      return null;
+    } else {
+      word = (word ?? "") + char;
+    }
+  }
+
+  if (quote) {
+    return null;
+  }
+  if (word !== null) {
+    words.push(word);
+  }
+  return words;
+}
+
+/**
+ * Split a command list on the operators between its commands (`&&`, `||`,
+ * `;`, `|`, `&` and newlines) outside quotes. Each part is parsed with
+ * `splitCommand`, and is null if it uses other shell syntax.
+ */
+export function splitCommandList(command: string): (string[] | null)[] {
+  const parts: string[] = [];
+  let part = "";
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote) {
+      part += char;
+      if (char === quote) {
+        quote = null;
+      } else if (quote === '"' && char === "\\" && i + 1 < command.length) {
+        part += command[++i];
+      }
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+      part += char;
+    } else if (char === "\\" && i + 1 < command.length) {
+      part += char + command[++i];
+    } else if (/[|&;\n]/.test(char)) {
+      parts.push(part);
+      part = "";
+      // `&&` and `||` are one operator
+      if ((char === "&" || char === "|") && command[i + 1] === char) {
+        i++;
+      }
+    } else {
+      part += char;
+    }
+  }
+  parts.push(part);
+
+  return parts.filter((part) => part.trim()).map((part) => splitCommand(part));
+}
+
+function samePrefix(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((word, i) => word === b[i]);
+}
@@ -0,0 +1,221 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  type FilePatch,
+  fileChangePatch,
+  parseGitDiff,
+  reverseApply,
+} from "@/app/api/_lib/unified-diff";
+import type {
+  FileUpdateChange,
+  Thread,
+  Turn,
+} from "@/infrastructure/codex/schemas/v2";
+
+/** What the agent changed on disk in one turn */
+interface TurnFileChanges {
+  /** Applied `fileChange` items, in order */
+  changes: FileUpdateChange[];
+  /** Latest aggregated diff of the turn (`turn/diff/updated`) */
+  diff: string | null;
+}
+
+/** A file as it will be after the rollback */
+export interface FileRestore {
+  path: string;
+  action: "restore" | "create" | "delete";
+  /** Content to write, null when the file is deleted */
+  content: string | null;
+}
+
+/** A file whose changes can no longer be undone */
+export interface FileConflict {
+  path: string;
+  reason: string;
+}
+
+export interface FileRestorePlan {
+  files: FileRestore[];
+  conflicts: FileConflict[];
+}
+
+// threadId -> turnId -> changes, recorded while turns run
+const turnFileChanges = new Map<string, Map<string, TurnFileChanges>>();
+
+function turnRecord(threadId: string, turnId: string): TurnFileChanges {
+  let turns = turnFileChanges.get(threadId);
+  if (!turns) {
+    turns = new Map();
+    turnFileChanges.set(threadId, turns);
+  }
+  let record = turns.get(turnId);
+  if (!record) {
+    record = { changes: [], diff: null };
+    turns.set(turnId, record);
+  }
+  return record;
+}
+
+export function recordFileChanges(
+  threadId: string,
+  turnId: string,
+  changes: FileUpdateChange[],
+) {
+  turnRecord(threadId, turnId).changes.push(...changes);
+}
+
+export function recordTurnDiff(threadId: string, turnId: string, diff: string) {
+  turnRecord(threadId, turnId).diff = diff;
+}
+
+export function forgetTurnFileChanges(threadId: string, turnIds: string[]) {
+  const turns = turnFileChanges.get(threadId);
+  for (const turnId of turnIds) {
+    turns?.delete(turnId);
+  }
+}
+
+/**
+ * Work out how to undo the file changes of `turns` (oldest first) without
+ * touching the disk.
+ *
+ * The turn diff is preferred, then the recorded `fileChange` items, then the
+ * items stored in the thread (e.g. for turns from before a server restart).
+ * Changes are reverse-applied newest first; a file edited afterwards so that
+ * its hunks no longer match is reported as a conflict and left alone.
+ */
+export async function planFileRestore(
+  thread: Thread,
+  turns: Turn[],
+): Promise<FileRestorePlan> {
+  const originals = new Map<string, string | null>();
+  const files = new Map<string, string | null>();
+  const conflicts: FileConflict[] = [];
+  const conflicted = new Set<string>();
+
+  const read = async (file: string): Promise<string | null> => {
+    if (!files.has(file)) {
+      const content = await readFileOrNull(file);
+      originals.set(file, content);
+      files.set(file, content);
+    }
+    return files.get(file) ?? null;
+  };
+  const conflict = (file: string, reason: string) => {
+    conflicted.add(file);
+    conflicts.push({ path: file, reason });
+  };
+
+  for (const turn of [...turns].reverse()) {
+    for (const patch of turnPatches(thread.id, turn).reverse()) {
+      const target = path.resolve(thread.cwd, patch.path);
+      const current = path.resolve(thread.cwd, patch.movePath ?? patch.path);
+      if (conflicted.has(target) || conflicted.has(current)) {
+        continue;
+      }
+
+      const content = await read(current);
+      if (patch.kind === "delete") {
+        if (content !== null) {
+          conflict(target, "was created again after the turn");
+        } else {
+          files.set(target, reverseApply("", patch.hunks));
+        }
+        continue;
+      }
+      if (content === null) {
+        conflict(current, "was deleted after the turn");
+        continue;
+      }
+
+      const reverted = reverseApply(content, patch.hunks);
+      if (reverted === null || (patch.kind === "add" && reverted !== "")) {
+        conflict(current, "was edited after the turn");
+        continue;
+      }
+      if (patch.kind === "add") {
+        files.set(current, null);
+        continue;
+      }
+      if (current !== target) {
+        if ((await read(target)) !== null) {
+          conflict(target, "was created again after the turn");
+          continue;
+        }
+        files.set(current, null);
+      }
+      files.set(target, reverted);
+    }
+  }
+
+  const restores: FileRestore[] = [];
+  for (const [file, content] of files) {
+    const original = originals.get(file) ?? null;
+    if (content === original) {
+      continue;
+    }
+    restores.push({
+      path: file,
+      action:
+        content === null ? "delete" : original === null ? "create" : "restore",
+      content,
+    });
+  }
+
+  return { files: restores, conflicts };
+}
+
+/**
+ * Write a plan from `planFileRestore` to disk. A file that cannot be written
+ * does not stop the others.
+ *
+ * @returns The files that could not be restored, and why
+ */
+export async function applyFileRestore(
+  plan: FileRestorePlan,
+): Promise<FileConflict[]> {
+  const failed: FileConflict[] = [];
+  for (const file of plan.files) {
+    try {
+      if (file.content === null) {
+        await rm(file.path, { force: true });
+      } else {
+        await mkdir(path.dirname(file.path), { recursive: true });
+        await writeFile(file.path, file.content);
+      }
+    } catch (error) {
+      failed.push({
+        path: file.path,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return failed;
+}
+
+function turnPatches(threadId: string, turn: Turn): FilePatch[] {
+  const recorded = turnFileChanges.get(threadId)?.get(turn.id);
+  if (recorded?.diff) {
+    return parseGitDiff(recorded.diff);
+  }
+
+  const changes = recorded?.changes.length
+    ? recorded.changes
+    : turn.items.flatMap((item) =>
+        item.type === "fileChange" && item.status === "completed"
+          ? item.changes
+          : [],
+      );
+  return changes.map(fileChangePatch);
+}
+
+async function readFileOrNull(file: string): Promise<string | null> {
+  try {
+    return await readFile(file, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,183 @@
+import { randomUUID } from "node:crypto";
+import type {
+  ChatEvent,
+  ChatEventMap,
+  ChatEventName,
+} from "@/app/api/_lib/chat-events";
+
+/**
+ * One SSE event of a turn, with its position in the turn's stream:
+ * `<log>:<sequence>`, sent as the SSE `id:`
+ */
+export type TurnEvent = ChatEvent & { id: string };
+
+type TurnEventListener = (event: TurnEvent | null) => void;
+
+/** Events kept per turn for browsers reconnecting mid-turn */
+const CAPACITY = 1000;
+
+/**
+ * The events of one turn, kept in a ring buffer so that a browser can
+ * reconnect mid-turn (`GET /api/threads/[id]/events`) and replay what it
+ * missed.
+ *
+ * When the last browser streaming the turn goes away, `abandoned` aborts
+ * unless another one attaches within the grace period.
+ */
+export class TurnEventLog {
+  private readonly id = randomUUID().slice(0, 8);
+  private readonly buffer: TurnEvent[] = [];
+  private nextSequence = 0;
+  private readonly listeners = new Set<TurnEventListener>();
+  private readonly abandonController = new AbortController();
+  private abandonTimer: ReturnType<typeof setTimeout> | null = null;
+  private finished = false;
+
+  constructor(private readonly graceMs: number) {}
+
+  /** Aborts once nobody has streamed the running turn for the grace period */
+  get abandoned(): AbortSignal {
+    return this.abandonController.signal;
+  }
+
+  get isFinished(): boolean {
+    return this.finished;
+  }
+
+  push<E extends ChatEventName>(event: E, data: ChatEventMap[E]): void {
+    if (this.finished) {
+      return;
+    }
+    const sequence = this.nextSequence++;
+    const entry = { id: `${this.id}:${sequence}`, event, data } as TurnEvent;
+    this.buffer[sequence % CAPACITY] = entry;
+    for (const listener of this.listeners) {
+      listener(entry);
+    }
+  }
+
+  /** End the turn's stream; later pushes are ignored */
+  finish(): void {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+    this.clearAbandonTimer();
+    for (const listener of this.listeners) {
+      listener(null);
+    }
+    this.listeners.clear();
+  }
+
+  /**
+   * Events after `lastEventId`, or all kept events if it is not from this
+   * turn. `missed` counts events that were no longer kept.
+   */
+  since(lastEventId: string | null): { events: TurnEvent[]; missed: number } {
+    const [logId, sequence] = lastEventId?.split(":") ?? [];
+    const from =
+      logId === this.id && /^\d+$/.test(sequence) ? Number(sequence) + 1 : 0;
+    const oldest = Math.max(0, this.nextSequence - CAPACITY);
+
+    const events: TurnEvent[] = [];
+    for (let i = Math.max(from, oldest); i < this.nextSequence; i++) {
+      events.push(this.buffer[i % CAPACITY]);
+    }
+    return { events, missed: Math.max(0, oldest - from) };
+  }
+
+  /**
+   * Receive the events pushed from now on, then null when the turn ends.
+   * Returns the function to stop listening.
+   */
+  subscribe(listener: TurnEventListener): () => void {
+    this.listeners.add(listener);
+    this.clearAbandonTimer();
+
+    return () => {
+      if (!this.listeners.delete(listener) || this.listeners.size > 0) {
+        return;
+      }
+      if (!this.finished && !this.abandoned.aborted) {
+        this.abandonTimer = setTimeout(() => {
+          this.abandonTimer = null;
+          this.abandonController.abort();
+        }, this.graceMs);
+      }
+    };
+  }
+
+  private clearAbandonTimer(): void {
+    if (this.abandonTimer) {
+      clearTimeout(this.abandonTimer);
+      this.abandonTimer = null;
+    }
+  }
+}
+
+/**
+ * Stream a turn's events as SSE, starting after `lastEventId`, until the
+ * turn ends or the browser goes away (`signal` is the request's).
+ */
+export function turnEventResponse(
+  log: TurnEventLog,
+  lastEventId: string | null,
+  signal: AbortSignal,
+): Response {
+  const encoder = new TextEncoder();
+  let unsubscribe = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      signal.addEventListener("abort", () => {
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed or cancelled
+        }
+      });
+
+      const send = ({ id, event, data }: ChatEvent & { id?: string }) => {
+        const idLine = id ? `id: ${id}\n` : "";
+        controller.enqueue(
+          encoder.encode(
+            `${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`,
+          ),
+        );
+      };
+
+      const { events, missed } = log.since(lastEventId);
+      if (missed > 0) {
+        // Tell the browser its view of the turn is incomplete
+        send({ event: "events_dropped", data: { count: missed } });
+      }
+      for (const event of events) {
+        send(event);
+      }
+
+      if (log.isFinished || signal.aborted) {
+        controller.close();
+        return;
+      }
+      unsubscribe = log.subscribe((event) => {
+        if (event) {
+          send(event);
+        } else {
+          controller.close();
+        }
+      });
+    },
+    cancel() {
+      unsubscribe();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,257 @@
+import type { FileUpdateChange } from "@/infrastructure/codex/schemas/v2";
+
+/** One `@@ -a,b +c,d @@` block of a unified diff */
+export interface Hunk {
+  oldStart: number;
+  newStart: number;
+  oldLines: string[];
+  newLines: string[];
+  /** `\ No newline at end of file` after the old / new side */
+  oldNoEol: boolean;
+  newNoEol: boolean;
+}
+
+/** Changes to one file, with paths as they appear in the diff */
+export interface FilePatch {
+  path: string;
+  /** New path when the file was renamed */
+  movePath: string | null;
+  kind: "add" | "delete" | "update";
+  hunks: Hunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parse the hunks of a unified diff, ignoring any file headers.
+ */
+export function parseHunks(diff: string): Hunk[] {
+  const lines = diff.split("\n");
+  const hunks: Hunk[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    const header = HUNK_HEADER.exec(lines[i]);
+    i++;
+    if (!header) {
+      continue;
+    }
+
+    const hunk: Hunk = {
+      oldStart: Number(header[1]),
+      newStart: Number(header[3]),
+      oldLines: [],
+      newLines: [],
+      oldNoEol: false,
+      newNoEol: false,
+    };
+    let oldCount = header[2] === undefined ? 1 : Number(header[2]);
+    let newCount = header[4] === undefined ? 1 : Number(header[4]);
+
+    while (i < lines.length && (oldCount > 0 || newCount > 0)) {
+      const line = lines[i];
+      const text = line.slice(1);
+      if (line.startsWith("-")) {
+        hunk.oldLines.push(text);
+        oldCount--;
+      } else if (line.startsWith("+")) {
+        hunk.newLines.push(text);
+        newCount--;
+      } else if (line.startsWith(" ") || line === "") {
+        hunk.oldLines.push(text);
+        hunk.newLines.push(text);
+        oldCount--;
+        newCount--;
+      } else if (!line.startsWith("\\")) {
+        break;
+      }
+      i++;
+      // The marker belongs to the line just read
+      if (lines[i]?.startsWith("\\")) {
+        if (!line.startsWith("+")) hunk.oldNoEol = true;
+        if (!line.startsWith("-")) hunk.newNoEol = true;
+        i++;
+      }
+    }
+
+    hunks.push(hunk);
+  }
+
+  return hunks;
+}
+
+/**
+ * Split a git-style diff (e.g. from `turn/diff/updated`) into file patches.
+ */
+export function parseGitDiff(diff: string): FilePatch[] {
+  const sections = diff.split(/^(?=diff --git )/m);
+  const patches: FilePatch[] = [];
+
+  for (const section of sections) {
+    const header = /^diff --git a\/(.+?) b\/(.+)$/m.exec(section);
+    if (!header) {
+      continue;
+    }
+
+    let oldPath: string | null = header[1];
+    let newPath: string | null = header[2];
+    const from = /^--- (.+)$/m.exec(section)?.[1];
+    const to = /^\+\+\+ (.+)$/m.exec(section)?.[1];
+    if (from !== undefined) {
+      oldPath = from === "/dev/null" ? null : stripPrefix(from);
+    }
+    if (to !== undefined) {
+      newPath = to === "/dev/null" ? null : stripPrefix(to);
+    }
+    if (/^new file mode /m.test(section)) oldPath = null;
+    if (/^deleted file mode /m.test(section)) newPath = null;
+
+    const hunks = parseHunks(section);
+    if (oldPath === null && newPath !== null) {
+      patches.push({ path: newPath, movePath: null, kind: "add", hunks });
+    } else if (oldPath !== null && newPath === null) {
+      patches.push({ path: oldPath, movePath: null, kind: "delete", hunks });
+    } else if (oldPath !== null && newPath !== null) {
+      patches.push({
+        path: oldPath,
+        movePath: newPath === oldPath ? null : newPath,
+        kind: "update",
+        hunks,
+      });
+    }
+  }
+
+  return patches;
+}
+
+/**
+ * Patch of a `fileChange` item. Added and deleted files carry their whole
+ * content instead of a diff.
+ */
+export function fileChangePatch(change: FileUpdateChange): FilePatch {
+  switch (change.kind.type) {
+    case "add":
+      return {
+        path: change.path,
+        movePath: null,
+        kind: "add",
+        hunks: [wholeFileHunk(change.diff, "new")],
+      };
+    case "delete":
+      return {
+        path: change.path,
+        movePath: null,
+        kind: "delete",
+        hunks: [wholeFileHunk(change.diff, "old")],
+      };
+    case "update":
+      return {
+        path: change.path,
+        movePath: change.kind.move_path,
+        kind: "update",
+        hunks: parseHunks(change.diff),
+      };
+  }
+}
+
+/**
+ * Undo hunks on the text they produced.
+ *
+ * Hunks are located near their recorded line numbers, so unrelated edits
+ * elsewhere in the file are kept. Returns null when a hunk no longer matches,
+ * i.e. its lines were edited afterwards.
+ */
+export function reverseApply(content: string, hunks: Hunk[]): string | null {
+  const { lines, eol } = splitLines(content);
+  let endsWithNewline = eol;
+  let offset = 0;
+  let minIndex = 0;
+
+  for (const hunk of hunks) {
+    const from = hunk.newLines;
+    const to = hunk.oldLines;
+    // An empty range starts after the line it names
+    const hint =
+      (from.length === 0 ? hunk.newStart : hunk.newStart - 1) + offset;
+    const index = findLines(lines, from, hint, minIndex);
+    if (index === -1) {
+      return null;
+    }
+
+    lines.splice(index, from.length, ...to);
+    offset += to.length - from.length;
+    minIndex = index + to.length;
+    if (minIndex === lines.length) {
+      endsWithNewline = !hunk.oldNoEol;
+    }
+  }
+
+  return joinLines(lines, endsWithNewline);
+}
+
+function wholeFileHunk(content: string, side: "old" | "new"): Hunk {
+  const { lines, eol } = splitLines(content);
+  const noEol = lines.length > 0 && !eol;
+  return side === "new"
+    ? {
+        oldStart: 0,
+        newStart: 1,
+        oldLines: [],
+        newLines: lines,
+        oldNoEol: false,
+        newNoEol: noEol,
+      }
+    : {
+        oldStart: 1,
+        newStart: 0,
+        oldLines: lines,
+        newLines: [],
+        oldNoEol: noEol,
+        newNoEol: false,
+      };
+}
+
+// Closest match to the hint, searching outwards
+function findLines(
+  lines: string[],
+  target: string[],
+  hint: number,
+  minIndex: number,
+): number {
+  const last = lines.length - target.length;
+  const maxDistance = Math.max(hint, lines.length - hint);
+  for (let distance = 0; distance <= maxDistance; distance++) {
+    for (const index of [hint - distance, hint + distance]) {
+      if (index < minIndex || index > last) {
+        continue;
+      }
+      if (target.every((line, i) => lines[index + i] === line)) {
+        return index;
+      }
+    }
+  }
+  return -1;
+}
+
+function splitLines(content: string): { lines: string[]; eol: boolean } {
+  if (content === "") {
+    return { lines: [], eol: false };
+  }
+  const lines = content.split("\n");
+  const eol = content.endsWith("\n");
+  if (eol) {
+    lines.pop();
+  }
+  return { lines, eol };
+}
+
+function joinLines(lines: string[], eol: boolean): string {
+  if (lines.length === 0) {
+    return "";
+  }
+  return lines.join("\n") + (eol ? "\n" : "");
+}
+
+function stripPrefix(path: string): string {
+  return path.replace(/^[ab]\//, "");
+}
@@ -0,0 +1,84 @@
+// Workflow todo JSON Schema for structured output
+export const WORKFLOW_TODO_SCHEMA = {
+  type: "object",
+  properties: {
+    title: {
+      type: "string",
+      description: "Title of the workflow",
+    },
+    description: {
+      type: "string",
+      description: "Brief description of the overall workflow goal",
+    },
+    tasks: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: {
+            type: "string",
+            description: "Unique identifier for the task",
+          },
+          executor: {
+            type: "string",
+            enum: ["AI", "HUMAN"],
+            description: "Who executes this task: AI or HUMAN",
+          },
+          description: {
+            type: "string",
+            description: "Description of the task",
+          },
+          output: {
+            type: "array",
+            items: { type: "string" },
+            description: "Artifacts/deliverables this task produces",
+          },
+          depends: {
+            type: "array",
+            items: { type: "string" },
+            description: "Task IDs this task depends on",
+          },
+        },
+        required: ["id", "executor", "description"],
+      },
+    },
+  },
+  required: ["title", "tasks"],
+};
+
+// Structured workflow output, as described by WORKFLOW_TODO_SCHEMA
+export interface StructuredWorkflow {
+  title: string;
+  description?: string;
+  tasks: StructuredTask[];
+}
+
+export interface StructuredTask {
+  id: string;
+  executor: "AI" | "HUMAN";
+  description: string;
+  output?: string[];
+  depends?: string[];
+  status?: "pending" | "inProgress" | "completed";
+}
+
+// Developer instructions for workflow creation
+export const WORKFLOW_TODO_INSTRUCTIONS = `
+## Workflow Task Creation
+
+You are a workflow planning assistant. Your goal is to create a structured workflow with tasks that can be executed by either AI or HUMAN.
+
+### Process
+1. Use request_user_input to ask clarifying questions about the workflow requirements
+2. Based on user responses, create a comprehensive workflow plan
+3. Output the final workflow as structured JSON
+
+### Task Assignment Rules
+- **AI tasks**: Document creation, data analysis, code generation, research, calculations, formatting
+- **HUMAN tasks**: Meetings, phone calls, physical actions, approvals, signatures, external communications, decisions requiring human judgment
+
+### Important
+- Each HUMAN task should clearly specify what artifacts/information the human needs to provide
+- Use task IDs in the "depends" field to indicate dependencies between tasks
+- Ask questions via request_user_input if requirements are unclear
+`;
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import {
+  removeAllowPrefix,
+  updateAllowPrefix,
+} from "@/app/api/_lib/exec-policy";
+
+// Change the prefix of an allow rule
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const { prefix } = await request.json();
+
+  if (
+    !Array.isArray(prefix) ||
+    prefix.length === 0 ||
+    !prefix.every((word) => typeof word === "string" && word !== "")
+  ) {
+    return NextResponse.json(
+      { error: "prefix must be a non-empty array of words" },
+      { status: 400 },
+    );
+  }
+
+  const rule = await updateAllowPrefix(id, prefix);
+  if (!rule) {
+    return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+  }
+  return NextResponse.json({ rule });
+}
+
+// Revoke an allow rule; matching commands need an approval again
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+
+  if (!(await removeAllowPrefix(id))) {
+    return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+  }
+  return NextResponse.json({ success: true });
+}
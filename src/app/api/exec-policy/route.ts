@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { listAllowPrefixes } from "@/app/api/_lib/exec-policy";
+
+// List the "always allow" command prefixes of every workspace
+export async function GET() {
+  const rules = await listAllowPrefixes();
+  return NextResponse.json({ rules });
+}
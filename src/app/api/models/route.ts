@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { getCodex, TURN_MODEL, withCodex } from "@/app/api/_lib/codex";
+import type { Model } from "@/infrastructure/codex/schemas/v2";
+
+// The model turns run with, e.g. for the reasoning efforts it supports
+export const GET = withCodex(getTurnModel);
+
+async function getTurnModel() {
+  const codex = await getCodex();
+
+  const models: Model[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await codex.listModels({ cursor });
+    models.push(...page.data);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  // Listed under its slug or its ID; otherwise the default model stands in
+  const model =
+    models.find((m) => m.model === TURN_MODEL || m.id === TURN_MODEL) ??
+    models.find((m) => m.isDefault) ??
+    null;
+
+  return NextResponse.json({ model });
+}
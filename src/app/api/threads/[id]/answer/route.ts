@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { pendingUserInputs } from "../route";
+import { pendingUserInputs } from "@/app/api/_lib/codex";
 import type { ToolRequestUserInputAnswer } from "@/infrastructure/codex/schemas/v2";
 
 interface AnswerRequestBody {
@@ -7,8 +7,12 @@ interface AnswerRequestBody {
   answers: { [key: string]: ToolRequestUserInputAnswer };
 }
 
-export async function POST(request: Request) {
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
   try {
+    const { id: threadId } = await params;
     const body = (await request.json()) as AnswerRequestBody;
     const { itemId, answers } = body;
 
@@ -27,7 +31,7 @@ export async function POST(request: Request) {
     }
 
     const pending = pendingUserInputs.get(itemId);
-    if (!pending) {
+    if (!pending || pending.params.threadId !== threadId) {
       return NextResponse.json(
         { error: "No pending user input request found for this itemId" },
         { status: 404 },
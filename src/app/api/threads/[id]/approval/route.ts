@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import {
+  type ApprovalDecision,
+  type ApprovalRequest,
+  pendingApprovals,
+} from "@/app/api/_lib/codex";
+
+const DECISIONS = ["accept", "acceptForSession", "decline", "cancel"];
+
+interface ApprovalRequestBody {
+  itemId: string;
+  decision: unknown;
+}
+
+// Answer an `approval_request` of a running turn
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: threadId } = await params;
+  const { itemId, decision } = (await request.json()) as ApprovalRequestBody;
+
+  if (!itemId || typeof itemId !== "string") {
+    return NextResponse.json({ error: "itemId is required" }, { status: 400 });
+  }
+
+  const pending = pendingApprovals.get(itemId);
+  if (!pending || pending.params.threadId !== threadId) {
+    return NextResponse.json(
+      { error: "No pending approval request found for this itemId" },
+      { status: 404 },
+    );
+  }
+
+  if (!isDecision(decision, pending.params)) {
+    return NextResponse.json(
+      {
+        error: `decision must be one of ${DECISIONS.join(", ")}, or acceptWithExecpolicyAmendment for commands`,
+      },
+      { status: 400 },
+    );
+  }
+
+  pendingApprovals.delete(itemId);
+  pending.resolve(decision);
+
+  return NextResponse.json({ success: true });
+}
+
+function isDecision(
+  decision: unknown,
+  request: ApprovalRequest,
+): decision is ApprovalDecision {
+  if (typeof decision === "string") {
+    return DECISIONS.includes(decision);
+  }
+  if (request.kind !== "commandExecution") {
+    return false;
+  }
+
+  // { acceptWithExecpolicyAmendment: { execpolicy_amendment: ["npm", "test"] } }
+  const amendment = (
+    decision as {
+      acceptWithExecpolicyAmendment?: { execpolicy_amendment?: unknown };
+    } | null
+  )?.acceptWithExecpolicyAmendment?.execpolicy_amendment;
+  return (
+    Array.isArray(amendment) &&
+    amendment.length > 0 &&
+    amendment.every((word) => typeof word === "string" && word !== "")
+  );
+}
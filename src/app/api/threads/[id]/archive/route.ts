@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import {
+  closeThreadSession,
+  getCodex,
+  threadSessions,
+  withCodex,
+} from "@/app/api/_lib/codex";
+
+// Archive a thread; it is then only listed with `?archived=true`
+export const POST = withCodex(archiveThread);
+
+async function archiveThread(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: threadId } = await params;
+
+  const session = threadSessions.get(threadId);
+  if (session?.sendEvent) {
+    return NextResponse.json(
+      { error: "A turn is running in this thread" },
+      { status: 409 },
+    );
+  }
+
+  const codex = await getCodex(session?.cwd);
+  try {
+    await codex.archiveThread(threadId);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Thread not found" },
+      { status: 404 },
+    );
+  }
+
+  // Archiving unloads the thread; it has to be resumed to be used again
+  closeThreadSession(threadId);
+  return NextResponse.json({ success: true });
+}
+
+// Restore an archived thread
+export const DELETE = withCodex(restoreThread);
+
+async function restoreThread(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: threadId } = await params;
+
+  const codex = await getCodex();
+  try {
+    const { thread } = await codex.unarchiveThread(threadId);
+    return NextResponse.json({ thread });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Thread not found" },
+      { status: 404 },
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { threadSessions } from "@/app/api/_lib/codex";
+import { turnEventResponse } from "@/app/api/_lib/turn-events";
+
+// Stream the running or last turn of a thread again, e.g. after a reload or
+// a dropped connection. Events after `Last-Event-ID` (or `?lastEventId=`) are
+// replayed first; without it the whole turn is.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: threadId } = await params;
+
+  const session = threadSessions.get(threadId);
+  if (!session) {
+    return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+  }
+  if (!session.events) {
+    return NextResponse.json(
+      { error: "No turn has been started in this thread" },
+      { status: 404 },
+    );
+  }
+
+  const lastEventId =
+    request.headers.get("Last-Event-ID") ??
+    new URL(request.url).searchParams.get("lastEventId");
+  return turnEventResponse(session.events, lastEventId, request.signal);
+}
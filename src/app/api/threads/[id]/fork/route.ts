@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import {
+  getCodex,
+  openThreadSession,
+  threadReasoning,
+  threadWorkspace,
+  withCodex,
+} from "@/app/api/_lib/codex";
+import { CodexPoolExhaustedError } from "@/infrastructure/codex";
+
+// Fork a thread into a new conversation, optionally up to one of its turns
+export const POST = withCodex(forkThread);
+
+async function forkThread(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: threadId } = await params;
+  const { turnId } = (await request.json().catch(() => ({}))) as {
+    turnId?: unknown;
+  };
+
+  if (turnId !== undefined && typeof turnId !== "string") {
+    return NextResponse.json(
+      { error: "turnId must be a string" },
+      { status: 400 },
+    );
+  }
+
+  // Turns after the chosen one are dropped from the fork
+  let dropTurns = 0;
+  try {
+    // The fork stays in the workspace of the thread it came from
+    const workspace = await threadWorkspace(threadId);
+    const codex = await getCodex(workspace);
+
+    if (turnId) {
+      const { thread } = await codex.readThread(threadId, true);
+      const index = thread.turns.findIndex((turn) => turn.id === turnId);
+      if (index === -1) {
+        return NextResponse.json(
+          { error: "Turn not found in this thread" },
+          { status: 404 },
+        );
+      }
+      dropTurns = thread.turns.length - index - 1;
+    }
+
+    let { thread } = await codex.forkThread({ threadId });
+    if (dropTurns > 0) {
+      ({ thread } = await codex.rollbackThread(thread.id, dropTurns));
+    }
+
+    await openThreadSession(thread.id, workspace);
+    // The fork reasons like the thread it came from
+    const reasoning = threadReasoning.get(threadId);
+    if (reasoning) {
+      threadReasoning.set(thread.id, reasoning);
+    }
+    return NextResponse.json({ thread }, { status: 201 });
+  } catch (error) {
+    // Answered with 503 by withCodex
+    if (error instanceof CodexPoolExhaustedError) {
+      throw error;
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Thread not found" },
+      { status: 404 },
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import {
+  getCodex,
+  rejectPendingRequests,
+  threadSessions,
+  withCodex,
+} from "@/app/api/_lib/codex";
+
+// Stop the running turn; its stream ends with an `aborted` event
+export const POST = withCodex(interruptTurn);
+
+async function interruptTurn(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: threadId } = await params;
+
+  const session = threadSessions.get(threadId);
+  if (!session) {
+    return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+  }
+  const { turnId } = session;
+  if (!turnId) {
+    return NextResponse.json(
+      { error: "No turn is running in this thread" },
+      { status: 409 },
+    );
+  }
+
+  rejectPendingRequests(threadId, "The turn was interrupted");
+  const codex = await getCodex(session.cwd);
+  try {
+    await codex.interruptTurn({ threadId, turnId });
+  } catch (error) {
+    // The turn may have finished in the meantime
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to interrupt",
+      },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json({ success: true, turnId });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import {
+  getCodex,
+  threadNames,
+  threadSessions,
+  withCodex,
+} from "@/app/api/_lib/codex";
+
+// Rename a thread
+export const POST = withCodex(renameThread);
+
+async function renameThread(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: threadId } = await params;
+  const { name } = await request.json();
+
+  if (!name || typeof name !== "string" || !name.trim()) {
+    return NextResponse.json({ error: "name is required" }, { status: 400 });
+  }
+
+  const codex = await getCodex(threadSessions.get(threadId)?.cwd);
+  try {
+    await codex.setThreadName(threadId, name.trim());
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Thread not found" },
+      { status: 404 },
+    );
+  }
+
+  // `thread/name/updated` confirms it; don't make the list wait for that
+  threadNames.set(threadId, name.trim());
+  return NextResponse.json({ name: name.trim() });
+}
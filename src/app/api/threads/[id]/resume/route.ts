@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import {
+  getCodex,
+  openThreadSession,
+  threadWorkspace,
+  withCodex,
+} from "@/app/api/_lib/codex";
+import { CodexPoolExhaustedError } from "@/infrastructure/codex";
+
+// Load a stored thread so that new turns can be started in it
+export const POST = withCodex(resumeThread);
+
+async function resumeThread(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: threadId } = await params;
+
+  try {
+    // The thread is loaded in the app-server of its workspace
+    const workspace = await threadWorkspace(threadId);
+    const codex = await getCodex(workspace);
+    await codex.resumeThread({ threadId });
+    await openThreadSession(threadId, workspace);
+  } catch (error) {
+    // Answered with 503 by withCodex
+    if (error instanceof CodexPoolExhaustedError) {
+      throw error;
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Thread not found" },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
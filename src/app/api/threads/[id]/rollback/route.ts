@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+import { getCodex, threadSessions, withCodex } from "@/app/api/_lib/codex";
+import {
+  applyFileRestore,
+  forgetTurnFileChanges,
+  planFileRestore,
+} from "@/app/api/_lib/file-restore";
+
+/**
+ * Drop the last `numTurns` turns from a thread's history
+ *
+ * Unless `restoreFiles` is false, the files the agent changed in those turns
+ * are restored too, and `dryRun` only reports what would be restored. Files
+ * edited after those turns are conflicts: the rollback is refused until they
+ * are resolved or `restoreFiles` is false. Files that cannot be written
+ * once the turns have been dropped are reported as `failed`.
+ */
+export const POST = withCodex(rollbackThread);
+
+async function rollbackThread(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: threadId } = await params;
+  const {
+    numTurns,
+    restoreFiles = true,
+    dryRun = false,
+  } = await request.json();
+
+  if (!Number.isInteger(numTurns) || numTurns < 1) {
+    return NextResponse.json(
+      { error: "numTurns must be a positive integer" },
+      { status: 400 },
+    );
+  }
+
+  const session = threadSessions.get(threadId);
+  if (!session) {
+    return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+  }
+  if (session.sendEvent) {
+    return NextResponse.json(
+      { error: "A turn is running in this thread" },
+      { status: 409 },
+    );
+  }
+
+  const codex = await getCodex(session.cwd);
+  try {
+    const { thread: current } = await codex.readThread(threadId, true);
+    if (numTurns > current.turns.length) {
+      return NextResponse.json(
+        { error: `The thread has only ${current.turns.length} turns` },
+        { status: 400 },
+      );
+    }
+    const dropped = current.turns.slice(-numTurns);
+
+    const plan = restoreFiles
+      ? await planFileRestore(current, dropped)
+      : { files: [], conflicts: [] };
+    const files = plan.files.map(({ path, action }) => ({ path, action }));
+
+    if (dryRun) {
+      return NextResponse.json({
+        dryRun: true,
+        files,
+        conflicts: plan.conflicts,
+      });
+    }
+    if (plan.conflicts.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Some files were edited after these turns",
+          conflicts: plan.conflicts,
+        },
+        { status: 409 },
+      );
+    }
+
+    const { thread } = await codex.rollbackThread(threadId, numTurns);
+    // The turns are gone, so their changes must never be undone again, even
+    // if some files cannot be restored
+    forgetTurnFileChanges(
+      threadId,
+      dropped.map((turn) => turn.id),
+    );
+    const failed = await applyFileRestore(plan);
+    return NextResponse.json({
+      thread,
+      filesReverted: restoreFiles && failed.length === 0,
+      files: files.filter((file) =>
+        failed.every((failure) => failure.path !== file.path),
+      ),
+      failed,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Rollback failed" },
+      { status: 400 },
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import {
+  closeThreadSession,
+  getCodex,
+  rejectPendingRequests,
+  threadNames,
+  threadReasoning,
+  threadSessions,
+  withCodex,
+} from "@/app/api/_lib/codex";
+
+// Read a stored thread with its full history, and its reasoning settings
+export const GET = withCodex(readThread);
+
+async function readThread(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: threadId } = await params;
+  const codex = await getCodex();
+
+  try {
+    const { thread } = await codex.readThread(threadId, true);
+    return NextResponse.json({
+      thread: { ...thread, name: threadNames.get(threadId) ?? null },
+      reasoning: threadReasoning.get(threadId) ?? null,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Thread not found" },
+      { status: 404 },
+    );
+  }
+}
+
+// End a conversation: stop its running turn and forget it
+export const DELETE = withCodex(closeThread);
+
+async function closeThread(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: threadId } = await params;
+
+  const session = threadSessions.get(threadId);
+  if (!session) {
+    return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+  }
+  closeThreadSession(threadId);
+
+  rejectPendingRequests(threadId, "Thread was closed");
+  if (session.turnId) {
+    const codex = await getCodex(session.cwd);
+    await codex
+      .interruptTurn({ threadId, turnId: session.turnId })
+      .catch(() => {
+        // The turn may already have finished
+      });
+  }
+
+  return NextResponse.json({ success: true });
+}
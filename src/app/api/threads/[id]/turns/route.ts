@@ -0,0 +1,381 @@
+import { NextResponse } from "next/server";
+import {
+  getCodex,
+  REASONING_EFFORTS,
+  REASONING_SUMMARIES,
+  type ReasoningSettings,
+  rejectPendingRequests,
+  type SendEvent,
+  TURN_MODEL,
+  threadReasoning,
+  threadSessions,
+  withCodex,
+} from "@/app/api/_lib/codex";
+import { TurnEventLog, turnEventResponse } from "@/app/api/_lib/turn-events";
+import {
+  WORKFLOW_TODO_INSTRUCTIONS,
+  WORKFLOW_TODO_SCHEMA,
+} from "@/app/api/_lib/workflow";
+import {
+  type CodexAppServer,
+  CodexRequestAbortedError,
+  type NotificationScope,
+  type ReconnectedEvent,
+  type ReconnectFailedEvent,
+  type ReconnectingEvent,
+} from "@/infrastructure/codex";
+
+// Start a turn in a thread and stream its events
+export const POST = withCodex(runTurn);
+
+async function runTurn(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: threadId } = await params;
+  const { message, reasoning } = await request.json();
+
+  if (!message || typeof message !== "string") {
+    return NextResponse.json({ error: "Message is required" }, { status: 400 });
+  }
+  if (reasoning !== undefined && !isReasoningSettings(reasoning)) {
+    return NextResponse.json(
+      {
+        error: `reasoning needs an effort (${REASONING_EFFORTS.join(", ")}) and a summary (${REASONING_SUMMARIES.join(", ")}), or null for the defaults`,
+      },
+      { status: 400 },
+    );
+  }
+
+  const session = threadSessions.get(threadId);
+  if (!session) {
+    return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+  }
+  if (session.sendEvent) {
+    return NextResponse.json(
+      { error: "A turn is already running in this thread" },
+      { status: 409 },
+    );
+  }
+
+  // Events are kept for browsers that reconnect mid-turn
+  const log = new TurnEventLog(reconnectGraceMs());
+  const sendEvent: SendEvent = (event, data) => log.push(event, data);
+
+  // Route server requests of this thread (user input) to this turn. Claimed
+  // before anything is awaited, so that a second request gets the 409.
+  const previousEvents = session.events;
+  session.sendEvent = sendEvent;
+  session.events = log;
+
+  // Later turns of the thread keep the settings
+  if (reasoning) {
+    threadReasoning.set(threadId, reasoning);
+  }
+  const { effort, summary } = threadReasoning.get(threadId) ?? {};
+
+  let codex: CodexAppServer;
+  try {
+    codex = await getCodex(session.cwd);
+  } catch (error) {
+    session.sendEvent = null;
+    session.events = previousEvents;
+    throw error;
+  }
+
+  // Only this thread's events; narrowed to the turn once it has an ID
+  const scope: NotificationScope = { threadId };
+
+  const interruptOnAbort = interruptOnDisconnect();
+  if (interruptOnAbort) {
+    // Nobody can answer the thread's requests any more
+    log.abandoned.addEventListener("abort", () => {
+      rejectPendingRequests(threadId, "The browser disconnected");
+    });
+  }
+
+  // Set up event listeners
+  const unsubscribers: (() => void)[] = [];
+
+  // Turn ID, for interrupting the turn, and forking and rolling back
+  // from it later
+  unsubscribers.push(
+    codex.onThreadNotification("turn/started", scope, ({ turn }) => {
+      if (session.sendEvent === sendEvent) {
+        session.turnId = turn.id;
+        scope.turnId = turn.id;
+      }
+      sendEvent("turn_started", { turnId: turn.id });
+    }),
+  );
+
+  // Use v2 notifications for streaming text (item/agentMessage/delta)
+  unsubscribers.push(
+    codex.onThreadNotification("item/agentMessage/delta", scope, (params) => {
+      if (params.delta) {
+        sendEvent("delta", { itemId: params.itemId, text: params.delta });
+      }
+    }),
+  );
+
+  // Every item of the turn, for the timeline. The browser shows the user's
+  // message itself.
+  unsubscribers.push(
+    codex.onThreadNotification("item/started", scope, ({ item }) => {
+      if (item.type !== "userMessage") {
+        sendEvent("item_started", { item });
+      }
+    }),
+  );
+  unsubscribers.push(
+    codex.onThreadNotification("item/completed", scope, ({ item }) => {
+      if (item.type !== "userMessage") {
+        sendEvent("item_completed", { item });
+      }
+
+      // Check if this is an agentMessage with structured workflow output
+      if (item.type === "agentMessage" && item.text) {
+        try {
+          const parsed = JSON.parse(item.text);
+          // Check if it matches our workflow schema
+          if (parsed.tasks && Array.isArray(parsed.tasks)) {
+            sendEvent("workflow_output", parsed);
+          }
+        } catch {
+          // Not JSON, ignore
+        }
+      }
+    }),
+  );
+
+  // Streamed parts of items, keyed by item ID
+  unsubscribers.push(
+    codex.onThreadNotification("item/plan/delta", scope, (params) => {
+      sendEvent("plan_delta", { itemId: params.itemId, delta: params.delta });
+    }),
+  );
+  unsubscribers.push(
+    codex.onThreadNotification(
+      "item/reasoning/summaryPartAdded",
+      scope,
+      (params) => {
+        sendEvent("reasoning_summary_part_added", {
+          itemId: params.itemId,
+          summaryIndex: params.summaryIndex,
+        });
+      },
+    ),
+  );
+  unsubscribers.push(
+    codex.onThreadNotification(
+      "item/reasoning/summaryTextDelta",
+      scope,
+      (params) => {
+        sendEvent("reasoning_summary_delta", {
+          itemId: params.itemId,
+          summaryIndex: params.summaryIndex,
+          delta: params.delta,
+        });
+      },
+    ),
+  );
+  unsubscribers.push(
+    codex.onThreadNotification("item/reasoning/textDelta", scope, (params) => {
+      sendEvent("reasoning_delta", {
+        itemId: params.itemId,
+        contentIndex: params.contentIndex,
+        delta: params.delta,
+      });
+    }),
+  );
+  unsubscribers.push(
+    codex.onThreadNotification("item/mcpToolCall/progress", scope, (params) => {
+      sendEvent("mcp_tool_call_progress", {
+        itemId: params.itemId,
+        message: params.message,
+      });
+    }),
+  );
+  unsubscribers.push(
+    codex.onThreadNotification(
+      "item/fileChange/outputDelta",
+      scope,
+      (params) => {
+        sendEvent("file_change_output", {
+          itemId: params.itemId,
+          delta: params.delta,
+        });
+      },
+    ),
+  );
+
+  unsubscribers.push(
+    codex.onThreadNotification(
+      "item/commandExecution/outputDelta",
+      scope,
+      (params) => {
+        sendEvent("command_output", {
+          itemId: params.itemId,
+          delta: params.delta,
+        });
+      },
+    ),
+  );
+
+  // Plan updated notification (workflow todo - legacy)
+  unsubscribers.push(
+    codex.onThreadNotification("turn/plan/updated", scope, (params) => {
+      sendEvent("plan_updated", {
+        explanation: params.explanation,
+        plan: params.plan,
+      });
+    }),
+  );
+
+  // Turn completed (v2 notification)
+  unsubscribers.push(
+    codex.onThreadNotification("turn/completed", scope, (params) => {
+      if (params.turn.status === "interrupted") {
+        sendEvent("aborted", { reason: "interrupted" });
+      } else {
+        sendEvent("complete", { status: params.turn.status });
+      }
+      cleanup();
+      log.finish();
+    }),
+  );
+
+  // Error handling (v2 notification)
+  unsubscribers.push(
+    codex.onThreadNotification("error", scope, (params) => {
+      sendEvent("error", {
+        message: params.error.message || "Unknown error",
+        willRetry: params.willRetry,
+      });
+      // Codex goes on with the turn after a retryable error
+      if (!params.willRetry) {
+        cleanup();
+        log.finish();
+      }
+    }),
+  );
+
+  // Codex process restarts - the in-flight turn does not survive them
+  const onReconnecting = (event: ReconnectingEvent) => {
+    sendEvent("reconnecting", {
+      attempt: event.attempt,
+      delayMs: event.delayMs,
+    });
+  };
+  const onReconnected = (event: ReconnectedEvent) => {
+    sendEvent("reconnected", { attempt: event.attempt });
+    sendEvent("error", {
+      message: "Codex restarted and the current turn was lost",
+      willRetry: false,
+    });
+    cleanup();
+    log.finish();
+  };
+  const onReconnectFailed = (event: ReconnectFailedEvent) => {
+    sendEvent("error", {
+      message: `Codex could not be restarted: ${event.error.message}`,
+      willRetry: false,
+    });
+    cleanup();
+    log.finish();
+  };
+  codex.on("reconnecting", onReconnecting);
+  codex.on("reconnected", onReconnected);
+  codex.on("reconnectFailed", onReconnectFailed);
+  unsubscribers.push(() => {
+    codex.off("reconnecting", onReconnecting);
+    codex.off("reconnected", onReconnected);
+    codex.off("reconnectFailed", onReconnectFailed);
+  });
+
+  const cleanup = () => {
+    for (const unsubscribe of unsubscribers) {
+      unsubscribe();
+    }
+    // The thread is free for its next turn
+    if (session.sendEvent === sendEvent) {
+      session.sendEvent = null;
+      session.turnId = null;
+    }
+  };
+
+  const startTurn = async () => {
+    try {
+      // Start the turn with plan mode, structured output, and user input support
+      const { turn } = await codex.sendMessage(
+        threadId,
+        message,
+        {
+          collaborationMode: {
+            mode: "plan",
+            settings: {
+              model: TURN_MODEL,
+              reasoning_effort: effort ?? null,
+              developer_instructions: WORKFLOW_TODO_INSTRUCTIONS,
+            },
+          },
+          outputSchema: WORKFLOW_TODO_SCHEMA,
+          summary: summary ?? null,
+        },
+        // Stop the turn when no browser has streamed it for a while, unless
+        // it is to keep running without one
+        interruptOnAbort
+          ? { signal: log.abandoned, interruptOnAbort }
+          : undefined,
+      );
+      if (session.sendEvent === sendEvent) {
+        session.turnId = turn.id;
+        scope.turnId = turn.id;
+      }
+    } catch (error) {
+      // Nobody is listening any more if the browser disconnected
+      if (!(error instanceof CodexRequestAbortedError)) {
+        sendEvent("error", {
+          message: error instanceof Error ? error.message : "Unknown error",
+          willRetry: false,
+        });
+      }
+      cleanup();
+      log.finish();
+    }
+  };
+  void startTurn();
+
+  return turnEventResponse(log, null, request.signal);
+}
+
+function isReasoningSettings(value: unknown): value is ReasoningSettings {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const { effort, summary } = value as Record<string, unknown>;
+  return (
+    (effort === null || REASONING_EFFORTS.some((e) => e === effort)) &&
+    (summary === null || REASONING_SUMMARIES.some((s) => s === summary))
+  );
+}
+
+/**
+ * Whether a turn is interrupted when its browser disconnects and does not
+ * reconnect in time. Set `CODEX_CHAT_INTERRUPT_ON_DISCONNECT=0` to let turns
+ * run to completion.
+ */
+function interruptOnDisconnect(): boolean {
+  const value = process.env.CODEX_CHAT_INTERRUPT_ON_DISCONNECT;
+  return value !== "0" && value !== "false";
+}
+
+/**
+ * How long a turn waits for a browser to reconnect before it counts as
+ * abandoned (`CODEX_CHAT_RECONNECT_GRACE_MS`, default 10 seconds).
+ */
+function reconnectGraceMs(): number {
+  const value = process.env.CODEX_CHAT_RECONNECT_GRACE_MS;
+  const ms = value ? Number(value) : Number.NaN;
+  return Number.isFinite(ms) && ms >= 0 ? ms : 10_000;
+}
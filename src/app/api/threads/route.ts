@@ -0,0 +1,85 @@
+import path from "node:path";
+import { NextResponse } from "next/server";
+import {
+  defaultWorkspace,
+  getCodex,
+  isAllowedWorkspace,
+  openThreadSession,
+  threadNames,
+  withCodex,
+} from "@/app/api/_lib/codex";
+import type { ThreadSortKey } from "@/infrastructure/codex/schemas/v2";
+
+const SORT_KEYS: ThreadSortKey[] = ["created_at", "updated_at"];
+
+// List stored (or archived) threads, newest first, one page per cursor
+export const GET = withCodex(listThreads);
+
+async function listThreads(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const cursor = searchParams.get("cursor");
+  const limit = searchParams.get("limit");
+  const sortKey = searchParams.get("sortKey") ?? "updated_at";
+  const archived = searchParams.get("archived") === "true";
+
+  if (!SORT_KEYS.includes(sortKey as ThreadSortKey)) {
+    return NextResponse.json(
+      { error: `sortKey must be one of ${SORT_KEYS.join(", ")}` },
+      { status: 400 },
+    );
+  }
+  if (limit !== null && !(Number(limit) > 0)) {
+    return NextResponse.json(
+      { error: "limit must be a positive number" },
+      { status: 400 },
+    );
+  }
+
+  const codex = await getCodex();
+  const { data, nextCursor } = await codex.listThreads({
+    cursor,
+    limit: limit === null ? null : Number(limit),
+    sortKey: sortKey as ThreadSortKey,
+    archived,
+  });
+
+  return NextResponse.json({
+    threads: data.map((thread) => ({
+      ...thread,
+      name: threadNames.get(thread.id) ?? null,
+    })),
+    nextCursor,
+  });
+}
+
+// Start a new conversation, in the app's workspace unless `cwd` names another
+// allowed one
+export const POST = withCodex(startThread);
+
+async function startThread(request: Request) {
+  const { cwd } = (await request.json().catch(() => ({}))) as {
+    cwd?: unknown;
+  };
+
+  if (cwd !== undefined && (typeof cwd !== "string" || !path.isAbsolute(cwd))) {
+    return NextResponse.json(
+      { error: "cwd must be an absolute path" },
+      { status: 400 },
+    );
+  }
+  // Each workspace spawns an app-server, so only configured ones are allowed
+  if (cwd !== undefined && !isAllowedWorkspace(cwd)) {
+    return NextResponse.json(
+      { error: "cwd is not an allowed workspace (CODEX_CHAT_WORKSPACES)" },
+      { status: 403 },
+    );
+  }
+
+  const workspace = cwd === undefined ? defaultWorkspace() : path.resolve(cwd);
+  const codex = await getCodex(workspace);
+  const { thread } = await codex.startThread({ cwd: workspace });
+
+  await openThreadSession(thread.id, workspace);
+
+  return NextResponse.json({ thread }, { status: 201 });
+}
@@ -0,0 +1,5 @@
+import { ExecPolicySettings } from "@/components/ExecPolicySettings";
+
+export default function Settings() {
+  return <ExecPolicySettings />;
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import type { ApprovalDecision, ApprovalRequest } from "@/app/api/_lib/codex";
+import type {
+  CommandAction,
+  FileUpdateChange,
+} from "@/infrastructure/codex/schemas/v2";
+
+interface ApprovalPromptProps {
+  request: ApprovalRequest;
+  onDecision: (decision: ApprovalDecision) => void;
+}
+
+export function ApprovalPrompt({ request, onDecision }: ApprovalPromptProps) {
+  const isCommand = request.kind === "commandExecution";
+  // Prefix codex proposes to allow from now on, e.g. ["npm", "test"]
+  const allowPrefix =
+    request.kind === "commandExecution"
+      ? request.proposedExecpolicyAmendment
+      : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="mx-4 max-h-[80vh] w-full max-w-2xl overflow-y-auto rounded-lg bg-zinc-800 p-6">
+        <h2 className="mb-4 text-xl font-semibold text-white">
+          {isCommand ? "Run this command?" : "Apply these changes?"}
+        </h2>
+
+        {request.reason && (
+          <p className="mb-4 rounded-lg border border-yellow-900 bg-yellow-950/50 p-3 text-sm text-yellow-300">
+            {request.reason}
+          </p>
+        )}
+
+        {request.kind === "commandExecution" ? (
+          <div className="space-y-3">
+            <pre className="overflow-x-auto rounded-lg bg-zinc-900 p-3 text-sm text-zinc-200">
+              {request.command ?? "(unknown command)"}
+            </pre>
+            {request.cwd && (
+              <p className="text-xs text-zinc-400">
+                in <span className="text-zinc-300">{request.cwd}</span>
+              </p>
+            )}
+            {request.commandActions && request.commandActions.length > 0 && (
+              <ul className="space-y-1 text-xs text-zinc-400">
+                {describeCommandActions(request.commandActions).map(
+                  ({ key, text }) => (
+                    <li key={key}>{text}</li>
+                  ),
+                )}
+              </ul>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {request.changes.map((change) => (
+              <FileChangeDiff key={change.path} change={change} />
+            ))}
+            {request.changes.length === 0 && (
+              <p className="text-sm text-zinc-400">
+                The proposed changes are not available.
+              </p>
+            )}
+            {request.grantRoot && (
+              <p className="text-xs text-zinc-400">
+                Also allows writes under{" "}
+                <span className="text-zinc-300">{request.grantRoot}</span> for
+                the rest of the session.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="mt-6 flex flex-wrap justify-end gap-3">
+          <button
+            type="button"
+            onClick={() => onDecision("cancel")}
+            title="Decline and stop the turn"
+            className="rounded-lg bg-zinc-700 px-4 py-2 text-white hover:bg-zinc-600"
+          >
+            Cancel turn
+          </button>
+          <button
+            type="button"
+            onClick={() => onDecision("decline")}
+            title="Decline and let the agent continue"
+            className="rounded-lg bg-red-600 px-4 py-2 text-white hover:bg-red-500"
+          >
+            Decline
+          </button>
+          <button
+            type="button"
+            onClick={() => onDecision("acceptForSession")}
+            title="Accept, and do not ask again for similar requests in this session"
+            className="rounded-lg bg-zinc-700 px-4 py-2 text-white hover:bg-zinc-600"
+          >
+            Accept for session
+          </button>
+          {allowPrefix && allowPrefix.length > 0 && (
+            <button
+              type="button"
+              onClick={() =>
+                onDecision({
+                  acceptWithExecpolicyAmendment: {
+                    execpolicy_amendment: allowPrefix,
+                  },
+                })
+              }
+              title="Accept, and never ask again for commands starting with this prefix in this workspace"
+              className="rounded-lg bg-zinc-700 px-4 py-2 text-white hover:bg-zinc-600"
+            >
+              Always allow{" "}
+              <code className="text-green-300">{allowPrefix.join(" ")}</code>{" "}
+              &hellip;
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => onDecision("accept")}
+            className="rounded-lg bg-green-600 px-4 py-2 text-white hover:bg-green-500"
+          >
+            Accept
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function FileChangeDiff({ change }: { change: FileUpdateChange }) {
+  const { kind } = change;
+  // Added and deleted files carry their content instead of a diff
+  const prefix =
+    kind.type === "add" ? "+" : kind.type === "delete" ? "-" : null;
+  const lines = contentKeyed(
+    change.diff
+      .replace(/\n$/, "")
+      .split("\n")
+      .map((line) => (prefix ? `${prefix}${line}` : line)),
+  );
+
+  return (
+    <div className="rounded-lg border border-zinc-700">
+      <div className="border-b border-zinc-700 px-3 py-2 text-xs text-zinc-300">
+        <span className="mr-2 text-zinc-500">{kind.type}</span>
+        {change.path}
+        {kind.type === "update" && kind.move_path && (
+          <> &rarr; {kind.move_path}</>
+        )}
+      </div>
+      <pre className="max-h-64 overflow-auto p-3 text-xs">
+        {lines.map(({ key, text }) => (
+          <div
+            key={key}
+            className={
+              text.startsWith("+")
+                ? "text-green-400"
+                : text.startsWith("-")
+                  ? "text-red-400"
+                  : text.startsWith("@@")
+                    ? "text-blue-400"
+                    : "text-zinc-400"
+            }
+          >
+            {text || " "}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
+
+function describeCommandAction(action: CommandAction): string {
+  switch (action.type) {
+    case "read":
+      return `Reads ${action.path}`;
+    case "listFiles":
+      return `Lists files in ${action.path ?? "the working directory"}`;
+    case "search":
+      return `Searches for ${action.query ?? "files"} in ${action.path ?? "the working directory"}`;
+    case "unknown":
+      return `Runs ${action.command}`;
+  }
+}
+
+/** What each of a command's actions does, keyed for rendering in a list */
+export function describeCommandActions(
+  actions: CommandAction[],
+): { key: string; text: string }[] {
+  return contentKeyed(actions.map(describeCommandAction));
+}
+
+// Texts keyed by their content; a repeated text is keyed by its occurrence
+function contentKeyed(texts: string[]): { key: string; text: string }[] {
+  const seen = new Map<string, number>();
+  return texts.map((text) => {
+    const count = (seen.get(text) ?? 0) + 1;
+    seen.set(text, count);
+    return { key: `${count}:${text}`, text };
+  });
+}
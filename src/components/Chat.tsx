@@ -1,12 +1,30 @@
 "use client";
 
+import Link from "next/link";
 import { useState, useRef, useEffect, useCallback } from "react";
-import { UserInputPrompt } from "./UserInputPrompt";
 import {
-  WorkflowTodo,
-  StructuredWorkflowDisplay,
-  type StructuredWorkflow,
-} from "./WorkflowTodo";
+  type ChatEvent,
+  type ChatEventName,
+  endsTurn,
+} from "@/app/api/_lib/chat-events";
+import type {
+  ApprovalDecision,
+  ApprovalRequest,
+  ReasoningSettings,
+} from "@/app/api/_lib/codex";
+import type { StructuredWorkflow } from "@/app/api/_lib/workflow";
+import type {
+  Model,
+  ThreadItem,
+  Turn,
+} from "@/infrastructure/codex/schemas/v2";
+import { ApprovalPrompt } from "./ApprovalPrompt";
+import { ReasoningControls } from "./ReasoningControls";
+import { RollbackDialog, type RollbackPreview } from "./RollbackDialog";
+import { type ThreadSummary, ThreadSidebar } from "./ThreadSidebar";
+import { type TimelineItem, ThreadItemTimeline } from "./ThreadItemTimeline";
+import { UserInputPrompt } from "./UserInputPrompt";
+import { WorkflowTodo, StructuredWorkflowDisplay } from "./WorkflowTodo";
 
 interface UserInputOption {
   label: string;
@@ -32,20 +50,14 @@ interface UserInputRequest {
 interface Message {
   id: string;
   role: "user" | "assistant";
+  /** The user's text, or an error */
   content: string;
-  commands?: CommandExecution[];
-  fileChanges?: FileChange[];
-}
-
-interface CommandExecution {
-  id: string;
-  output: string;
-  exitCode?: number;
-}
-
-interface FileChange {
-  path: string;
-  status: "pending" | "complete";
+  /** Turn the message belongs to, once the server has reported it */
+  turnId?: string;
+  /** What the agent did in the turn */
+  items?: TimelineItem[];
+  /** The turn was interrupted before it finished */
+  stopped?: boolean;
 }
 
 interface WorkflowPlan {
@@ -53,31 +65,81 @@ interface WorkflowPlan {
   plan: Array<{ step: string; status: "pending" | "inProgress" | "completed" }>;
 }
 
+// Thread whose turn this tab is streaming, to resume it after a reload
+const ACTIVE_TURN_KEY = "codex-chat:active-turn";
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+
+const DEFAULT_REASONING: ReasoningSettings = { effort: null, summary: null };
+
+/** Where a turn's stream got to, to pick it up again */
+interface StreamCursor {
+  lastEventId: string | null;
+  ended: boolean;
+}
+
 export function Chat() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const [streamingContent, setStreamingContent] = useState("");
-  const [currentCommands, setCurrentCommands] = useState<CommandExecution[]>(
-    [],
-  );
-  const [currentFileChanges, setCurrentFileChanges] = useState<FileChange[]>(
-    [],
-  );
+  // A turn's events are streaming; unlike `isLoading`, not set while a
+  // thread is selected, forked or rolled back
+  const [isTurnRunning, setIsTurnRunning] = useState(false);
+  const [isStopping, setIsStopping] = useState(false);
+  // Items of the running turn, as they stream
+  const [currentItems, setCurrentItems] = useState<TimelineItem[]>([]);
   const [userInputRequest, setUserInputRequest] =
     useState<UserInputRequest | null>(null);
+  // Commands and edits waiting for the user, oldest first
+  const [approvalRequests, setApprovalRequests] = useState<ApprovalRequest[]>(
+    [],
+  );
   const [workflowPlan, setWorkflowPlan] = useState<WorkflowPlan | null>(null);
   const [structuredWorkflow, setStructuredWorkflow] =
     useState<StructuredWorkflow | null>(null);
+  const [connectionNotice, setConnectionNotice] = useState<string | null>(null);
+  // Conversation of this tab, created on the first message
+  const [threadId, setThreadId] = useState<string | null>(null);
+  // Bumped whenever the thread list may have changed
+  const [historyVersion, setHistoryVersion] = useState(0);
+  // Archived threads are read-only until restored
+  const [isArchived, setIsArchived] = useState(false);
+  // Turn the user asked to roll back to, waiting for confirmation
+  const [rollbackTurnId, setRollbackTurnId] = useState<string | null>(null);
+  const [rollbackPreview, setRollbackPreview] =
+    useState<RollbackPreview | null>(null);
+  // Reasoning settings of this thread, sent with each turn
+  const [reasoning, setReasoning] =
+    useState<ReasoningSettings>(DEFAULT_REASONING);
+  // Model turns run with, for the reasoning efforts it supports
+  const [model, setModel] = useState<Model | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, []);
 
+  // Follow the conversation as messages and items arrive
   useEffect(() => {
-    scrollToBottom();
-  }, [messages, streamingContent, scrollToBottom]);
+    if (messages.length > 0 || currentItems.length > 0) {
+      scrollToBottom();
+    }
+  }, [messages, currentItems, scrollToBottom]);
+
+  useEffect(() => {
+    const loadModel = async () => {
+      try {
+        const response = await fetch("/api/models");
+        if (response.ok) {
+          const { model } = await response.json();
+          setModel(model);
+        }
+      } catch (error) {
+        console.error("Error loading model:", error);
+      }
+    };
+    loadModel();
+  }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -92,113 +154,584 @@ export function Chat() {
     setMessages((prev) => [...prev, userMessage]);
     setInput("");
     setIsLoading(true);
-    setStreamingContent("");
-    setCurrentCommands([]);
-    setCurrentFileChanges([]);
+    setCurrentItems([]);
+    setConnectionNotice(null);
 
     try {
-      const response = await fetch("/api/chat", {
+      let activeThreadId = threadId;
+      if (!activeThreadId) {
+        const created = await fetch("/api/threads", { method: "POST" });
+        if (!created.ok) {
+          throw new Error("Failed to start a conversation");
+        }
+        const { thread } = await created.json();
+        activeThreadId = thread.id as string;
+        setThreadId(activeThreadId);
+        setHistoryVersion((version) => version + 1);
+      }
+
+      const response = await fetch(`/api/threads/${activeThreadId}/turns`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message: userMessage.content }),
+        body: JSON.stringify({ message: userMessage.content, reasoning }),
       });
 
       if (!response.ok) {
         throw new Error("Failed to send message");
       }
 
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error("No response body");
+      await streamTurn(activeThreadId, response, userMessage.id);
+    } catch (error) {
+      console.error("Error:", error);
+      const errorMessage: Message = {
+        id: crypto.randomUUID(),
+        role: "assistant",
+        content: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+      };
+      setMessages((prev) => [...prev, errorMessage]);
+    } finally {
+      endTurn();
+    }
+  };
+
+  // Pick up the turn that was running when the page was reloaded
+  const resumeTurn = async (activeThreadId: string) => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/threads/${activeThreadId}`);
+      if (!response.ok) {
+        throw new Error("Failed to load thread");
+      }
+      const { thread, reasoning: savedReasoning } = (await response.json()) as {
+        thread: { turns: Turn[] };
+        reasoning: ReasoningSettings | null;
+      };
+      const running = thread.turns.findLast(
+        (turn) => turn.status === "inProgress",
+      );
+
+      // The running turn's reply is rebuilt from its replayed events
+      const history = turnsToMessages(thread.turns).filter(
+        (message) => message.role === "user" || message.turnId !== running?.id,
+      );
+      setThreadId(activeThreadId);
+      setMessages(history);
+      setReasoning(savedReasoning ?? DEFAULT_REASONING);
+      if (!running) {
+        return;
       }
 
-      const decoder = new TextDecoder();
-      let buffer = "";
-      let accumulatedContent = "";
+      const events = await fetch(`/api/threads/${activeThreadId}/events`);
+      if (!events.ok) {
+        throw new Error("The running turn can no longer be followed");
+      }
+      const userMessage = history.findLast(
+        (message) => message.turnId === running.id,
+      );
+      await streamTurn(activeThreadId, events, userMessage?.id ?? null);
+    } catch (error) {
+      console.error("Error resuming turn:", error);
+      setConnectionNotice(
+        error instanceof Error ? error.message : "Failed to resume the turn",
+      );
+    } finally {
+      sessionStorage.removeItem(ACTIVE_TURN_KEY);
+      endTurn();
+    }
+  };
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+  // Runs once, with the state of the first render; later renders must not
+  // resume the turn again
+  const resumed = useRef(false);
+  const resumeOnMount = useRef(resumeTurn);
+  useEffect(() => {
+    if (resumed.current) return;
+    resumed.current = true;
+    const activeThreadId = sessionStorage.getItem(ACTIVE_TURN_KEY);
+    if (activeThreadId) {
+      resumeOnMount.current(activeThreadId);
+    }
+  }, []);
 
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
+  /**
+   * Show a turn's events until it ends. When the connection drops mid-turn,
+   * the stream is picked up again from `/api/threads/[id]/events`, and a
+   * page reload resumes it (`resumeTurn`).
+   */
+  const streamTurn = async (
+    activeThreadId: string,
+    firstResponse: Response,
+    userMessageId: string | null,
+  ) => {
+    sessionStorage.setItem(ACTIVE_TURN_KEY, activeThreadId);
+    setIsTurnRunning(true);
 
-        for (const line of lines) {
-          if (line.startsWith("event: ")) {
-            const eventType = line.slice(7);
-            continue;
-          }
-          if (line.startsWith("data: ")) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              handleEvent(
-                data,
-                accumulatedContent,
-                (content) => {
-                  accumulatedContent = content;
-                  setStreamingContent(content);
-                },
-                setCurrentCommands,
-                setCurrentFileChanges,
-                setUserInputRequest,
-                setWorkflowPlan,
-                setStructuredWorkflow,
-              );
-            } catch {
-              // Ignore parse errors
-            }
+    const cursor: StreamCursor = { lastEventId: null, ended: false };
+    let turnId: string | undefined;
+    let stopped = false;
+    let failure: string | null = null;
+    // A retryable error is shown until the turn moves on
+    let retrying = false;
+    // Mirror of the current items: state read in this closure would be stale
+    let items: TimelineItem[] = [];
+
+    // Items are keyed by ID, as their events may interleave. A completed
+    // item replaces what was streamed of it.
+    const upsertItem = (item: TimelineItem) => {
+      items = items.some((i) => i.id === item.id)
+        ? items.map((i) => (i.id === item.id ? item : i))
+        : [...items, item];
+      setCurrentItems(items);
+    };
+    const updateItem = (
+      itemId: string,
+      update: (item: TimelineItem) => TimelineItem,
+    ) => {
+      const existing = items.find((i) => i.id === itemId);
+      if (existing) {
+        upsertItem(update(existing));
+      }
+    };
+
+    const onEvent = (event: ChatEvent) => {
+      if (retrying && event.event !== "error") {
+        retrying = false;
+        setConnectionNotice(null);
+      }
+      switch (event.event) {
+        case "turn_started": {
+          // Lets the user fork or roll back from this message later
+          const startedTurnId = event.data.turnId;
+          turnId = startedTurnId;
+          setMessages((prev) =>
+            prev.map((message) =>
+              message.id === userMessageId
+                ? { ...message, turnId: startedTurnId }
+                : message,
+            ),
+          );
+          return;
+        }
+        case "item_started":
+        case "item_completed": {
+          const { item } = event.data;
+          if (item.type !== "userMessage") {
+            upsertItem(item);
           }
+          return;
+        }
+        case "delta": {
+          const { itemId, text } = event.data;
+          updateItem(itemId, (item) =>
+            item.type === "agentMessage"
+              ? { ...item, text: item.text + text }
+              : item,
+          );
+          return;
+        }
+        case "plan_delta": {
+          const { itemId, delta } = event.data;
+          updateItem(itemId, (item) =>
+            item.type === "plan" ? { ...item, text: item.text + delta } : item,
+          );
+          return;
+        }
+        case "reasoning_summary_part_added": {
+          const { itemId, summaryIndex } = event.data;
+          updateItem(itemId, (item) =>
+            item.type === "reasoning"
+              ? {
+                  ...item,
+                  summary: appendToPart(item.summary, summaryIndex, ""),
+                }
+              : item,
+          );
+          return;
+        }
+        case "reasoning_summary_delta": {
+          const { itemId, summaryIndex, delta } = event.data;
+          updateItem(itemId, (item) =>
+            item.type === "reasoning"
+              ? {
+                  ...item,
+                  summary: appendToPart(item.summary, summaryIndex, delta),
+                }
+              : item,
+          );
+          return;
+        }
+        case "reasoning_delta": {
+          const { itemId, contentIndex, delta } = event.data;
+          updateItem(itemId, (item) =>
+            item.type === "reasoning"
+              ? {
+                  ...item,
+                  content: appendToPart(item.content, contentIndex, delta),
+                }
+              : item,
+          );
+          return;
+        }
+        case "command_output": {
+          const { itemId, delta } = event.data;
+          updateItem(itemId, (item) =>
+            item.type === "commandExecution"
+              ? {
+                  ...item,
+                  aggregatedOutput: (item.aggregatedOutput ?? "") + delta,
+                }
+              : item,
+          );
+          return;
+        }
+        case "file_change_output": {
+          const { itemId, delta } = event.data;
+          updateItem(itemId, (item) => ({
+            ...item,
+            output: (item.output ?? "") + delta,
+          }));
+          return;
         }
+        case "mcp_tool_call_progress": {
+          const { itemId, message } = event.data;
+          updateItem(itemId, (item) => ({ ...item, progress: message }));
+          return;
+        }
+        case "plan_updated":
+          setWorkflowPlan(event.data);
+          return;
+        case "workflow_output":
+          setStructuredWorkflow(event.data);
+          return;
+        case "user_input_request":
+          setUserInputRequest(event.data);
+          return;
+        case "approval_request": {
+          const request = event.data;
+          setApprovalRequests((prev) => [...prev, request]);
+          return;
+        }
+        case "request_resolved": {
+          // Answered elsewhere, or replayed after it was answered
+          const { itemId } = event.data;
+          setApprovalRequests((prev) =>
+            prev.filter((request) => request.itemId !== itemId),
+          );
+          setUserInputRequest((prev) =>
+            prev?.itemId === itemId ? null : prev,
+          );
+          return;
+        }
+        case "thread_name_updated":
+          setHistoryVersion((version) => version + 1);
+          return;
+        case "reconnecting":
+          setConnectionNotice(
+            `Codex process stopped. Reconnecting (attempt ${event.data.attempt})...`,
+          );
+          return;
+        case "reconnected":
+          setConnectionNotice(
+            "Codex process restarted. The previous turn was interrupted.",
+          );
+          return;
+        case "events_dropped":
+          setConnectionNotice(
+            "Some of this turn's output was lost while reconnecting.",
+          );
+          return;
+        case "complete":
+          return;
+        case "aborted":
+          stopped = true;
+          return;
+        case "error":
+          if (event.data.willRetry) {
+            retrying = true;
+            setConnectionNotice(`${event.data.message} Retrying...`);
+          } else {
+            failure = event.data.message;
+          }
+          return;
+        default:
+          // A new event the switch does not handle yet fails to compile
+          event satisfies never;
       }
+    };
 
-      // Finalize the message
-      if (accumulatedContent) {
-        const assistantMessage: Message = {
-          id: crypto.randomUUID(),
-          role: "assistant",
-          content: accumulatedContent,
-          commands:
-            currentCommands.length > 0 ? [...currentCommands] : undefined,
-          fileChanges:
-            currentFileChanges.length > 0 ? [...currentFileChanges] : undefined,
-        };
-        setMessages((prev) => [...prev, assistantMessage]);
-        setStreamingContent("");
+    try {
+      let response = firstResponse;
+      while (true) {
+        try {
+          await readEventStream(response, cursor, onEvent);
+        } catch (error) {
+          console.error("Turn stream interrupted:", error);
+        }
+        if (cursor.ended) break;
+
+        response = await reconnectToTurn(
+          activeThreadId,
+          cursor.lastEventId,
+          (attempt) =>
+            setConnectionNotice(
+              `Connection lost. Reconnecting (attempt ${attempt})...`,
+            ),
+        );
+        setConnectionNotice(null);
       }
-    } catch (error) {
-      console.error("Error:", error);
+    } finally {
+      sessionStorage.removeItem(ACTIVE_TURN_KEY);
+    }
+
+    // Finalize the message
+    if (items.length > 0 || stopped) {
+      const assistantMessage: Message = {
+        id: crypto.randomUUID(),
+        role: "assistant",
+        content: "",
+        turnId,
+        items,
+        stopped,
+      };
+      setMessages((prev) => [...prev, assistantMessage]);
+      setCurrentItems([]);
+    }
+    if (failure) {
       const errorMessage: Message = {
         id: crypto.randomUUID(),
         role: "assistant",
-        content: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+        content: `Error: ${failure}`,
       };
       setMessages((prev) => [...prev, errorMessage]);
+    }
+  };
+
+  const endTurn = () => {
+    setIsLoading(false);
+    setIsTurnRunning(false);
+    setIsStopping(false);
+    setCurrentItems([]);
+    // Requests of a finished turn can no longer be answered
+    setApprovalRequests([]);
+    setHistoryVersion((version) => version + 1);
+  };
+
+  const handleStop = async () => {
+    if (!threadId || !isTurnRunning || isStopping) return;
+
+    setIsStopping(true);
+    try {
+      // The stream ends with an `aborted` event once the turn has stopped
+      const response = await fetch(`/api/threads/${threadId}/interrupt`, {
+        method: "POST",
+      });
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error ?? "Failed to stop the turn");
+      }
+    } catch (error) {
+      console.error("Error stopping turn:", error);
+      setIsStopping(false);
+    }
+  };
+
+  // Lets the server stop the thread's app-server once no thread uses it
+  const closeCurrentThread = async () => {
+    if (threadId && !isArchived) {
+      await fetch(`/api/threads/${threadId}`, { method: "DELETE" }).catch(
+        (error) => console.error("Error closing thread:", error),
+      );
+    }
+  };
+
+  const handleSelectThread = async (
+    thread: ThreadSummary,
+    archived: boolean,
+  ) => {
+    if (isLoading || thread.id === threadId) return;
+
+    setIsLoading(true);
+    try {
+      // Load the full history, then resume the thread for new messages
+      const response = await fetch(`/api/threads/${thread.id}`);
+      if (!response.ok) {
+        throw new Error("Failed to load thread");
+      }
+      const { thread: loaded, reasoning: savedReasoning } =
+        (await response.json()) as {
+          thread: { turns: Turn[] };
+          reasoning: ReasoningSettings | null;
+        };
+
+      // Archived threads are only shown, not resumed
+      if (!archived) {
+        const resumed = await fetch(`/api/threads/${thread.id}/resume`, {
+          method: "POST",
+        });
+        if (!resumed.ok) {
+          throw new Error("Failed to resume thread");
+        }
+      }
+
+      await closeCurrentThread();
+      setThreadId(thread.id);
+      setIsArchived(archived);
+      setMessages(turnsToMessages(loaded.turns));
+      setCurrentItems([]);
+      setReasoning(savedReasoning ?? DEFAULT_REASONING);
+      setUserInputRequest(null);
+      setApprovalRequests([]);
+      setWorkflowPlan(null);
+      setStructuredWorkflow(null);
+      setConnectionNotice(null);
+    } catch (error) {
+      console.error("Error loading thread:", error);
+      setConnectionNotice(
+        error instanceof Error ? error.message : "Failed to load thread",
+      );
     } finally {
       setIsLoading(false);
-      setCurrentCommands([]);
-      setCurrentFileChanges([]);
     }
   };
 
   const handleNewChat = async () => {
-    await fetch("/api/chat", { method: "DELETE" });
+    await closeCurrentThread();
+    resetChat();
+  };
+
+  const resetChat = () => {
+    setThreadId(null);
+    setIsArchived(false);
     setMessages([]);
-    setStreamingContent("");
-    setCurrentCommands([]);
-    setCurrentFileChanges([]);
+    setCurrentItems([]);
+    setReasoning(DEFAULT_REASONING);
     setUserInputRequest(null);
+    setApprovalRequests([]);
     setWorkflowPlan(null);
     setStructuredWorkflow(null);
   };
 
+  const handleArchiveChange = (changedThreadId: string, archived: boolean) => {
+    // Archiving unloads the thread on the server, and a restored thread has
+    // to be selected again to be resumed
+    if (changedThreadId === threadId && archived !== isArchived) {
+      resetChat();
+    }
+  };
+
+  const handleFork = async (turnId: string) => {
+    if (!threadId || isLoading) return;
+
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/threads/${threadId}/fork`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ turnId }),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fork thread");
+      }
+      const { thread } = (await response.json()) as {
+        thread: { id: string; turns: Turn[] };
+      };
+
+      // Continue in the fork; the original thread stays as it was
+      await closeCurrentThread();
+      setThreadId(thread.id);
+      setIsArchived(false);
+      setMessages(turnsToMessages(thread.turns));
+      setCurrentItems([]);
+      setWorkflowPlan(null);
+      setStructuredWorkflow(null);
+      setConnectionNotice(null);
+      setHistoryVersion((version) => version + 1);
+    } catch (error) {
+      console.error("Error forking thread:", error);
+      setConnectionNotice(
+        error instanceof Error ? error.message : "Failed to fork thread",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRollbackRequest = async (turnId: string) => {
+    if (!threadId) return;
+    setRollbackTurnId(turnId);
+    setRollbackPreview(null);
+
+    // Dry run, to show which files would be restored
+    try {
+      const response = await fetch(`/api/threads/${threadId}/rollback`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          numTurns: turnsFrom(messages, turnId),
+          dryRun: true,
+        }),
+      });
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error ?? "Failed to check files");
+      }
+      setRollbackPreview(await response.json());
+    } catch (error) {
+      setRollbackTurnId(null);
+      setConnectionNotice(
+        error instanceof Error ? error.message : "Failed to check files",
+      );
+    }
+  };
+
+  const handleRollback = async (restoreFiles: boolean) => {
+    if (!threadId || !rollbackTurnId) return;
+    const numTurns = turnsFrom(messages, rollbackTurnId);
+    setRollbackTurnId(null);
+
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/threads/${threadId}/rollback`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ numTurns, restoreFiles }),
+      });
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error ?? "Failed to roll back thread");
+      }
+      const { thread, failed } = (await response.json()) as {
+        thread: { turns: Turn[] };
+        failed: { path: string; reason: string }[];
+      };
+
+      setMessages(turnsToMessages(thread.turns));
+      setWorkflowPlan(null);
+      setStructuredWorkflow(null);
+      // The turns are gone either way
+      setConnectionNotice(
+        failed.length > 0
+          ? `Rolled back, but these files could not be restored: ${failed.map((file) => file.path).join(", ")}`
+          : null,
+      );
+      setHistoryVersion((version) => version + 1);
+    } catch (error) {
+      console.error("Error rolling back thread:", error);
+      setConnectionNotice(
+        error instanceof Error ? error.message : "Failed to roll back thread",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleUserInputSubmit = async (answers: {
     [key: string]: { answers: string[] };
   }) => {
     if (!userInputRequest) return;
 
     try {
-      const response = await fetch("/api/chat/answer", {
+      const response = await fetch(`/api/threads/${threadId}/answer`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -217,12 +750,32 @@ export function Chat() {
     }
   };
 
+  const handleApproval = async (decision: ApprovalDecision) => {
+    const [request] = approvalRequests;
+    if (!request) return;
+    setApprovalRequests((prev) => prev.slice(1));
+
+    try {
+      const response = await fetch(`/api/threads/${threadId}/approval`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ itemId: request.itemId, decision }),
+      });
+
+      if (!response.ok) {
+        console.error("Failed to submit approval");
+      }
+    } catch (error) {
+      console.error("Error submitting approval:", error);
+    }
+  };
+
   const handleUserInputCancel = async () => {
     if (!userInputRequest) return;
 
     // Submit empty answers to cancel
     try {
-      await fetch("/api/chat/answer", {
+      await fetch(`/api/threads/${threadId}/answer`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -238,129 +791,285 @@ export function Chat() {
   };
 
   return (
-    <div className="flex h-screen flex-col bg-zinc-900">
-      {/* User Input Prompt Modal */}
-      {userInputRequest && (
-        <UserInputPrompt
-          itemId={userInputRequest.itemId}
-          questions={userInputRequest.questions}
-          onSubmit={handleUserInputSubmit}
-          onCancel={handleUserInputCancel}
-        />
-      )}
-
-      {/* Header */}
-      <header className="flex items-center justify-between border-b border-zinc-800 px-6 py-4">
-        <h1 className="text-xl font-semibold text-white">Codex Chat</h1>
-        <button
-          onClick={handleNewChat}
-          className="rounded-lg bg-zinc-800 px-4 py-2 text-sm text-zinc-300 transition-colors hover:bg-zinc-700"
-        >
-          New Chat
-        </button>
-      </header>
-
-      {/* Messages */}
-      <div className="flex-1 overflow-y-auto px-4 py-6">
-        <div className="mx-auto max-w-3xl space-y-6">
-          {messages.length === 0 && !streamingContent && (
-            <div className="flex h-full flex-col items-center justify-center py-20 text-center">
-              <div className="mb-4 text-4xl">&#x1F916;</div>
-              <h2 className="mb-2 text-xl font-medium text-white">
-                Codex Agent
-              </h2>
-              <p className="max-w-md text-zinc-400">
-                Ask me to help with coding tasks. I can read files, execute
-                commands, and make changes to your codebase.
-              </p>
-            </div>
-          )}
-
-          {/* Structured Workflow (from outputSchema) */}
-          {structuredWorkflow && (
-            <StructuredWorkflowDisplay workflow={structuredWorkflow} />
-          )}
-
-          {/* Legacy Workflow Todo Panel (from turn/plan/updated) */}
-          {!structuredWorkflow &&
-            workflowPlan &&
-            workflowPlan.plan.length > 0 && (
-              <WorkflowTodo
-                explanation={workflowPlan.explanation}
-                plan={workflowPlan.plan}
-              />
-            )}
+    <div className="flex h-screen bg-zinc-900">
+      {/* Thread history */}
+      <ThreadSidebar
+        activeThreadId={threadId}
+        refreshKey={historyVersion}
+        onSelect={handleSelectThread}
+        onArchiveChange={handleArchiveChange}
+      />
+
+      <div className="flex min-w-0 flex-1 flex-col">
+        {/* User Input Prompt Modal */}
+        {userInputRequest && (
+          <UserInputPrompt
+            itemId={userInputRequest.itemId}
+            questions={userInputRequest.questions}
+            onSubmit={handleUserInputSubmit}
+            onCancel={handleUserInputCancel}
+          />
+        )}
+
+        {/* Approval Prompt Modal - one request at a time */}
+        {!userInputRequest && approvalRequests.length > 0 && (
+          <ApprovalPrompt
+            key={approvalRequests[0].itemId}
+            request={approvalRequests[0]}
+            onDecision={handleApproval}
+          />
+        )}
+
+        {/* Rollback confirmation */}
+        {rollbackTurnId && (
+          <RollbackDialog
+            numTurns={turnsFrom(messages, rollbackTurnId)}
+            preview={rollbackPreview}
+            onConfirm={handleRollback}
+            onCancel={() => setRollbackTurnId(null)}
+          />
+        )}
+
+        {/* Header */}
+        <header className="flex items-center justify-between border-b border-zinc-800 px-6 py-4">
+          <h1 className="text-xl font-semibold text-white">Codex Chat</h1>
+          <div className="flex gap-2">
+            <Link
+              href="/settings"
+              className="rounded-lg bg-zinc-800 px-4 py-2 text-sm text-zinc-300 transition-colors hover:bg-zinc-700"
+            >
+              Settings
+            </Link>
+            <button
+              onClick={handleNewChat}
+              className="rounded-lg bg-zinc-800 px-4 py-2 text-sm text-zinc-300 transition-colors hover:bg-zinc-700"
+            >
+              New Chat
+            </button>
+          </div>
+        </header>
+
+        {/* Archived thread banner */}
+        {isArchived && (
+          <div className="border-b border-zinc-800 bg-zinc-950 px-6 py-2 text-sm text-zinc-400">
+            This thread is archived. Unarchive it from the sidebar to continue
+            the conversation.
+          </div>
+        )}
 
-          {messages.map((message) => (
-            <MessageBubble key={message.id} message={message} />
-          ))}
+        {/* Codex process restart notice */}
+        {connectionNotice && (
+          <div className="border-b border-yellow-900 bg-yellow-950/50 px-6 py-2 text-sm text-yellow-300">
+            {connectionNotice}
+          </div>
+        )}
 
-          {/* Streaming content */}
-          {streamingContent && (
-            <div className="flex gap-4">
-              <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-green-600 text-sm">
-                &#x1F916;
+        {/* Messages */}
+        <div className="flex-1 overflow-y-auto px-4 py-6">
+          <div className="mx-auto max-w-3xl space-y-6">
+            {messages.length === 0 && currentItems.length === 0 && (
+              <div className="flex h-full flex-col items-center justify-center py-20 text-center">
+                <div className="mb-4 text-4xl">&#x1F916;</div>
+                <h2 className="mb-2 text-xl font-medium text-white">
+                  Codex Agent
+                </h2>
+                <p className="max-w-md text-zinc-400">
+                  Ask me to help with coding tasks. I can read files, execute
+                  commands, and make changes to your codebase.
+                </p>
               </div>
-              <div className="flex-1">
-                <div className="prose prose-invert max-w-none">
-                  <pre className="whitespace-pre-wrap text-sm text-zinc-300">
-                    {streamingContent}
-                  </pre>
+            )}
+
+            {/* Structured Workflow (from outputSchema) */}
+            {structuredWorkflow && (
+              <StructuredWorkflowDisplay workflow={structuredWorkflow} />
+            )}
+
+            {/* Legacy Workflow Todo Panel (from turn/plan/updated) */}
+            {!structuredWorkflow &&
+              workflowPlan &&
+              workflowPlan.plan.length > 0 && (
+                <WorkflowTodo
+                  explanation={workflowPlan.explanation}
+                  plan={workflowPlan.plan}
+                />
+              )}
+
+            {messages.map((message) => (
+              <MessageBubble
+                key={message.id}
+                message={message}
+                // Only between turns, and not in archived threads
+                actionsEnabled={!isLoading && !isArchived}
+                onFork={handleFork}
+                onRollback={handleRollbackRequest}
+              />
+            ))}
+
+            {/* Items of the running turn */}
+            {currentItems.length > 0 && (
+              <div className="flex gap-4">
+                <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-green-600 text-sm">
+                  &#x1F916;
+                </div>
+                <div className="min-w-0 flex-1">
+                  <ThreadItemTimeline items={currentItems} streaming />
                 </div>
-                {currentCommands.length > 0 && (
-                  <CommandsDisplay commands={currentCommands} />
-                )}
-                {currentFileChanges.length > 0 && (
-                  <FileChangesDisplay fileChanges={currentFileChanges} />
-                )}
               </div>
-            </div>
-          )}
+            )}
 
-          {isLoading && !streamingContent && (
-            <div className="flex gap-4">
-              <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-green-600 text-sm">
-                &#x1F916;
-              </div>
-              <div className="flex items-center gap-2 text-zinc-400">
-                <LoadingDots />
-                <span>Thinking...</span>
+            {isLoading && currentItems.length === 0 && (
+              <div className="flex gap-4">
+                <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-green-600 text-sm">
+                  &#x1F916;
+                </div>
+                <div className="flex items-center gap-2 text-zinc-400">
+                  <LoadingDots />
+                  <span>Thinking...</span>
+                </div>
               </div>
-            </div>
-          )}
+            )}
 
-          <div ref={messagesEndRef} />
+            <div ref={messagesEndRef} />
+          </div>
         </div>
-      </div>
 
-      {/* Input */}
-      <div className="border-t border-zinc-800 px-4 py-4">
-        <form onSubmit={handleSubmit} className="mx-auto max-w-3xl">
-          <div className="flex gap-3">
-            <input
-              type="text"
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              placeholder="Ask Codex something..."
-              className="flex-1 rounded-lg border border-zinc-700 bg-zinc-800 px-4 py-3 text-white placeholder-zinc-500 focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500"
-              disabled={isLoading}
+        {/* Input */}
+        <div className="border-t border-zinc-800 px-4 py-4">
+          <form onSubmit={handleSubmit} className="mx-auto max-w-3xl">
+            <div className="flex gap-3">
+              <input
+                type="text"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                placeholder="Ask Codex something..."
+                className="flex-1 rounded-lg border border-zinc-700 bg-zinc-800 px-4 py-3 text-white placeholder-zinc-500 focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500"
+                disabled={isLoading || isArchived}
+              />
+              {isTurnRunning && threadId ? (
+                <button
+                  type="button"
+                  onClick={handleStop}
+                  disabled={isStopping}
+                  className="rounded-lg bg-red-600 px-6 py-3 font-medium text-white transition-colors hover:bg-red-500 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {isStopping ? "Stopping..." : "Stop"}
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={isLoading || isArchived || !input.trim()}
+                  className="rounded-lg bg-green-600 px-6 py-3 font-medium text-white transition-colors hover:bg-green-500 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  Send
+                </button>
+              )}
+            </div>
+            <ReasoningControls
+              model={model}
+              settings={reasoning}
+              disabled={isLoading || isArchived}
+              onChange={setReasoning}
             />
-            <button
-              type="submit"
-              disabled={isLoading || !input.trim()}
-              className="rounded-lg bg-green-600 px-6 py-3 font-medium text-white transition-colors hover:bg-green-500 disabled:cursor-not-allowed disabled:opacity-50"
-            >
-              Send
-            </button>
-          </div>
-        </form>
+          </form>
+        </div>
       </div>
     </div>
   );
 }
 
-function MessageBubble({ message }: { message: Message }) {
+/**
+ * Rebuild the chat messages of a stored thread: the user message of each
+ * turn, then everything the agent did in it.
+ */
+function turnsToMessages(turns: Turn[]): Message[] {
+  const messages: Message[] = [];
+
+  for (const turn of turns) {
+    const items: TimelineItem[] = [];
+
+    for (const item of turn.items) {
+      if (item.type === "userMessage") {
+        messages.push({
+          id: item.id,
+          role: "user",
+          content: userMessageText(item),
+          turnId: turn.id,
+        });
+      } else {
+        items.push(item);
+      }
+    }
+
+    const stopped = turn.status === "interrupted";
+    if (items.length > 0 || stopped) {
+      messages.push({
+        id: turn.id,
+        role: "assistant",
+        content: "",
+        turnId: turn.id,
+        items,
+        stopped,
+      });
+    }
+  }
+
+  return messages;
+}
+
+/** Append streamed text to the part at `index`, adding the parts before it */
+function appendToPart(parts: string[], index: number, delta: string): string[] {
+  const next = [...parts];
+  while (next.length <= index) {
+    next.push("");
+  }
+  next[index] += delta;
+  return next;
+}
+
+/**
+ * Number of turns from `turnId` to the end of the conversation, i.e. what
+ * has to be rolled back to undo that turn.
+ */
+function turnsFrom(messages: Message[], turnId: string): number {
+  const turnIds = messages.flatMap((message) =>
+    message.turnId ? [message.turnId] : [],
+  );
+  return new Set(turnIds.slice(turnIds.indexOf(turnId))).size;
+}
+
+function userMessageText(
+  item: Extract<ThreadItem, { type: "userMessage" }>,
+): string {
+  return item.content
+    .map((input) => {
+      switch (input.type) {
+        case "text":
+          return input.text;
+        case "image":
+          return `[image: ${input.url}]`;
+        case "localImage":
+          return `[image: ${input.path}]`;
+        default:
+          return `[${input.type}: ${input.name}]`;
+      }
+    })
+    .join("\n");
+}
+
+function MessageBubble({
+  message,
+  actionsEnabled,
+  onFork,
+  onRollback,
+}: {
+  message: Message;
+  actionsEnabled: boolean;
+  onFork: (turnId: string) => void;
+  onRollback: (turnId: string) => void;
+}) {
   const isUser = message.role === "user";
+  const { turnId } = message;
 
   return (
     <div className="flex gap-4">
@@ -371,72 +1080,40 @@ function MessageBubble({ message }: { message: Message }) {
       >
         {isUser ? "&#x1F464;" : "&#x1F916;"}
       </div>
-      <div className="flex-1">
-        <div className="prose prose-invert max-w-none">
-          <pre className="whitespace-pre-wrap text-sm text-zinc-300">
-            {message.content}
-          </pre>
-        </div>
-        {message.commands && <CommandsDisplay commands={message.commands} />}
-        {message.fileChanges && (
-          <FileChangesDisplay fileChanges={message.fileChanges} />
+      <div className="min-w-0 flex-1">
+        {message.content && (
+          <div className="prose prose-invert max-w-none">
+            <pre className="whitespace-pre-wrap text-sm text-zinc-300">
+              {message.content}
+            </pre>
+          </div>
         )}
-      </div>
-    </div>
-  );
-}
-
-function CommandsDisplay({ commands }: { commands: CommandExecution[] }) {
-  return (
-    <div className="mt-3 space-y-2">
-      {commands.map((cmd) => (
-        <div
-          key={cmd.id}
-          className="rounded-lg border border-zinc-700 bg-zinc-800/50 p-3"
-        >
-          <div className="mb-2 flex items-center gap-2 text-xs text-zinc-400">
-            <span>&#x1F4BB;</span>
-            <span>Command Execution</span>
-            {cmd.exitCode !== undefined && (
-              <span
-                className={
-                  cmd.exitCode === 0 ? "text-green-400" : "text-red-400"
-                }
+        {message.items && <ThreadItemTimeline items={message.items} />}
+        {message.stopped && (
+          <p className="mt-2 text-xs text-zinc-500">&#x23F9;&#xFE0F; Stopped</p>
+        )}
+        {turnId && actionsEnabled && (
+          <div className="mt-2 flex gap-3 text-xs text-zinc-500">
+            {isUser ? (
+              <button
+                type="button"
+                onClick={() => onRollback(turnId)}
+                className="hover:text-zinc-300"
               >
-                (exit: {cmd.exitCode})
-              </span>
+                &#x21A9;&#xFE0F; Roll back from here
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => onFork(turnId)}
+                className="hover:text-zinc-300"
+              >
+                &#x1F500; Fork from here
+              </button>
             )}
           </div>
-          {cmd.output && (
-            <pre className="overflow-x-auto text-xs text-zinc-300">
-              {cmd.output}
-            </pre>
-          )}
-        </div>
-      ))}
-    </div>
-  );
-}
-
-function FileChangesDisplay({ fileChanges }: { fileChanges: FileChange[] }) {
-  return (
-    <div className="mt-3 space-y-1">
-      {fileChanges.map((file) => (
-        <div
-          key={file.path}
-          className="flex items-center gap-2 text-xs text-zinc-400"
-        >
-          <span>&#x1F4C4;</span>
-          <span>{file.path}</span>
-          <span
-            className={
-              file.status === "complete" ? "text-green-400" : "text-yellow-400"
-            }
-          >
-            {file.status === "complete" ? "Done" : "..."}
-          </span>
-        </div>
-      ))}
+        )}
+      </div>
     </div>
   );
 }
@@ -451,107 +1128,84 @@ function LoadingDots() {
   );
 }
 
-// Event handler helper
-function handleEvent(
-  data: Record<string, unknown>,
-  currentContent: string,
-  setContent: (content: string) => void,
-  setCommands: React.Dispatch<React.SetStateAction<CommandExecution[]>>,
-  setFileChanges: React.Dispatch<React.SetStateAction<FileChange[]>>,
-  setUserInputRequest: React.Dispatch<
-    React.SetStateAction<UserInputRequest | null>
-  >,
-  setWorkflowPlan: React.Dispatch<React.SetStateAction<WorkflowPlan | null>>,
-  setStructuredWorkflow: React.Dispatch<
-    React.SetStateAction<StructuredWorkflow | null>
-  >,
+/**
+ * Read an SSE response until it closes, passing each event on and keeping
+ * track of it in `cursor`.
+ */
+async function readEventStream(
+  response: Response,
+  cursor: StreamCursor,
+  onEvent: (event: ChatEvent) => void,
 ) {
-  // Handle user input request events
-  if ("questions" in data && "itemId" in data) {
-    setUserInputRequest(data as unknown as UserInputRequest);
-    return;
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error("No response body");
   }
 
-  // Handle structured workflow output (from outputSchema)
-  if ("tasks" in data && Array.isArray(data.tasks) && "title" in data) {
-    setStructuredWorkflow(data as unknown as StructuredWorkflow);
-    return;
-  }
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let eventType = "" as ChatEventName;
 
-  // Handle plan updated events (legacy workflow todo)
-  if ("plan" in data && Array.isArray(data.plan) && !("tasks" in data)) {
-    setWorkflowPlan({
-      explanation: (data.explanation as string) || null,
-      plan: data.plan as WorkflowPlan["plan"],
-    });
-    return;
-  }
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
 
-  // Handle delta events (streaming text)
-  if ("text" in data && typeof data.text === "string") {
-    setContent(currentContent + data.text);
-    return;
-  }
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
 
-  // Handle command events
-  if ("command" in data) {
-    const cmdId = data.command as string;
-    setCommands((prev) => {
-      if (!prev.find((c) => c.id === cmdId)) {
-        return [...prev, { id: cmdId, output: "" }];
+    for (const line of lines) {
+      if (line.startsWith("id: ")) {
+        cursor.lastEventId = line.slice(4);
+        continue;
       }
-      return prev;
-    });
-    return;
-  }
-
-  if ("delta" in data && typeof data.delta === "string") {
-    setCommands((prev) => {
-      if (prev.length === 0) return prev;
-      const updated = [...prev];
-      updated[updated.length - 1] = {
-        ...updated[updated.length - 1],
-        output: updated[updated.length - 1].output + data.delta,
-      };
-      return updated;
-    });
-    return;
-  }
-
-  if ("exitCode" in data) {
-    setCommands((prev) => {
-      if (prev.length === 0) return prev;
-      const updated = [...prev];
-      updated[updated.length - 1] = {
-        ...updated[updated.length - 1],
-        exitCode: data.exitCode as number,
-      };
-      return updated;
-    });
-    return;
+      if (line.startsWith("event: ")) {
+        eventType = line.slice(7) as ChatEventName;
+        continue;
+      }
+      if (line.startsWith("data: ")) {
+        let data: unknown;
+        try {
+          data = JSON.parse(line.slice(6));
+        } catch {
+          // Ignore parse errors
+          continue;
+        }
+        // The server only sends the events of ChatEventMap
+        const event = { event: eventType, data } as ChatEvent;
+        if (endsTurn(event)) {
+          cursor.ended = true;
+        }
+        onEvent(event);
+      }
+    }
   }
+}
 
-  // Handle file change events
-  if ("paths" in data && Array.isArray(data.paths)) {
-    const paths = data.paths as string[];
-    const isComplete = "success" in data;
-    setFileChanges((prev) => {
-      const newChanges = [...prev];
-      for (const path of paths) {
-        const existing = newChanges.find((f) => f.path === path);
-        if (existing) {
-          if (isComplete) {
-            existing.status = "complete";
-          }
-        } else {
-          newChanges.push({
-            path,
-            status: isComplete ? "complete" : "pending",
-          });
-        }
+/**
+ * Open a thread's turn stream again after the connection dropped, replaying
+ * the events after `lastEventId`. Retries with a growing delay.
+ */
+async function reconnectToTurn(
+  threadId: string,
+  lastEventId: string | null,
+  onAttempt: (attempt: number) => void,
+): Promise<Response> {
+  for (let attempt = 1; attempt <= MAX_RECONNECT_ATTEMPTS; attempt++) {
+    onAttempt(attempt);
+    await new Promise((resolve) => setTimeout(resolve, attempt * 1000));
+    try {
+      const response = await fetch(`/api/threads/${threadId}/events`, {
+        headers: lastEventId ? { "Last-Event-ID": lastEventId } : {},
+      });
+      if (response.ok) {
+        return response;
       }
-      return newChanges;
-    });
-    return;
+      // The server no longer knows the thread, e.g. after a restart
+      if (response.status === 404) break;
+    } catch {
+      // Still offline
+    }
   }
+  throw new Error("Lost the connection to the turn");
 }
@@ -0,0 +1,82 @@
+"use client";
+
+import { type ReactNode, useState } from "react";
+import type {
+  CollabAgentToolCallStatus,
+  CommandExecutionStatus,
+  McpToolCallStatus,
+  PatchApplyStatus,
+} from "@/infrastructure/codex/schemas/v2";
+
+/** Status of a thread item that runs, such as a command or a tool call */
+export type ItemStatus =
+  | CommandExecutionStatus
+  | PatchApplyStatus
+  | McpToolCallStatus
+  | CollabAgentToolCallStatus;
+
+const STATUS_LABELS: Record<ItemStatus, string> = {
+  inProgress: "running",
+  completed: "done",
+  failed: "failed",
+  declined: "declined",
+};
+
+const STATUS_COLORS: Record<ItemStatus, string> = {
+  inProgress: "text-yellow-400",
+  completed: "text-green-400",
+  failed: "text-red-400",
+  declined: "text-zinc-500",
+};
+
+/**
+ * A block of the timeline with a one-line header, such as a command or a
+ * tool call, whose details open on click.
+ */
+export function Collapsible({
+  title,
+  status,
+  defaultExpanded = false,
+  children,
+}: {
+  title: ReactNode;
+  status?: ReactNode;
+  defaultExpanded?: boolean;
+  children: ReactNode;
+}) {
+  const [expanded, setExpanded] = useState(defaultExpanded);
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-zinc-700 bg-zinc-950">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        aria-expanded={expanded}
+        className="flex w-full items-center gap-2 bg-zinc-800/70 px-3 py-2 text-left text-xs hover:bg-zinc-800"
+      >
+        <span className="text-zinc-500">{expanded ? "\u25BE" : "\u25B8"}</span>
+        <span className="flex min-w-0 flex-1">{title}</span>
+        {status}
+      </button>
+      {expanded && (
+        <div className="border-t border-zinc-800 px-3 py-2">{children}</div>
+      )}
+    </div>
+  );
+}
+
+/** An item's status, followed by any detail such as an exit code */
+export function Status({
+  status,
+  children,
+}: {
+  status: ItemStatus;
+  children?: ReactNode;
+}) {
+  return (
+    <span className={STATUS_COLORS[status]}>
+      {STATUS_LABELS[status]}
+      {children}
+    </span>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import type { ThreadItem } from "@/infrastructure/codex/schemas/v2";
+import { describeCommandActions } from "./ApprovalPrompt";
+import { Collapsible, Status } from "./Collapsible";
+
+/** A command the agent ran, as its thread item */
+export type CommandExecution = Extract<
+  ThreadItem,
+  { type: "commandExecution" }
+>;
+
+/**
+ * One command as a terminal block: the command line, then its output.
+ * Running and failed commands start expanded.
+ */
+export function CommandBlock({ command }: { command: CommandExecution }) {
+  // Only worth showing when codex understood what the command does
+  const actions = command.commandActions.filter(
+    (action) => action.type !== "unknown",
+  );
+
+  return (
+    <Collapsible
+      title={
+        <code className="flex-1 truncate text-zinc-200" title={command.command}>
+          <span className="text-zinc-500">$ </span>
+          {command.command}
+        </code>
+      }
+      status={
+        <>
+          {command.durationMs !== null && (
+            <span className="text-zinc-500">
+              {formatDuration(command.durationMs)}
+            </span>
+          )}
+          <Status status={command.status}>
+            {command.exitCode !== null && ` (exit ${command.exitCode})`}
+          </Status>
+        </>
+      }
+      defaultExpanded={
+        command.status === "inProgress" || command.status === "failed"
+      }
+    >
+      <p className="mb-1 truncate text-xs text-zinc-500" title={command.cwd}>
+        in {command.cwd}
+      </p>
+      {actions.length > 0 && (
+        <ul className="mb-1 text-xs text-zinc-500">
+          {describeCommandActions(actions).map(({ key, text }) => (
+            <li key={key}>{text}</li>
+          ))}
+        </ul>
+      )}
+      {command.aggregatedOutput ? (
+        <pre className="max-h-80 overflow-auto font-mono text-xs text-zinc-300">
+          {command.aggregatedOutput}
+        </pre>
+      ) : (
+        <p className="text-xs text-zinc-600">
+          {command.status === "inProgress"
+            ? "Waiting for output..."
+            : "No output"}
+        </p>
+      )}
+    </Collapsible>
+  );
+}
+
+export function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import type { AllowPrefixRule } from "@/app/api/_lib/exec-policy";
+import { InlineEditInput } from "./InlineEditInput";
+
+export function ExecPolicySettings() {
+  const [rules, setRules] = useState<AllowPrefixRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/exec-policy");
+      if (!response.ok) {
+        throw new Error("Failed to load rules");
+      }
+      const { rules } = (await response.json()) as {
+        rules: AllowPrefixRule[];
+      };
+      setRules(rules);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const handleUpdate = async (rule: AllowPrefixRule, prefix: string[]) => {
+    const response = await fetch(`/api/exec-policy/${rule.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ prefix }),
+    });
+    if (!response.ok) {
+      const { error } = await response.json();
+      setError(error ?? "Failed to update rule");
+      return;
+    }
+    const { rule: updated } = (await response.json()) as {
+      rule: AllowPrefixRule;
+    };
+    setRules((prev) =>
+      prev.map((entry) => (entry.id === updated.id ? updated : entry)),
+    );
+  };
+
+  const handleRevoke = async (rule: AllowPrefixRule) => {
+    const response = await fetch(`/api/exec-policy/${rule.id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      setError("Failed to revoke rule");
+      return;
+    }
+    setRules((prev) => prev.filter((entry) => entry.id !== rule.id));
+  };
+
+  // Rules grouped by workspace, in the order they were first allowed
+  const workspaces = new Map<string, AllowPrefixRule[]>();
+  for (const rule of rules) {
+    workspaces.set(rule.cwd, [...(workspaces.get(rule.cwd) ?? []), rule]);
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-900">
+      <header className="flex items-center justify-between border-b border-zinc-800 px-6 py-4">
+        <h1 className="text-xl font-semibold text-white">Settings</h1>
+        <Link
+          href="/"
+          className="rounded-lg bg-zinc-800 px-4 py-2 text-sm text-zinc-300 transition-colors hover:bg-zinc-700"
+        >
+          &larr; Back to chat
+        </Link>
+      </header>
+
+      <main className="mx-auto max-w-3xl px-4 py-6">
+        <h2 className="text-lg font-medium text-white">
+          Always allowed commands
+        </h2>
+        <p className="mt-1 text-sm text-zinc-400">
+          Commands starting with these prefixes run without asking in their
+          workspace. Revoked prefixes ask for approval again.
+        </p>
+
+        {error && <p className="mt-4 text-sm text-red-400">{error}</p>}
+
+        {!isLoading && !error && rules.length === 0 && (
+          <p className="mt-6 text-sm text-zinc-500">
+            No allowed prefixes yet. Choose &ldquo;Always allow&rdquo; in an
+            approval prompt to add one.
+          </p>
+        )}
+
+        {[...workspaces].map(([cwd, workspaceRules]) => (
+          <section
+            key={cwd}
+            className="mt-6 rounded-lg border border-zinc-700 bg-zinc-800/50"
+          >
+            <h3
+              className="truncate border-b border-zinc-700 px-4 py-3 text-sm text-zinc-300"
+              title={cwd}
+            >
+              &#x1F4C1; {cwd}
+            </h3>
+            <ul className="divide-y divide-zinc-800">
+              {workspaceRules.map((rule) => (
+                <AllowPrefixEntry
+                  key={rule.id}
+                  rule={rule}
+                  onUpdate={(prefix) => handleUpdate(rule, prefix)}
+                  onRevoke={() => handleRevoke(rule)}
+                />
+              ))}
+            </ul>
+          </section>
+        ))}
+      </main>
+    </div>
+  );
+}
+
+function AllowPrefixEntry({
+  rule,
+  onUpdate,
+  onRevoke,
+}: {
+  rule: AllowPrefixRule;
+  onUpdate: (prefix: string[]) => void;
+  onRevoke: () => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+
+  const finishEditing = (value: string) => {
+    setIsEditing(false);
+    const prefix = value.split(/\s+/).filter(Boolean);
+    if (prefix.length > 0 && prefix.join(" ") !== rule.prefix.join(" ")) {
+      onUpdate(prefix);
+    }
+  };
+
+  return (
+    <li className="flex items-center gap-3 px-4 py-3">
+      {isEditing ? (
+        <InlineEditInput
+          initialValue={rule.prefix.join(" ")}
+          onSave={finishEditing}
+          onCancel={() => setIsEditing(false)}
+          mono
+          className="flex-1"
+        />
+      ) : (
+        <code className="flex-1 truncate text-sm text-green-300">
+          {rule.prefix.join(" ")} &hellip;
+        </code>
+      )}
+      <span className="text-xs text-zinc-500">
+        {new Date(rule.createdAt).toLocaleDateString()}
+      </span>
+      {!isEditing && (
+        <button
+          type="button"
+          onClick={() => setIsEditing(true)}
+          className="rounded px-2 py-1 text-xs text-zinc-400 hover:bg-zinc-700 hover:text-white"
+        >
+          Edit
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={onRevoke}
+        className="rounded px-2 py-1 text-xs text-red-400 hover:bg-zinc-700 hover:text-red-300"
+      >
+        Revoke
+      </button>
+    </li>
+  );
+}
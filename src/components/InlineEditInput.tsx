@@ -0,0 +1,54 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+/**
+ * A one-line field replacing a value being edited in place. Enter saves;
+ * leaving the field or Escape cancels.
+ */
+export function InlineEditInput({
+  initialValue,
+  onSave,
+  onCancel,
+  mono = false,
+  className,
+}: {
+  initialValue: string;
+  onSave: (value: string) => void;
+  onCancel: () => void;
+  /** Show the value in a monospace font, e.g. for commands */
+  mono?: boolean;
+  /** Classes of the form around the field */
+  className?: string;
+}) {
+  const [draft, setDraft] = useState(initialValue);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Only shown once the user asked to edit
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave(draft);
+      }}
+      className={className}
+    >
+      <input
+        ref={inputRef}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={onCancel}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") onCancel();
+        }}
+        className={`w-full rounded border border-zinc-700 bg-zinc-900 px-2 py-1 text-sm text-white focus:border-green-500 focus:outline-none ${
+          mono ? "font-mono" : ""
+        }`}
+      />
+    </form>
+  );
+}
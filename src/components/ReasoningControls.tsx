@@ -0,0 +1,97 @@
+"use client";
+
+import type { ReasoningSettings } from "@/app/api/_lib/codex";
+import type {
+  ReasoningEffort,
+  ReasoningSummary,
+} from "@/infrastructure/codex/schemas";
+import type { Model } from "@/infrastructure/codex/schemas/v2";
+
+interface ReasoningControlsProps {
+  /** Model turns run with; its efforts are offered once it has loaded */
+  model: Model | null;
+  settings: ReasoningSettings;
+  disabled: boolean;
+  onChange: (settings: ReasoningSettings) => void;
+}
+
+const SUMMARY_OPTIONS: { value: ReasoningSummary; label: string }[] = [
+  { value: "auto", label: "Auto" },
+  { value: "concise", label: "Concise" },
+  { value: "detailed", label: "Detailed" },
+  { value: "none", label: "None" },
+];
+
+/**
+ * Reasoning effort and summary verbosity of the thread's next turns.
+ * "Default" leaves them to the model.
+ */
+export function ReasoningControls({
+  model,
+  settings,
+  disabled,
+  onChange,
+}: ReasoningControlsProps) {
+  const efforts = model?.supportedReasoningEfforts ?? [];
+  // Keep showing a chosen effort that the model does not list
+  const unlisted =
+    settings.effort &&
+    !efforts.some((option) => option.reasoningEffort === settings.effort)
+      ? settings.effort
+      : null;
+
+  return (
+    <div className="mt-2 flex flex-wrap gap-4 text-xs text-zinc-400">
+      <label className="flex items-center gap-2">
+        Reasoning effort
+        <select
+          value={settings.effort ?? ""}
+          onChange={(e) =>
+            onChange({
+              ...settings,
+              effort: (e.target.value || null) as ReasoningEffort | null,
+            })
+          }
+          disabled={disabled}
+          className="rounded border border-zinc-700 bg-zinc-800 px-2 py-1 text-zinc-300 disabled:opacity-50"
+        >
+          <option value="">
+            Default
+            {model ? ` (${model.defaultReasoningEffort})` : ""}
+          </option>
+          {efforts.map((option) => (
+            <option
+              key={option.reasoningEffort}
+              value={option.reasoningEffort}
+              title={option.description}
+            >
+              {option.reasoningEffort}
+            </option>
+          ))}
+          {unlisted && <option value={unlisted}>{unlisted}</option>}
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        Thinking summary
+        <select
+          value={settings.summary ?? ""}
+          onChange={(e) =>
+            onChange({
+              ...settings,
+              summary: (e.target.value || null) as ReasoningSummary | null,
+            })
+          }
+          disabled={disabled}
+          className="rounded border border-zinc-700 bg-zinc-800 px-2 py-1 text-zinc-300 disabled:opacity-50"
+        >
+          <option value="">Default</option>
+          {SUMMARY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
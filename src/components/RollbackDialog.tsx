@@ -0,0 +1,127 @@
+"use client";
+
+import { useState } from "react";
+
+export interface RollbackPreview {
+  files: { path: string; action: "restore" | "create" | "delete" }[];
+  conflicts: { path: string; reason: string }[];
+}
+
+interface RollbackDialogProps {
+  numTurns: number;
+  /** Dry run of the file restoration, null while it loads */
+  preview: RollbackPreview | null;
+  onConfirm: (restoreFiles: boolean) => void;
+  onCancel: () => void;
+}
+
+const ACTION_LABELS = {
+  restore: "Restore",
+  create: "Recreate",
+  delete: "Delete",
+};
+
+export function RollbackDialog({
+  numTurns,
+  preview,
+  onConfirm,
+  onCancel,
+}: RollbackDialogProps) {
+  const [restoreFiles, setRestoreFiles] = useState(true);
+  const hasConflicts = (preview?.conflicts.length ?? 0) > 0;
+  // Files cannot be restored while some of them were edited since
+  const willRestore = restoreFiles && !hasConflicts;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="mx-4 w-full max-w-lg rounded-lg bg-zinc-800 p-6">
+        <h2 className="mb-4 text-xl font-semibold text-white">
+          Roll back {numTurns} {numTurns === 1 ? "turn" : "turns"}?
+        </h2>
+
+        <p className="text-zinc-300">
+          The last {numTurns === 1 ? "turn is" : `${numTurns} turns are`}{" "}
+          removed from the conversation history.
+        </p>
+
+        {!preview ? (
+          <p className="mt-4 text-sm text-zinc-400">Checking files...</p>
+        ) : (
+          <>
+            {preview.files.length > 0 && (
+              <label className="mt-4 flex items-center gap-2 text-sm text-zinc-300">
+                <input
+                  type="checkbox"
+                  checked={willRestore}
+                  disabled={hasConflicts}
+                  onChange={(e) => setRestoreFiles(e.target.checked)}
+                />
+                Undo the file changes made in{" "}
+                {numTurns === 1 ? "this turn" : "these turns"}
+              </label>
+            )}
+
+            {preview.files.length > 0 && (
+              <ul
+                className={`mt-2 max-h-40 space-y-1 overflow-y-auto text-xs ${
+                  willRestore ? "text-zinc-300" : "text-zinc-500 line-through"
+                }`}
+              >
+                {preview.files.map((file) => (
+                  <li key={file.path} className="flex gap-2">
+                    <span className="w-16 shrink-0 text-zinc-400">
+                      {ACTION_LABELS[file.action]}
+                    </span>
+                    <span className="truncate" title={file.path}>
+                      {file.path}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {hasConflicts && (
+              <div className="mt-4 rounded-lg border border-yellow-900 bg-yellow-950/50 p-3 text-sm text-yellow-300">
+                &#x26A0;&#xFE0F; These files were edited after the agent changed
+                them, so the changes cannot be undone automatically:
+                <ul className="mt-2 space-y-1 text-xs">
+                  {preview.conflicts.map((conflict) => (
+                    <li key={conflict.path}>
+                      {conflict.path} {conflict.reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {!willRestore && (
+              <div className="mt-4 rounded-lg border border-yellow-900 bg-yellow-950/50 p-3 text-sm text-yellow-300">
+                &#x26A0;&#xFE0F; Files changed by the agent in these turns are{" "}
+                <strong>not</strong> reverted. Undo them yourself (e.g. with
+                git) if needed.
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="mt-6 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-lg bg-zinc-700 px-4 py-2 text-white hover:bg-zinc-600"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(willRestore)}
+            disabled={!preview}
+            className="rounded-lg bg-red-600 px-4 py-2 text-white hover:bg-red-500 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Roll back
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
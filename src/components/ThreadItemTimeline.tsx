@@ -0,0 +1,352 @@
+"use client";
+
+import { useState } from "react";
+import type { JsonValue } from "@/infrastructure/codex/schemas/serde_json/JsonValue";
+import type {
+  ThreadItem,
+  WebSearchAction,
+} from "@/infrastructure/codex/schemas/v2";
+import { FileChangeDiff } from "./ApprovalPrompt";
+import { Collapsible, Status } from "./Collapsible";
+import { CommandBlock, formatDuration } from "./CommandBlock";
+
+/**
+ * An item the agent produced in a turn, as far as it has streamed. The user's
+ * message is shown as its own bubble instead.
+ */
+export type TimelineItem = Exclude<ThreadItem, { type: "userMessage" }> & {
+  /** Latest `item/mcpToolCall/progress` message of a running tool call */
+  progress?: string;
+  /** Output of applying a file change (`item/fileChange/outputDelta`) */
+  output?: string;
+};
+
+type ItemOf<T extends TimelineItem["type"]> = Extract<
+  TimelineItem,
+  { type: T }
+>;
+
+/**
+ * Everything the agent did in a turn, in the order it happened. The turn's
+ * reasoning is gathered in one thinking section at the top.
+ */
+export function ThreadItemTimeline({
+  items,
+  streaming = false,
+}: {
+  items: TimelineItem[];
+  /** The turn is still running */
+  streaming?: boolean;
+}) {
+  const reasoning = items.filter(
+    (item): item is ItemOf<"reasoning"> => item.type === "reasoning",
+  );
+
+  return (
+    <div className="space-y-3">
+      {reasoning.length > 0 && (
+        <ThinkingPanel items={reasoning} active={streaming} />
+      )}
+      {items.map((item) => (
+        <ThreadItemView key={item.id} item={item} />
+      ))}
+    </div>
+  );
+}
+
+function ThreadItemView({ item }: { item: TimelineItem }) {
+  switch (item.type) {
+    case "agentMessage":
+      return <AgentMessageItem item={item} />;
+    case "plan":
+      return <PlanItem item={item} />;
+    case "reasoning":
+      // Shown in the turn's thinking section
+      return null;
+    case "commandExecution":
+      return <CommandBlock command={item} />;
+    case "fileChange":
+      return <FileChangeItem item={item} />;
+    case "mcpToolCall":
+      return <McpToolCallItem item={item} />;
+    case "collabAgentToolCall":
+      return <CollabAgentToolCallItem item={item} />;
+    case "webSearch":
+      return <WebSearchItem item={item} />;
+    case "imageView":
+      return <ImageViewItem item={item} />;
+    case "enteredReviewMode":
+    case "exitedReviewMode":
+      return <ReviewModeItem item={item} />;
+    case "contextCompaction":
+      return <ContextCompactionItem />;
+    default:
+      // A new item type the switch does not handle yet fails to compile
+      item satisfies never;
+      return null;
+  }
+}
+
+function AgentMessageItem({ item }: { item: ItemOf<"agentMessage"> }) {
+  if (!item.text) {
+    return null;
+  }
+  return (
+    <div className="prose prose-invert max-w-none">
+      <pre className="whitespace-pre-wrap text-sm text-zinc-300">
+        {item.text}
+      </pre>
+    </div>
+  );
+}
+
+function PlanItem({ item }: { item: ItemOf<"plan"> }) {
+  return (
+    <div className="rounded-lg border border-blue-900 bg-blue-950/30 p-3">
+      <p className="mb-1 text-xs font-medium text-blue-300">&#x1F4CB; Plan</p>
+      <pre className="whitespace-pre-wrap text-sm text-zinc-300">
+        {item.text || "..."}
+      </pre>
+    </div>
+  );
+}
+
+/**
+ * The reasoning of a turn. Open while the turn runs, unless the user closed
+ * it, so that summary parts can be read as they stream.
+ */
+function ThinkingPanel({
+  items,
+  active,
+}: {
+  items: ItemOf<"reasoning">[];
+  active: boolean;
+}) {
+  const [expanded, setExpanded] = useState<boolean | null>(null);
+  const isExpanded = expanded ?? active;
+  // Raw reasoning is only shown for items without a summary of it
+  const parts = items
+    .flatMap((item) =>
+      (item.summary.length > 0 ? item.summary : item.content).map(
+        (text, index) => ({ key: `${item.id}:${index}`, text }),
+      ),
+    )
+    .filter((part) => part.text.trim());
+  const latest = parts.at(-1)?.text;
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-zinc-800">
+      <button
+        type="button"
+        onClick={() => setExpanded(!isExpanded)}
+        aria-expanded={isExpanded}
+        className="flex w-full items-center gap-2 px-3 py-2 text-left text-xs text-zinc-400 hover:bg-zinc-800/50"
+      >
+        <span className="text-zinc-500">
+          {isExpanded ? "\u25BE" : "\u25B8"}
+        </span>
+        <span>&#x1F4AD; {active ? "Thinking..." : "Thought"}</span>
+        {!isExpanded && latest && (
+          <span className="min-w-0 flex-1 truncate text-zinc-500">
+            {splitSummaryPart(latest).title ?? latest}
+          </span>
+        )}
+      </button>
+      {isExpanded && (
+        <div className="space-y-3 border-t border-zinc-800 px-3 py-2 text-sm text-zinc-400">
+          {parts.map((part) => {
+            const { title, body } = splitSummaryPart(part.text);
+            return (
+              <div key={part.key}>
+                {title && <p className="font-medium text-zinc-300">{title}</p>}
+                {body && <p className="whitespace-pre-wrap">{body}</p>}
+              </div>
+            );
+          })}
+          {parts.length === 0 && <p className="text-zinc-500">...</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function FileChangeItem({ item }: { item: ItemOf<"fileChange"> }) {
+  const paths = item.changes.map((change) => change.path);
+  return (
+    <Collapsible
+      title={
+        <span className="truncate text-zinc-200" title={paths.join("\n")}>
+          &#x1F4C4; {paths.length === 1 ? paths[0] : `${paths.length} files`}
+        </span>
+      }
+      status={<Status status={item.status} />}
+      defaultExpanded={item.status === "failed"}
+    >
+      <div className="space-y-2">
+        {item.changes.map((change) => (
+          <FileChangeDiff key={change.path} change={change} />
+        ))}
+        {item.output && (
+          <pre className="max-h-40 overflow-auto font-mono text-xs text-zinc-400">
+            {item.output}
+          </pre>
+        )}
+      </div>
+    </Collapsible>
+  );
+}
+
+function McpToolCallItem({ item }: { item: ItemOf<"mcpToolCall"> }) {
+  return (
+    <Collapsible
+      title={
+        <code className="truncate text-zinc-200">
+          &#x1F50C; {item.server}.{item.tool}
+        </code>
+      }
+      status={
+        <>
+          {item.durationMs !== null && (
+            <span className="text-zinc-500">
+              {formatDuration(item.durationMs)}
+            </span>
+          )}
+          <Status status={item.status} />
+        </>
+      }
+      defaultExpanded={item.status === "failed"}
+    >
+      <div className="space-y-2 text-xs">
+        {item.status === "inProgress" && item.progress && (
+          <p className="text-yellow-300">{item.progress}</p>
+        )}
+        <div>
+          <p className="mb-1 text-zinc-500">Arguments</p>
+          <pre className="max-h-40 overflow-auto font-mono text-zinc-300">
+            {JSON.stringify(item.arguments, null, 2)}
+          </pre>
+        </div>
+        {item.error && <p className="text-red-400">{item.error.message}</p>}
+        {item.result && (
+          <div>
+            <p className="mb-1 text-zinc-500">Result</p>
+            <pre className="max-h-80 overflow-auto font-mono text-zinc-300">
+              {item.result.content.map(contentText).join("\n") ||
+                JSON.stringify(item.result.structuredContent, null, 2)}
+            </pre>
+          </div>
+        )}
+      </div>
+    </Collapsible>
+  );
+}
+
+function CollabAgentToolCallItem({
+  item,
+}: {
+  item: ItemOf<"collabAgentToolCall">;
+}) {
+  return (
+    <Collapsible
+      title={
+        <span className="text-zinc-200">&#x1F91D; Agent: {item.tool}</span>
+      }
+      status={<Status status={item.status} />}
+    >
+      <div className="space-y-1 text-xs text-zinc-400">
+        {item.receiverThreadIds.length > 0 && (
+          <p>To {item.receiverThreadIds.join(", ")}</p>
+        )}
+        {item.prompt && (
+          <pre className="whitespace-pre-wrap text-zinc-300">{item.prompt}</pre>
+        )}
+      </div>
+    </Collapsible>
+  );
+}
+
+function WebSearchItem({ item }: { item: ItemOf<"webSearch"> }) {
+  return (
+    <p className="text-xs text-zinc-400">
+      &#x1F50D; {describeWebSearch(item.query, item.action)}
+    </p>
+  );
+}
+
+function ImageViewItem({ item }: { item: ItemOf<"imageView"> }) {
+  return (
+    <p className="truncate text-xs text-zinc-400" title={item.path}>
+      &#x1F5BC;&#xFE0F; Viewed image {item.path}
+    </p>
+  );
+}
+
+function ReviewModeItem({
+  item,
+}: {
+  item: ItemOf<"enteredReviewMode" | "exitedReviewMode">;
+}) {
+  const entered = item.type === "enteredReviewMode";
+  return (
+    <div className="rounded-lg border border-purple-900 bg-purple-950/30 p-3">
+      <p className="mb-1 text-xs font-medium text-purple-300">
+        {entered ? "Started a review" : "Review finished"}
+      </p>
+      {item.review && (
+        <pre className="whitespace-pre-wrap text-sm text-zinc-300">
+          {item.review}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+function ContextCompactionItem() {
+  return (
+    <div className="flex items-center gap-3 text-xs text-zinc-500">
+      <span className="h-px flex-1 bg-zinc-800" />
+      Earlier context was summarized to save space
+      <span className="h-px flex-1 bg-zinc-800" />
+    </div>
+  );
+}
+
+function describeWebSearch(
+  query: string,
+  action: WebSearchAction | null,
+): string {
+  switch (action?.type) {
+    case "openPage":
+      return `Opened ${action.url ?? "a page"}`;
+    case "findInPage":
+      return `Searched ${action.url ?? "a page"} for ${action.pattern ?? "text"}`;
+    case "search":
+      return `Searched the web for ${action.queries?.join(", ") || action.query || query}`;
+    default:
+      return `Searched the web for ${query}`;
+  }
+}
+
+// Summary parts usually start with a bold title: `**Title**\n\nBody`
+function splitSummaryPart(part: string): {
+  title: string | null;
+  body: string;
+} {
+  const match = part.match(/^\*\*(.+?)\*\*\s*/);
+  return match
+    ? { title: match[1], body: part.slice(match[0].length) }
+    : { title: null, body: part };
+}
+
+// MCP content blocks are usually `{ type: "text", text }`
+function contentText(block: JsonValue): string {
+  if (
+    block &&
+    typeof block === "object" &&
+    !Array.isArray(block) &&
+    typeof block.text === "string"
+  ) {
+    return block.text;
+  }
+  return JSON.stringify(block, null, 2);
+}
@@ -0,0 +1,269 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Thread, ThreadSortKey } from "@/infrastructure/codex/schemas/v2";
+import { InlineEditInput } from "./InlineEditInput";
+
+/** A listed thread, with the name it was given in this app */
+export type ThreadSummary = Thread & { name: string | null };
+
+interface ThreadSidebarProps {
+  activeThreadId: string | null;
+  /** Change to reload the first page (e.g. after a turn) */
+  refreshKey: number;
+  onSelect: (thread: ThreadSummary, archived: boolean) => void;
+  /** A thread was archived or restored */
+  onArchiveChange: (threadId: string, archived: boolean) => void;
+}
+
+const PAGE_SIZE = 20;
+
+export function ThreadSidebar({
+  activeThreadId,
+  refreshKey,
+  onSelect,
+  onArchiveChange,
+}: ThreadSidebarProps) {
+  const [threads, setThreads] = useState<ThreadSummary[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [sortKey, setSortKey] = useState<ThreadSortKey>("updated_at");
+  const [showArchived, setShowArchived] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = useCallback(
+    async (cursor: string | null) => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const query = new URLSearchParams({
+          sortKey,
+          limit: String(PAGE_SIZE),
+        });
+        if (cursor) {
+          query.set("cursor", cursor);
+        }
+        if (showArchived) {
+          query.set("archived", "true");
+        }
+        const response = await fetch(`/api/threads?${query}`);
+        if (!response.ok) {
+          throw new Error("Failed to load threads");
+        }
+        const page = (await response.json()) as {
+          threads: ThreadSummary[];
+          nextCursor: string | null;
+        };
+        setThreads((prev) =>
+          cursor ? [...prev, ...page.threads] : page.threads,
+        );
+        setNextCursor(page.nextCursor);
+      } catch (error) {
+        setError(error instanceof Error ? error.message : "Unknown error");
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [sortKey, showArchived],
+  );
+
+  useEffect(() => {
+    loadPage(null);
+  }, [loadPage]);
+
+  // Reload when the parent asks; the first load is the one above
+  const loadedRefreshKey = useRef(refreshKey);
+  useEffect(() => {
+    if (refreshKey !== loadedRefreshKey.current) {
+      loadedRefreshKey.current = refreshKey;
+      loadPage(null);
+    }
+  }, [loadPage, refreshKey]);
+
+  const handleRename = async (thread: ThreadSummary, name: string) => {
+    const response = await fetch(`/api/threads/${thread.id}/name`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name }),
+    });
+    if (!response.ok) {
+      setError("Failed to rename thread");
+      return;
+    }
+    setThreads((prev) =>
+      prev.map((entry) =>
+        entry.id === thread.id ? { ...entry, name } : entry,
+      ),
+    );
+  };
+
+  const handleArchive = async (thread: ThreadSummary) => {
+    const response = await fetch(`/api/threads/${thread.id}/archive`, {
+      // DELETE restores an archived thread
+      method: showArchived ? "DELETE" : "POST",
+    });
+    if (!response.ok) {
+      const { error } = await response.json();
+      setError(error ?? "Failed to update thread");
+      return;
+    }
+    setThreads((prev) => prev.filter((entry) => entry.id !== thread.id));
+    onArchiveChange(thread.id, !showArchived);
+  };
+
+  return (
+    <aside className="flex w-72 shrink-0 flex-col border-r border-zinc-800 bg-zinc-950">
+      <div className="flex items-center justify-between border-b border-zinc-800 px-4 py-4">
+        <h2 className="text-sm font-semibold text-zinc-300">
+          {showArchived ? "Archived" : "History"}
+        </h2>
+        <select
+          value={sortKey}
+          onChange={(e) => setSortKey(e.target.value as ThreadSortKey)}
+          className="rounded border border-zinc-700 bg-zinc-800 px-2 py-1 text-xs text-zinc-300"
+        >
+          <option value="updated_at">Last updated</option>
+          <option value="created_at">Created</option>
+        </select>
+      </div>
+
+      <div className="flex-1 overflow-y-auto py-2">
+        {threads.map((thread) => (
+          <ThreadEntry
+            key={thread.id}
+            thread={thread}
+            isActive={thread.id === activeThreadId}
+            isArchived={showArchived}
+            onSelect={() => onSelect(thread, showArchived)}
+            onRename={(name) => handleRename(thread, name)}
+            onArchive={() => handleArchive(thread)}
+          />
+        ))}
+
+        {error && <p className="px-4 py-2 text-xs text-red-400">{error}</p>}
+
+        {!isLoading && !error && threads.length === 0 && (
+          <p className="px-4 py-2 text-xs text-zinc-500">
+            {showArchived ? "No archived threads" : "No threads yet"}
+          </p>
+        )}
+
+        {nextCursor && (
+          <button
+            type="button"
+            onClick={() => loadPage(nextCursor)}
+            disabled={isLoading}
+            className="mx-4 my-2 w-[calc(100%-2rem)] rounded-lg bg-zinc-800 py-2 text-xs text-zinc-300 transition-colors hover:bg-zinc-700 disabled:opacity-50"
+          >
+            {isLoading ? "Loading..." : "Load more"}
+          </button>
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => setShowArchived((prev) => !prev)}
+        className="border-t border-zinc-800 px-4 py-3 text-left text-xs text-zinc-400 transition-colors hover:bg-zinc-900"
+      >
+        {showArchived ? (
+          <>&larr; Back to history</>
+        ) : (
+          <>&#x1F4E6; Archived threads</>
+        )}
+      </button>
+    </aside>
+  );
+}
+
+function ThreadEntry({
+  thread,
+  isActive,
+  isArchived,
+  onSelect,
+  onRename,
+  onArchive,
+}: {
+  thread: ThreadSummary;
+  isActive: boolean;
+  isArchived: boolean;
+  onSelect: () => void;
+  onRename: (name: string) => void;
+  onArchive: () => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const { gitInfo } = thread;
+  const title = thread.name || thread.preview || "Untitled thread";
+
+  const finishEditing = (value: string) => {
+    setIsEditing(false);
+    const name = value.trim();
+    if (name && name !== thread.name) {
+      onRename(name);
+    }
+  };
+
+  return (
+    <div
+      className={`group relative transition-colors hover:bg-zinc-800 ${
+        isActive ? "bg-zinc-800" : ""
+      }`}
+    >
+      {isEditing ? (
+        <InlineEditInput
+          initialValue={thread.name ?? thread.preview}
+          onSave={finishEditing}
+          onCancel={() => setIsEditing(false)}
+          className="px-4 py-3"
+        />
+      ) : (
+        <button
+          type="button"
+          onClick={onSelect}
+          className={`block w-full px-4 py-3 text-left ${
+            isArchived ? "opacity-70" : ""
+          }`}
+        >
+          <div className="truncate pr-16 text-sm text-zinc-200">{title}</div>
+          <div className="mt-1 text-xs text-zinc-500">
+            {new Date(thread.updatedAt * 1000).toLocaleString()}
+          </div>
+          <div
+            className="mt-1 truncate text-xs text-zinc-500"
+            title={thread.cwd}
+          >
+            {thread.cwd}
+          </div>
+          {gitInfo && (gitInfo.branch || gitInfo.sha) && (
+            <div className="mt-1 truncate text-xs text-zinc-500">
+              &#x1F33F; {gitInfo.branch ?? "detached"}
+              {gitInfo.sha && ` @ ${gitInfo.sha.slice(0, 7)}`}
+            </div>
+          )}
+        </button>
+      )}
+
+      {!isEditing && (
+        <div className="absolute right-2 top-2 hidden gap-1 group-hover:flex">
+          {!isArchived && (
+            <button
+              type="button"
+              onClick={() => setIsEditing(true)}
+              title="Rename"
+              className="rounded px-1.5 py-0.5 text-xs text-zinc-400 hover:bg-zinc-700 hover:text-white"
+            >
+              &#x270F;&#xFE0F;
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onArchive}
+            title={isArchived ? "Unarchive" : "Archive"}
+            className="rounded px-1.5 py-0.5 text-xs text-zinc-400 hover:bg-zinc-700 hover:text-white"
+          >
+            {isArchived ? <>&#x21A9;&#xFE0F;</> : <>&#x1F4E6;</>}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
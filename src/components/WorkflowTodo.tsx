@@ -1,27 +1,16 @@
 "use client";
 
+import type {
+  StructuredTask,
+  StructuredWorkflow,
+} from "@/app/api/_lib/workflow";
+
 // Legacy plan step from turn/plan/updated
 interface PlanStep {
   step: string;
   status: "pending" | "inProgress" | "completed";
 }
 
-// Structured workflow output from outputSchema
-export interface StructuredWorkflow {
-  title: string;
-  description?: string;
-  tasks: StructuredTask[];
-}
-
-export interface StructuredTask {
-  id: string;
-  executor: "AI" | "HUMAN";
-  description: string;
-  output?: string[];
-  depends?: string[];
-  status?: "pending" | "inProgress" | "completed";
-}
-
 // Internal parsed step for display
 interface ParsedStep {
   id?: string;
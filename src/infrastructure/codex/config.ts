@@ -0,0 +1,94 @@
+import path from "node:path";
+
+import type { CodexAppServerOptions } from "./index";
+import type { ConfigOverrideValue, StdioTransportOptions } from "./transport";
+
+// ============================================================================
+// Environment Configuration
+// ============================================================================
+
+/**
+ * Read CodexAppServer options from environment variables.
+ *
+ * - `CODEX_APP_SERVER_BIN` - codex executable, e.g. `node_modules/.bin/codex`
+ *   to use the pinned `@openai/codex` build (relative paths are resolved
+ *   against the current directory)
+ * - `CODEX_APP_SERVER_ARGS` - whitespace separated arguments
+ *   (default: `app-server`)
+ * - `CODEX_APP_SERVER_CWD` - working directory of the app-server
+ * - `CODEX_APP_SERVER_HOME` - `CODEX_HOME` for the app-server
+ * - `CODEX_APP_SERVER_CONFIG` - JSON object of `-c key=value` overrides
+ * - `CODEX_APP_SERVER_REQUEST_TIMEOUT_MS` - default request timeout
+ * - `CODEX_APP_SERVER_TRACE` - JSONL file to record the protocol trace to
+ * - `CODEX_APP_SERVER_STRICT` - `1` to validate inbound messages (`strict`)
+ *
+ * Other variables such as `OPENAI_API_KEY` or `CODEX_HOME` are inherited by the
+ * app-server process as-is.
+ */
+export function codexAppServerOptionsFromEnv(
+  env: Record<string, string | undefined> = process.env,
+): CodexAppServerOptions {
+  const spawn: StdioTransportOptions = {};
+
+  if (env.CODEX_APP_SERVER_BIN) {
+    spawn.command = resolveCommand(env.CODEX_APP_SERVER_BIN);
+  }
+  if (env.CODEX_APP_SERVER_ARGS) {
+    spawn.args = env.CODEX_APP_SERVER_ARGS.split(/\s+/).filter(Boolean);
+  }
+  if (env.CODEX_APP_SERVER_CWD) {
+    spawn.cwd = path.resolve(env.CODEX_APP_SERVER_CWD);
+  }
+  if (env.CODEX_APP_SERVER_HOME) {
+    spawn.codexHome = path.resolve(env.CODEX_APP_SERVER_HOME);
+  }
+  if (env.CODEX_APP_SERVER_CONFIG) {
+    spawn.config = parseConfigOverrides(env.CODEX_APP_SERVER_CONFIG);
+  }
+
+  const options: CodexAppServerOptions = { spawn };
+
+  if (env.CODEX_APP_SERVER_REQUEST_TIMEOUT_MS) {
+    const timeoutMs = Number(env.CODEX_APP_SERVER_REQUEST_TIMEOUT_MS);
+    if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+      throw new Error(
+        "CODEX_APP_SERVER_REQUEST_TIMEOUT_MS must be a positive number",
+      );
+    }
+    options.requestTimeoutMs = timeoutMs;
+  }
+  if (env.CODEX_APP_SERVER_TRACE) {
+    options.tracePath = path.resolve(env.CODEX_APP_SERVER_TRACE);
+  }
+  if (env.CODEX_APP_SERVER_STRICT === "1") {
+    options.strict = true;
+  }
+
+  return options;
+}
+
+/**
+ * Resolve path-like commands up front; spawn would otherwise resolve them
+ * against the app-server `cwd`. Bare names are looked up on PATH.
+ */
+function resolveCommand(command: string): string {
+  return command.includes("/") || command.includes("\\")
+    ? path.resolve(command)
+    : command;
+}
+
+function parseConfigOverrides(
+  value: string,
+): Record<string, ConfigOverrideValue> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error("CODEX_APP_SERVER_CONFIG must be valid JSON");
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("CODEX_APP_SERVER_CONFIG must be a JSON object");
+  }
+  return parsed as Record<string, ConfigOverrideValue>;
+}
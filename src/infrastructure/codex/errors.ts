@@ -0,0 +1,50 @@
+// ============================================================================
+// Request Errors
+// ============================================================================
+
+/**
+ * Thrown when a request does not receive a response within its timeout.
+ */
+export class CodexRequestTimeoutError extends Error {
+  readonly method: string;
+  readonly timeoutMs: number;
+
+  constructor(method: string, timeoutMs: number) {
+    super(`Request ${method} timed out after ${timeoutMs}ms`);
+    this.name = "CodexRequestTimeoutError";
+    this.method = method;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Thrown when a request is cancelled through its `AbortSignal`.
+ */
+export class CodexRequestAbortedError extends Error {
+  readonly method: string;
+  readonly reason: unknown;
+
+  constructor(method: string, reason?: unknown) {
+    super(`Request ${method} was aborted`);
+    this.name = "CodexRequestAbortedError";
+    this.method = method;
+    this.reason = reason;
+  }
+}
+
+// ============================================================================
+// Pool Errors
+// ============================================================================
+
+/**
+ * Thrown when the pool is at capacity and every instance is in use.
+ */
+export class CodexPoolExhaustedError extends Error {
+  readonly maxInstances: number;
+
+  constructor(maxInstances: number) {
+    super(`All ${maxInstances} Codex app-server instances are in use`);
+    this.name = "CodexPoolExhaustedError";
+    this.maxInstances = maxInstances;
+  }
+}
@@ -1,6 +1,3 @@
-import { spawn } from "child_process";
-import type { ChildProcess } from "node:child_process";
-import readline from "node:readline";
 import { EventEmitter } from "node:events";
 
 import type {
@@ -59,8 +56,84 @@ import type {
   FileChangeRequestApprovalResponse,
   ToolRequestUserInputParams,
   ToolRequestUserInputResponse,
+  ThreadCompactStartParams,
+  ThreadCompactStartResponse,
+  ThreadLoadedListParams,
+  ThreadLoadedListResponse,
+  CancelLoginAccountParams,
+  CancelLoginAccountResponse,
+  LogoutAccountResponse,
+  SkillsRemoteReadParams,
+  SkillsRemoteReadResponse,
+  SkillsRemoteWriteParams,
+  SkillsRemoteWriteResponse,
+  SkillsConfigWriteParams,
+  SkillsConfigWriteResponse,
+  AppsListParams,
+  AppsListResponse,
+  McpServerOauthLoginParams,
+  McpServerOauthLoginResponse,
+  McpServerRefreshResponse,
+  ListMcpServerStatusParams,
+  ListMcpServerStatusResponse,
+  FeedbackUploadParams,
+  FeedbackUploadResponse,
+  ConfigValueWriteParams,
+  ConfigBatchWriteParams,
+  ConfigWriteResponse,
+  ConfigRequirementsReadResponse,
 } from "./schemas/v2";
 
+import { CodexRequestAbortedError, CodexRequestTimeoutError } from "./errors";
+import {
+  type CodexMiddleware,
+  type InboundResponse,
+  type OutboundRequest,
+  runMiddleware,
+} from "./middleware";
+import { TraceRecorder } from "./trace";
+import {
+  type ProtocolMessageKind,
+  type ProtocolMismatchEvent,
+  SCHEMA_VERSION,
+  type ValidationIssue,
+  validateNotification,
+  validateResponse,
+  validateServerRequest,
+} from "./validation";
+import {
+  StdioTransport,
+  type StdioTransportOptions,
+  type Transport,
+  type TransportCloseInfo,
+} from "./transport";
+
+export {
+  CodexPoolExhaustedError,
+  CodexRequestAbortedError,
+  CodexRequestTimeoutError,
+} from "./errors";
+export { codexAppServerOptionsFromEnv } from "./config";
+export {
+  type CodexAppServerLease,
+  CodexAppServerPool,
+  type CodexAppServerPoolOptions,
+} from "./pool";
+export type {
+  CodexMiddleware,
+  InboundNotification,
+  InboundResponse,
+  InboundServerRequest,
+  OutboundRequest,
+} from "./middleware";
+export { readTrace, type TraceDirection, type TraceEntry } from "./trace";
+export {
+  type ProtocolMismatchEvent,
+  SCHEMA_VERSION,
+  type ValidationIssue,
+} from "./validation";
+export * from "./transport";
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -84,6 +157,21 @@ interface PendingRequest<T = unknown> {
   resolve: (value: T) => void;
   reject: (error: Error) => void;
   method: string;
+  /** Clears the timeout and abort listener attached to the request */
+  cleanup?: () => void;
+}
+
+/** Per-request options */
+export interface RequestOptions {
+  /** Reject with `CodexRequestTimeoutError` if no response arrives in time */
+  timeoutMs?: number;
+  /** Reject with `CodexRequestAbortedError` when the signal aborts */
+  signal?: AbortSignal;
+  /**
+   * `turn/start` only: send `turn/interrupt` for the started turn when the
+   * signal aborts, until the turn completes.
+   */
+  interruptOnAbort?: boolean;
 }
 
 /** Type-safe method-to-params/response mapping */
@@ -116,6 +204,14 @@ interface MethodMap {
     params: ThreadSetNameParams;
     response: ThreadSetNameResponse;
   };
+  "thread/compact/start": {
+    params: ThreadCompactStartParams;
+    response: ThreadCompactStartResponse;
+  };
+  "thread/loaded/list": {
+    params: ThreadLoadedListParams;
+    response: ThreadLoadedListResponse;
+  };
 
   // Turn operations (v2)
   "turn/start": { params: TurnStartParams; response: TurnStartResponse };
@@ -129,8 +225,11 @@ interface MethodMap {
     params: LoginAccountParams;
     response: LoginAccountResponse;
   };
-  "account/login/cancel": { params: undefined; response: unknown };
-  "account/logout": { params: undefined; response: unknown };
+  "account/login/cancel": {
+    params: CancelLoginAccountParams;
+    response: CancelLoginAccountResponse;
+  };
+  "account/logout": { params: undefined; response: LogoutAccountResponse };
   "account/read": { params: GetAccountParams; response: GetAccountResponse };
   "account/rateLimits/read": {
     params: undefined;
@@ -140,18 +239,117 @@ interface MethodMap {
   // Model & Skills
   "model/list": { params: ModelListParams; response: ModelListResponse };
   "skills/list": { params: SkillsListParams; response: SkillsListResponse };
+  "skills/remote/read": {
+    params: SkillsRemoteReadParams;
+    response: SkillsRemoteReadResponse;
+  };
+  "skills/remote/write": {
+    params: SkillsRemoteWriteParams;
+    response: SkillsRemoteWriteResponse;
+  };
+  "skills/config/write": {
+    params: SkillsConfigWriteParams;
+    response: SkillsConfigWriteResponse;
+  };
+
+  // Apps
+  "app/list": { params: AppsListParams; response: AppsListResponse };
+
+  // MCP servers
+  "mcpServer/oauth/login": {
+    params: McpServerOauthLoginParams;
+    response: McpServerOauthLoginResponse;
+  };
+  "config/mcpServer/reload": {
+    params: undefined;
+    response: McpServerRefreshResponse;
+  };
+  "mcpServerStatus/list": {
+    params: ListMcpServerStatusParams;
+    response: ListMcpServerStatusResponse;
+  };
 
   // Commands & Review
   "command/exec": { params: CommandExecParams; response: CommandExecResponse };
   "review/start": { params: ReviewStartParams; response: ReviewStartResponse };
 
+  // Feedback
+  "feedback/upload": {
+    params: FeedbackUploadParams;
+    response: FeedbackUploadResponse;
+  };
+
   // Configuration
   "config/read": { params: ConfigReadParams; response: ConfigReadResponse };
+  "config/value/write": {
+    params: ConfigValueWriteParams;
+    response: ConfigWriteResponse;
+  };
+  "config/batchWrite": {
+    params: ConfigBatchWriteParams;
+    response: ConfigWriteResponse;
+  };
+  "configRequirements/read": {
+    params: undefined;
+    response: ConfigRequirementsReadResponse;
+  };
 }
 
 /** Extract method names from MethodMap */
 type MethodName = keyof MethodMap;
 
+/** Legacy (v1) client request methods that are intentionally not mapped */
+type LegacyClientRequestMethod =
+  | "newConversation"
+  | "getConversationSummary"
+  | "listConversations"
+  | "resumeConversation"
+  | "forkConversation"
+  | "archiveConversation"
+  | "sendUserMessage"
+  | "sendUserTurn"
+  | "interruptConversation"
+  | "addConversationListener"
+  | "removeConversationListener"
+  | "gitDiffToRemote"
+  | "loginApiKey"
+  | "loginChatGpt"
+  | "cancelLoginChatGpt"
+  | "logoutChatGpt"
+  | "getAuthStatus"
+  | "getUserSavedConfig"
+  | "setDefaultModel"
+  | "getUserAgent"
+  | "userInfo"
+  | "fuzzyFileSearch"
+  | "execOneOffCommand";
+
+/** ClientRequest methods missing from MethodMap - must stay `never` */
+type UnmappedClientRequestMethod = Exclude<
+  ClientRequest["method"],
+  MethodName | LegacyClientRequestMethod
+>;
+
+/** MethodMap entries whose params disagree with the generated ClientRequest */
+type MismatchedMethodParams = {
+  [M in MethodName]: Extract<
+    ClientRequest,
+    { method: M }
+  >["params"] extends MethodMap[M]["params"]
+    ? never
+    : M;
+}[MethodName];
+
+/**
+ * Compile-time coverage check: fails to type-check when the generated schemas
+ * gain a ClientRequest variant that MethodMap does not map (or maps with the
+ * wrong params). The error message names the offending methods.
+ */
+type AssertNever<T extends never> = T;
+export type MethodMapCoverage = AssertNever<
+  UnmappedClientRequestMethod | MismatchedMethodParams
+>;
+
 /** Server request handler type */
 type ServerRequestHandler<T extends ServerRequest["method"]> = (
   params: Extract<ServerRequest, { method: T }>["params"],
@@ -168,13 +366,127 @@ interface ServerRequestResponseMap {
   execCommandApproval: unknown;
 }
 
+/** Automatic respawn (reconnect) settings for the transport */
+export interface RespawnOptions {
+  /** Maximum consecutive respawn attempts before giving up (default: 5) */
+  maxAttempts?: number;
+  /** Delay before the first attempt in milliseconds (default: 500) */
+  initialDelayMs?: number;
+  /** Upper bound for the backoff delay in milliseconds (default: 30000) */
+  maxDelayMs?: number;
+  /** Factor applied to the delay after each failed attempt (default: 2) */
+  backoffMultiplier?: number;
+}
+
+/** Options for creating a CodexAppServer */
+export interface CodexAppServerOptions {
+  /**
+   * Connection to the app-server (default: `codex app-server` over stdio).
+   */
+  transport?: Transport;
+  /**
+   * How to spawn the default stdio app-server: binary path, args, `cwd`,
+   * `env`, `CODEX_HOME` and `-c` config overrides. Ignored with `transport`.
+   */
+  spawn?: StdioTransportOptions;
+  /**
+   * Respawn `codex app-server` (or reconnect the transport) when the
+   * connection dies. `true` enables respawn with default settings.
+   */
+  respawn?: boolean | RespawnOptions;
+  /** Default timeout for requests that do not set `timeoutMs` */
+  requestTimeoutMs?: number;
+  /**
+   * Append every inbound and outbound JSON-RPC message, with timestamp and
+   * direction, to this JSONL file.
+   */
+  tracePath?: string;
+  /**
+   * Validate inbound notifications, server requests and responses against the
+   * generated schemas and emit a `protocol-mismatch` event for each message
+   * that does not match. Messages are still delivered.
+   */
+  strict?: boolean;
+  /** Middleware installed before anything is sent; see `use` */
+  middleware?: CodexMiddleware[];
+}
+
+/** Versions on both ends of the protocol */
+export interface ProtocolInfo {
+  /** `userAgent` the app-server reported in `initialize` (null before it) */
+  userAgent: string | null;
+  /** Codex version the generated schemas come from */
+  schemaVersion: string;
+}
+
+/** Payload of the `reconnecting` event */
+export interface ReconnectingEvent {
+  attempt: number;
+  delayMs: number;
+  code: number | null;
+  signal: NodeJS.Signals | null;
+}
+
+/** Payload of the `reconnected` event */
+export interface ReconnectedEvent {
+  attempt: number;
+  resumedThreadIds: string[];
+  failedThreadIds: string[];
+}
+
+/** Payload of the `reconnectFailed` event */
+export interface ReconnectFailedEvent {
+  attempts: number;
+  error: Error;
+}
+
+/** Payload of the `requestAbandoned` event */
+export interface RequestAbandonedEvent {
+  id: RequestId;
+  method: string;
+  error: CodexRequestTimeoutError | CodexRequestAbortedError;
+}
+
+/**
+ * Payload of the `requestNotSent` event, for a request that went through the
+ * request middleware but never reached the transport
+ */
+export interface RequestNotSentEvent {
+  id: RequestId;
+  method: string;
+  error: Error;
+}
+
 /** Event handler callback type */
 type EventHandler<T extends EventMsg["type"]> = (
   event: Extract<EventMsg, { type: T }>,
 ) => void;
 
-/** Notification handler callback type - uses unknown for safer runtime handling */
-type NotificationHandler = (params: unknown) => void;
+/** Server notification method names */
+export type NotificationMethod = ServerNotification["method"];
+
+/** Params of the server notification with the given method */
+export type NotificationParams<M extends NotificationMethod> = Extract<
+  ServerNotification,
+  { method: M }
+>["params"];
+
+/** Notification handler callback type */
+type NotificationHandler<M extends NotificationMethod> = (
+  params: NotificationParams<M>,
+) => void;
+
+/** Notification methods whose params belong to a thread */
+export type ThreadNotificationMethod = Extract<
+  ServerNotification,
+  { params: { threadId: string } }
+>["method"];
+
+/** Restricts a notification handler to one thread and optionally one turn */
+export interface NotificationScope {
+  threadId: string;
+  turnId?: string;
+}
 
 // ============================================================================
 // CodexAppServer Class
@@ -183,7 +495,8 @@ type NotificationHandler = (params: unknown) => void;
 /**
  * Type-safe singleton client for Codex App Server.
  *
- * Provides bidirectional JSON-RPC 2.0 communication over stdio with the Codex CLI.
+ * Provides bidirectional JSON-RPC 2.0 communication with the Codex CLI over a
+ * pluggable `Transport` (stdio by default, or TCP, WebSocket and in-memory).
  *
  * @example
  * ```ts
@@ -211,46 +524,92 @@ type NotificationHandler = (params: unknown) => void;
  *   input: [{ type: "text", text: "Hello!", text_elements: [] }],
  * });
  * ```
+ *
+ * When created with `respawn` enabled, a dead child process is restarted with
+ * exponential backoff. The client re-runs `initialize` with the original
+ * `ClientInfo`/capabilities and resumes every loaded thread, emitting
+ * `reconnecting`, `reconnected` and `reconnectFailed` events along the way.
+ * Server request handlers live on the client and stay registered.
+ *
+ * Requests given up on because of `timeoutMs` or an aborted `signal` are
+ * reported as `requestAbandoned` events; their late responses are dropped.
+ * Requests that could not be sent at all are reported as `requestNotSent`.
+ *
+ * With `strict` enabled, inbound messages are checked against the generated
+ * schemas and mismatches are reported as `protocol-mismatch` events, which
+ * helps spot a CLI whose protocol has drifted from `schemas/`.
  */
 export class CodexAppServer extends EventEmitter {
   private static instance: CodexAppServer | null = null;
 
-  private process: ChildProcess;
-  private reader: readline.Interface;
+  private readonly transport: Transport;
+  private readonly trace: TraceRecorder | null;
+  private readonly strict: boolean;
+  private userAgent: string | null = null;
+  private middleware: CodexMiddleware[];
+  // Inbound messages wait here while async middleware runs, to keep their order
+  private inboundQueue: Promise<void> = Promise.resolve();
+  private queuedInbound = 0;
   private requestId = 0;
   private pendingRequests = new Map<RequestId, PendingRequest>();
+  // Requests that timed out or were aborted, with an optional handler for a late result
+  private abandonedRequests = new Map<
+    RequestId,
+    ((result: unknown) => void) | null
+  >();
+  private readonly requestTimeoutMs: number | undefined;
   private serverRequestHandlers = new Map<
     string,
     ServerRequestHandler<never>
   >();
   private initialized = false;
-
-  private constructor() {
+  private disposed = false;
+  // Bumped whenever the process goes away; server requests belong to one
+  private connection = 0;
+
+  // Session state replayed after a respawn
+  private readonly respawnOptions: Required<RespawnOptions> | null;
+  private initializeParams: InitializeParams | null = null;
+  private loadedThreads = new Map<string, ThreadResumeParams>();
+  private reconnecting = false;
+  private respawnTimer: NodeJS.Timeout | null = null;
+
+  private constructor(options: CodexAppServerOptions = {}) {
     super();
 
-    this.process = spawn("codex", ["app-server"], {
-      stdio: ["pipe", "pipe", "inherit"],
-    });
-
-    if (!this.process.stdout || !this.process.stdin) {
-      throw new Error("Failed to create stdio pipes for Codex process");
-    }
-
-    this.reader = readline.createInterface({ input: this.process.stdout });
-    this.setupLineHandler();
-    this.setupProcessHandlers();
+    this.respawnOptions = resolveRespawnOptions(options.respawn);
+    this.requestTimeoutMs = options.requestTimeoutMs;
+    this.strict = options.strict ?? false;
+    this.middleware = [...(options.middleware ?? [])];
+    this.trace = options.tracePath
+      ? new TraceRecorder(options.tracePath)
+      : null;
+
+    this.transport = options.transport ?? new StdioTransport(options.spawn);
+    this.setupTransportHandlers();
+    this.transport.open();
   }
 
   /**
    * Get the singleton instance of CodexAppServer.
+   *
+   * @param options - Applied only when the instance is first created
    */
-  static getInstance(): CodexAppServer {
+  static getInstance(options?: CodexAppServerOptions): CodexAppServer {
     if (!CodexAppServer.instance) {
-      CodexAppServer.instance = new CodexAppServer();
+      CodexAppServer.instance = new CodexAppServer(options);
     }
     return CodexAppServer.instance;
   }
 
+  /**
+   * Create a standalone CodexAppServer with its own app-server connection and
+   * handlers, independent of the singleton. See `CodexAppServerPool`.
+   */
+  static create(options?: CodexAppServerOptions): CodexAppServer {
+    return new CodexAppServer(options);
+  }
+
   /**
    * Reset the singleton instance (primarily for testing).
    */
@@ -276,11 +635,11 @@ export class CodexAppServer extends EventEmitter {
       throw new Error("CodexAppServer is already initialized");
     }
 
-    const response = await this.request("initialize", {
-      clientInfo,
-      capabilities,
-    });
+    const params: InitializeParams = { clientInfo, capabilities };
+    const response = await this.request("initialize", params);
 
+    this.initializeParams = params;
+    this.userAgent = response.userAgent;
     this.initialized = true;
     return response;
   }
@@ -292,16 +651,55 @@ export class CodexAppServer extends EventEmitter {
     return this.initialized;
   }
 
+  /**
+   * Get the app-server `userAgent` and the schema version this client was
+   * generated from.
+   */
+  getProtocolInfo(): ProtocolInfo {
+    return { userAgent: this.userAgent, schemaVersion: SCHEMA_VERSION };
+  }
+
+  /**
+   * Check if the connection to the app-server is open.
+   */
+  isAlive(): boolean {
+    return this.transport.isOpen();
+  }
+
+  /**
+   * Get the IDs of threads that will be resumed after a respawn.
+   */
+  getLoadedThreadIds(): string[] {
+    return [...this.loadedThreads.keys()];
+  }
+
+  /**
+   * Check if the client has been disposed.
+   */
+  isDisposed(): boolean {
+    return this.disposed;
+  }
+
   /**
    * Dispose the Codex process and clean up resources.
    */
   dispose(): void {
-    this.reader.close();
-    this.process.stdin?.end();
-    this.process.kill();
+    this.disposed = true;
+    if (this.respawnTimer) {
+      clearTimeout(this.respawnTimer);
+      this.respawnTimer = null;
+    }
+    this.transport.close();
+    this.transport.removeAllListeners();
+    this.trace?.close();
+    for (const pending of this.pendingRequests.values()) {
+      pending.cleanup?.();
+    }
     this.pendingRequests.clear();
+    this.abandonedRequests.clear();
     this.serverRequestHandlers.clear();
     this.removeAllListeners();
+    this.loadedThreads.clear();
     this.initialized = false;
   }
 
@@ -314,33 +712,117 @@ export class CodexAppServer extends EventEmitter {
    *
    * @param method - The JSON-RPC method name
    * @param params - The method parameters
+   * @param options - Timeout and cancellation options
    * @returns Promise resolving to the response
+   * @throws CodexRequestTimeoutError if `timeoutMs` elapses first
+   * @throws CodexRequestAbortedError if `signal` aborts first
    */
   async request<M extends MethodName>(
     method: M,
     params: MethodMap[M]["params"],
+    options: RequestOptions = {},
   ): Promise<MethodMap[M]["response"]> {
+    const { signal, interruptOnAbort = false } = options;
+    const timeoutMs = options.timeoutMs ?? this.requestTimeoutMs;
+    const interruptTurn = interruptOnAbort && method === "turn/start";
+
+    if (signal?.aborted) {
+      throw new CodexRequestAbortedError(method, signal.reason);
+    }
+
     const id = this.nextRequestId();
 
-    const message: {
-      method: M;
-      id: RequestId;
-      params: MethodMap[M]["params"];
-    } = {
-      method,
-      id,
-      params,
-    };
+    let message: OutboundRequest = { method, id, params };
+    if (this.middleware.some((entry) => entry.request)) {
+      const outbound = await runMiddleware(this.middleware, "request", message);
+      message = { ...(outbound ?? message), id };
+
+      if (signal?.aborted) {
+        const error = new CodexRequestAbortedError(method, signal.reason);
+        this.emit("requestNotSent", {
+          id,
+          method: message.method,
+          error,
+        } satisfies RequestNotSentEvent);
+        throw error;
+      }
+    }
 
-    return new Promise((resolve, reject) => {
-      this.pendingRequests.set(id, {
-        resolve: resolve as (value: unknown) => void,
-        reject,
-        method,
-      });
+    const response = await new Promise<MethodMap[M]["response"]>(
+      (resolve, reject) => {
+        let timer: NodeJS.Timeout | null = null;
+
+        const cleanup = () => {
+          if (timer) {
+            clearTimeout(timer);
+          }
+          signal?.removeEventListener("abort", onAbort);
+        };
+
+        // Give up on the request but remember its id so a late response is not
+        // reported as unknown (and a late turn can still be interrupted)
+        const abandon = (
+          error: CodexRequestTimeoutError | CodexRequestAbortedError,
+        ) => {
+          if (!this.pendingRequests.delete(id)) {
+            return;
+          }
+          cleanup();
+          this.abandonedRequests.set(
+            id,
+            interruptTurn && error instanceof CodexRequestAbortedError
+              ? (result) => this.interruptStartedTurn(params, result)
+              : null,
+          );
+          this.emit("requestAbandoned", {
+            id,
+            method: message.method,
+            error,
+          } satisfies RequestAbandonedEvent);
+          reject(error);
+        };
+
+        const onAbort = () => {
+          abandon(new CodexRequestAbortedError(method, signal?.reason));
+        };
+
+        this.pendingRequests.set(id, {
+          resolve: resolve as (value: unknown) => void,
+          reject,
+          method: message.method,
+          cleanup,
+        });
+
+        if (timeoutMs !== undefined) {
+          timer = setTimeout(() => {
+            abandon(new CodexRequestTimeoutError(method, timeoutMs));
+          }, timeoutMs);
+        }
+        signal?.addEventListener("abort", onAbort, { once: true });
+
+        try {
+          this.send(message);
+        } catch (error) {
+          this.pendingRequests.delete(id);
+          cleanup();
+          // E.g. while the transport is reconnecting
+          this.emit("requestNotSent", {
+            id,
+            method: message.method,
+            error: error instanceof Error ? error : new Error(String(error)),
+          } satisfies RequestNotSentEvent);
+          reject(error);
+        }
+      },
+    );
 
-      this.send(message);
-    });
+    this.trackLoadedThread(method, params, response);
+
+    if (interruptTurn && signal) {
+      this.interruptTurnOnAbort(params, response, signal);
+    }
+
+    return response;
   }
 
   /**
@@ -353,6 +835,24 @@ export class CodexAppServer extends EventEmitter {
     this.send({ method, params });
   }
 
+  // --------------------------------------------------------------------------
+  // Middleware
+  // --------------------------------------------------------------------------
+
+  /**
+   * Add middleware around requests, responses, notifications and server
+   * requests. Middleware runs in the order it was added, in both directions.
+   * Inbound messages keep their order while async middleware runs.
+   *
+   * @returns Function that removes the middleware
+   */
+  use(middleware: CodexMiddleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      this.middleware = this.middleware.filter((entry) => entry !== middleware);
+    };
+  }
+
   // --------------------------------------------------------------------------
   // Event Handlers
   // --------------------------------------------------------------------------
@@ -385,13 +885,13 @@ export class CodexAppServer extends EventEmitter {
    * @param handler - The notification handler callback
    * @returns Unsubscribe function
    */
-  onNotification(
-    method: ServerNotification["method"],
-    handler: NotificationHandler,
+  onNotification<M extends NotificationMethod>(
+    method: M,
+    handler: NotificationHandler<M>,
   ): () => void {
     const wrappedHandler = (notification: ServerNotification) => {
       if (notification.method === method) {
-        handler(notification.params);
+        handler(notification.params as NotificationParams<M>);
       }
     };
 
@@ -399,6 +899,30 @@ export class CodexAppServer extends EventEmitter {
     return () => this.off("notification", wrappedHandler);
   }
 
+  /**
+   * Register a handler for a server notification scoped to a thread, and
+   * optionally to a single turn of that thread.
+   *
+   * The turn is matched against `turnId`, or `turn.id` for
+   * `turn/started` / `turn/completed`.
+   *
+   * @param method - The notification method
+   * @param scope - The thread (and turn) to listen to
+   * @param handler - The notification handler callback
+   * @returns Unsubscribe function
+   */
+  onThreadNotification<M extends ThreadNotificationMethod>(
+    method: M,
+    scope: NotificationScope,
+    handler: NotificationHandler<M>,
+  ): () => void {
+    return this.onNotification(method, (params) => {
+      if (matchesScope(params, scope)) {
+        handler(params);
+      }
+    });
+  }
+
   /**
    * Register a handler for server requests (approval workflows).
    *
@@ -442,11 +966,75 @@ export class CodexAppServer extends EventEmitter {
     return this.request("thread/resume", params);
   }
 
+  /**
+   * List stored threads, one page at a time.
+   */
+  async listThreads(
+    params: ThreadListParams = {},
+  ): Promise<ThreadListResponse> {
+    return this.request("thread/list", params);
+  }
+
+  /**
+   * Read a stored thread, optionally with its turns and their items.
+   */
+  async readThread(
+    threadId: string,
+    includeTurns = false,
+  ): Promise<ThreadReadResponse> {
+    return this.request("thread/read", { threadId, includeTurns });
+  }
+
+  /**
+   * Fork a stored thread into a new thread with the same history.
+   */
+  async forkThread(params: ThreadForkParams): Promise<ThreadForkResponse> {
+    return this.request("thread/fork", params);
+  }
+
+  /**
+   * Drop the last turns of a thread from its history. Local file changes
+   * made in those turns are not reverted.
+   */
+  async rollbackThread(
+    threadId: string,
+    numTurns: number,
+  ): Promise<ThreadRollbackResponse> {
+    return this.request("thread/rollback", { threadId, numTurns });
+  }
+
+  /**
+   * Rename a thread. The server confirms with `thread/name/updated`.
+   */
+  async setThreadName(
+    threadId: string,
+    name: string,
+  ): Promise<ThreadSetNameResponse> {
+    return this.request("thread/name/set", { threadId, name });
+  }
+
+  /**
+   * Archive a thread. Archived threads are only listed with `archived: true`.
+   */
+  async archiveThread(threadId: string): Promise<ThreadArchiveResponse> {
+    return this.request("thread/archive", { threadId });
+  }
+
+  /**
+   * Restore an archived thread.
+   */
+  async unarchiveThread(threadId: string): Promise<ThreadUnarchiveResponse> {
+    return this.request("thread/unarchive", { threadId });
+  }
+
   /**
    * Start a new turn in a thread.
    */
-  async startTurn(params: TurnStartParams): Promise<TurnStartResponse> {
-    return this.request("turn/start", params);
+  async startTurn(
+    params: TurnStartParams,
+    options?: RequestOptions,
+  ): Promise<TurnStartResponse> {
+    return this.request("turn/start", params, options);
   }
 
   /**
@@ -456,12 +1044,16 @@ export class CodexAppServer extends EventEmitter {
     threadId: string,
     text: string,
     options?: Omit<TurnStartParams, "threadId" | "input">,
+    requestOptions?: RequestOptions,
   ): Promise<TurnStartResponse> {
-    return this.startTurn({
-      threadId,
-      input: [{ type: "text", text, text_elements: [] }],
-      ...options,
-    });
+    return this.startTurn(
+      {
+        threadId,
+        input: [{ type: "text", text, text_elements: [] }],
+        ...options,
+      },
+      requestOptions,
+    );
   }
 
   /**
@@ -506,10 +1098,124 @@ export class CodexAppServer extends EventEmitter {
   /**
    * Logout from the current account.
    */
-  async logout(): Promise<unknown> {
+  async logout(): Promise<LogoutAccountResponse> {
     return this.request("account/logout", undefined);
   }
 
+  /**
+   * Cancel a pending ChatGPT login flow.
+   */
+  async cancelLogin(loginId: string): Promise<CancelLoginAccountResponse> {
+    return this.request("account/login/cancel", { loginId });
+  }
+
+  /**
+   * Compact the context of a thread.
+   */
+  async compactThread(threadId: string): Promise<ThreadCompactStartResponse> {
+    return this.request("thread/compact/start", { threadId });
+  }
+
+  /**
+   * List the IDs of threads currently loaded in memory.
+   */
+  async listLoadedThreads(
+    params: ThreadLoadedListParams = {},
+  ): Promise<ThreadLoadedListResponse> {
+    return this.request("thread/loaded/list", params);
+  }
+
+  /**
+   * List remote skills available for download.
+   */
+  async listRemoteSkills(): Promise<SkillsRemoteReadResponse> {
+    return this.request("skills/remote/read", {});
+  }
+
+  /**
+   * Download a remote skill.
+   */
+  async writeRemoteSkill(
+    params: SkillsRemoteWriteParams,
+  ): Promise<SkillsRemoteWriteResponse> {
+    return this.request("skills/remote/write", params);
+  }
+
+  /**
+   * Enable or disable a skill.
+   */
+  async writeSkillConfig(
+    params: SkillsConfigWriteParams,
+  ): Promise<SkillsConfigWriteResponse> {
+    return this.request("skills/config/write", params);
+  }
+
+  /**
+   * List available apps.
+   */
+  async listApps(params: AppsListParams = {}): Promise<AppsListResponse> {
+    return this.request("app/list", params);
+  }
+
+  /**
+   * Start the OAuth login flow for an MCP server.
+   */
+  async loginMcpServer(
+    params: McpServerOauthLoginParams,
+  ): Promise<McpServerOauthLoginResponse> {
+    return this.request("mcpServer/oauth/login", params);
+  }
+
+  /**
+   * Reload MCP servers from the configuration.
+   */
+  async reloadMcpServers(): Promise<McpServerRefreshResponse> {
+    return this.request("config/mcpServer/reload", undefined);
+  }
+
+  /**
+   * List MCP servers and their status.
+   */
+  async listMcpServerStatus(
+    params: ListMcpServerStatusParams = {},
+  ): Promise<ListMcpServerStatusResponse> {
+    return this.request("mcpServerStatus/list", params);
+  }
+
+  /**
+   * Upload feedback, optionally with logs of a thread.
+   */
+  async uploadFeedback(
+    params: FeedbackUploadParams,
+  ): Promise<FeedbackUploadResponse> {
+    return this.request("feedback/upload", params);
+  }
+
+  /**
+   * Write a single configuration value.
+   */
+  async writeConfigValue(
+    params: ConfigValueWriteParams,
+  ): Promise<ConfigWriteResponse> {
+    return this.request("config/value/write", params);
+  }
+
+  /**
+   * Apply several configuration edits at once.
+   */
+  async batchWriteConfig(
+    params: ConfigBatchWriteParams,
+  ): Promise<ConfigWriteResponse> {
+    return this.request("config/batchWrite", params);
+  }
+
+  /**
+   * Read the configuration requirements (requirements.toml / MDM).
+   */
+  async readConfigRequirements(): Promise<ConfigRequirementsReadResponse> {
+    return this.request("configRequirements/read", undefined);
+  }
+
   // --------------------------------------------------------------------------
   // Internal Methods
   // --------------------------------------------------------------------------
@@ -519,39 +1225,325 @@ export class CodexAppServer extends EventEmitter {
   }
 
   private send(message: unknown): void {
-    if (!this.process.stdin) {
-      throw new Error("Codex process stdin is not available");
+    if (!this.transport.isOpen()) {
+      throw new Error("Codex transport is not connected");
+    }
+    const line = JSON.stringify(message);
+    this.transport.send(line);
+    this.trace?.record("outbound", line);
+  }
+
+  // An unheard "error" event would crash the process
+  private emitError(error: Error): void {
+    if (this.listenerCount("error") > 0) {
+      this.emit("error", error);
     }
-    this.process.stdin.write(`${JSON.stringify(message)}\n`);
   }
 
-  private setupLineHandler(): void {
-    this.reader.on("line", (line) => {
+  private setupTransportHandlers(): void {
+    this.transport.on("message", (line: string) => {
+      this.trace?.record("inbound", line);
       try {
         const message = JSON.parse(line);
-        this.handleMessage(message);
+        this.receive(message);
       } catch (error) {
-        this.emit("error", new Error(`Failed to parse message: ${line}`));
+        this.emitError(new Error(`Failed to parse message: ${line}`));
       }
     });
+
+    // A failed connection also closes, which rejects pending requests and
+    // moves a respawn on to its next attempt
+    this.transport.on("error", (error: Error) => {
+      this.emitError(error);
+    });
+
+    this.transport.on("close", (info: TransportCloseInfo) => {
+      this.handleTransportClose(info);
+    });
   }
 
-  private setupProcessHandlers(): void {
-    this.process.on("error", (error) => {
-      this.emit("error", error);
+  private handleTransportClose({ code, signal }: TransportCloseInfo): void {
+    this.connection++;
+    if (this.disposed) {
+      return;
+    }
+
+    this.emit("exit", { code, signal });
+
+    // Reject all pending requests
+    this.abandonedRequests.clear();
+    for (const [id, pending] of this.pendingRequests) {
+      pending.cleanup?.();
+      pending.reject(
+        new Error(`Codex process exited (code: ${code}, signal: ${signal})`),
+      );
+      this.pendingRequests.delete(id);
+    }
+
+    // While reconnecting, the failed attempt schedules the next one
+    if (this.respawnOptions && !this.reconnecting) {
+      this.scheduleRespawn(1, code, signal);
+    }
+  }
+
+  private scheduleRespawn(
+    attempt: number,
+    code: number | null,
+    signal: NodeJS.Signals | null,
+  ): void {
+    const options = this.respawnOptions;
+    if (!options || this.disposed) {
+      return;
+    }
+
+    this.reconnecting = true;
+    const delayMs = Math.min(
+      options.initialDelayMs * options.backoffMultiplier ** (attempt - 1),
+      options.maxDelayMs,
+    );
+
+    this.emit("reconnecting", {
+      attempt,
+      delayMs,
+      code,
+      signal,
+    } satisfies ReconnectingEvent);
+
+    this.respawnTimer = setTimeout(() => {
+      this.respawnTimer = null;
+      this.respawn(attempt).catch((error: unknown) => {
+        const reason =
+          error instanceof Error ? error : new Error(String(error));
+
+        if (this.disposed) {
+          return;
+        }
+
+        if (attempt >= options.maxAttempts) {
+          this.reconnecting = false;
+          this.emit("reconnectFailed", {
+            attempts: attempt,
+            error: reason,
+          } satisfies ReconnectFailedEvent);
+          return;
+        }
+
+        // The new connection may still be open after a failed initialize
+        this.transport.close();
+        this.scheduleRespawn(attempt + 1, code, signal);
+      });
+    }, delayMs);
+  }
+
+  private async respawn(attempt: number): Promise<void> {
+    this.transport.open();
+
+    if (this.initializeParams) {
+      const response = await this.request("initialize", this.initializeParams);
+      this.userAgent = response.userAgent;
+    }
+
+    const resumedThreadIds: string[] = [];
+    const failedThreadIds: string[] = [];
+
+    for (const [threadId, params] of [...this.loadedThreads]) {
+      try {
+        await this.request("thread/resume", params);
+        resumedThreadIds.push(threadId);
+      } catch (error) {
+        if (!this.transport.isOpen()) {
+          throw error;
+        }
+        this.loadedThreads.delete(threadId);
+        failedThreadIds.push(threadId);
+      }
+    }
+
+    this.reconnecting = false;
+    this.emit("reconnected", {
+      attempt,
+      resumedThreadIds,
+      failedThreadIds,
+    } satisfies ReconnectedEvent);
+  }
+
+  /**
+   * Interrupt the started turn when the signal aborts, until it completes.
+   */
+  private interruptTurnOnAbort(
+    params: unknown,
+    response: unknown,
+    signal: AbortSignal,
+  ): void {
+    const { turn } = response as TurnStartResponse;
+
+    const onAbort = () => {
+      stop();
+      this.interruptStartedTurn(params, response);
+    };
+    const onNotification = (notification: ServerNotification) => {
+      if (
+        notification.method === "turn/completed" &&
+        notification.params.turn.id === turn.id
+      ) {
+        stop();
+      }
+    };
+    const stop = () => {
+      signal.removeEventListener("abort", onAbort);
+      this.off("notification", onNotification);
+    };
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    this.on("notification", onNotification);
+  }
+
+  private interruptStartedTurn(params: unknown, response: unknown): void {
+    const { threadId } = params as TurnStartParams;
+    const { turn } = response as TurnStartResponse;
+
+    this.interruptTurn({ threadId, turnId: turn.id }).catch(() => {
+      // The turn may already have finished
     });
+  }
 
-    this.process.on("exit", (code, signal) => {
-      this.emit("exit", { code, signal });
+  private trackLoadedThread<M extends MethodName>(
+    method: M,
+    params: MethodMap[M]["params"],
+    response: MethodMap[M]["response"],
+  ): void {
+    switch (method) {
+      case "thread/start": {
+        const startParams = params as ThreadStartParams;
+        if (startParams.ephemeral) {
+          return;
+        }
+        const { thread } = response as ThreadStartResponse;
+        this.loadedThreads.set(thread.id, { threadId: thread.id });
+        return;
+      }
+      case "thread/resume":
+      case "thread/fork": {
+        const { thread } = response as ThreadResumeResponse;
+        this.loadedThreads.set(thread.id, { threadId: thread.id });
+        return;
+      }
+      case "thread/archive":
+        this.loadedThreads.delete((params as ThreadArchiveParams).threadId);
+        return;
+    }
+  }
 
-      // Reject all pending requests
-      for (const [id, pending] of this.pendingRequests) {
-        pending.reject(
-          new Error(`Codex process exited (code: ${code}, signal: ${signal})`),
+  /**
+   * Pass an inbound message through the middleware, then handle it.
+   */
+  private receive(message: unknown): void {
+    const intercepted = this.middleware.some(
+      (entry) => entry.response || entry.notification || entry.serverRequest,
+    );
+    if (!intercepted && this.queuedInbound === 0) {
+      this.handleMessage(message);
+      return;
+    }
+
+    this.queuedInbound++;
+    this.inboundQueue = this.inboundQueue
+      .then(async () => {
+        const result = await this.interceptInbound(message);
+        if (result !== null && !this.disposed) {
+          this.handleMessage(result);
+        }
+      })
+      .catch((error: unknown) => {
+        this.emit(
+          "error",
+          error instanceof Error ? error : new Error(String(error)),
         );
-        this.pendingRequests.delete(id);
+      })
+      .finally(() => {
+        this.queuedInbound--;
+      });
+  }
+
+  /**
+   * Run the middleware stage matching the message.
+   *
+   * @returns The message to handle, or null if it was dropped or failed
+   */
+  private async interceptInbound(message: unknown): Promise<unknown> {
+    if (!message || typeof message !== "object") {
+      return message;
+    }
+    const msg = message as Record<string, unknown>;
+
+    if ("id" in msg && msg.id !== undefined) {
+      const id = msg.id as RequestId;
+
+      if ("result" in msg || "error" in msg) {
+        // Responses to abandoned requests have no one to intercept for
+        const pending = this.pendingRequests.get(id);
+        if (!pending) {
+          return message;
+        }
+
+        try {
+          const response = await runMiddleware(this.middleware, "response", {
+            ...(msg as unknown as JsonRpcResponse),
+            method: pending.method,
+          } satisfies InboundResponse);
+          if (!response) {
+            return null;
+          }
+          const { method: _method, ...rest } = response;
+          return { ...rest, id };
+        } catch (error) {
+          if (this.pendingRequests.delete(id)) {
+            pending.cleanup?.();
+            pending.reject(error as Error);
+          }
+          return null;
+        }
       }
-    });
+
+      if ("method" in msg && "params" in msg) {
+        const request = msg as {
+          method: string;
+          id: RequestId;
+          params: unknown;
+        };
+        try {
+          const intercepted = await runMiddleware(
+            this.middleware,
+            "serverRequest",
+            request,
+          );
+          return intercepted ? { ...intercepted, id } : null;
+        } catch (error) {
+          this.send({
+            id,
+            error: {
+              code: -32000,
+              message: error instanceof Error ? error.message : "Unknown error",
+            },
+          });
+          return null;
+        }
+      }
+    }
+
+    if ("method" in msg && !("id" in msg)) {
+      return runMiddleware(
+        this.middleware,
+        "notification",
+        msg as { method: string; params: unknown },
+      );
+    }
+
+    return message;
   }
 
   private handleMessage(message: unknown): void {
@@ -570,9 +1562,23 @@ export class CodexAppServer extends EventEmitter {
 
       // Server request (requires response from us)
       if ("method" in msg && "params" in msg) {
-        this.handleServerRequest(
-          msg as { method: string; id: RequestId; params: unknown },
-        );
+        const request = msg as {
+          method: string;
+          id: RequestId;
+          params: unknown;
+        };
+        if (this.strict) {
+          this.reportMismatch(
+            "serverRequest",
+            request.method,
+            validateServerRequest(request),
+            msg,
+          );
+        }
+        // Never rejects, unless sending the answer fails unexpectedly
+        this.handleServerRequest(request).catch((error: Error) => {
+          this.emitError(error);
+        });
         return;
       }
     }
@@ -581,6 +1587,16 @@ export class CodexAppServer extends EventEmitter {
     // Also emit nested event if params contains msg.type (codex/event/* format)
     if ("method" in msg && !("id" in msg)) {
       const notification = msg as { method: string; params: unknown };
+      if (this.strict) {
+        this.reportMismatch(
+          notification.method.startsWith("codex/event/")
+            ? "event"
+            : "notification",
+          notification.method,
+          validateNotification(notification),
+          msg,
+        );
+      }
       this.handleNotification(notification);
 
       // Handle codex/event/* notifications that wrap EventMsg in params.msg
@@ -605,6 +1621,15 @@ export class CodexAppServer extends EventEmitter {
   private handleResponse(response: JsonRpcResponse): void {
     const pending = this.pendingRequests.get(response.id);
     if (!pending) {
+      if (this.abandonedRequests.has(response.id)) {
+        const onLateResult = this.abandonedRequests.get(response.id);
+        this.abandonedRequests.delete(response.id);
+        if (onLateResult && !response.error) {
+          onLateResult(response.result);
+        }
+        return;
+      }
+
       this.emit(
         "error",
         new Error(`Received response for unknown request: ${response.id}`),
@@ -613,6 +1638,16 @@ export class CodexAppServer extends EventEmitter {
     }
 
     this.pendingRequests.delete(response.id);
+    pending.cleanup?.();
+
+    if (this.strict && !response.error) {
+      this.reportMismatch(
+        "response",
+        pending.method,
+        validateResponse(pending.method, response.result),
+        response,
+      );
+    }
 
     if (response.error) {
       pending.reject(
@@ -623,6 +1658,27 @@ export class CodexAppServer extends EventEmitter {
     }
   }
 
+  private reportMismatch(
+    kind: ProtocolMessageKind,
+    method: string,
+    issues: ValidationIssue[],
+    message: unknown,
+  ): void {
+    if (issues.length === 0) {
+      return;
+    }
+
+    const event: ProtocolMismatchEvent = {
+      kind,
+      method,
+      issues,
+      message,
+      userAgent: this.userAgent,
+      schemaVersion: SCHEMA_VERSION,
+    };
+    this.emit("protocol-mismatch", event);
+  }
+
   private handleNotification(notification: {
     method: string;
     params: unknown;
@@ -635,11 +1691,12 @@ export class CodexAppServer extends EventEmitter {
     id: RequestId;
     params: unknown;
   }): Promise<void> {
+    const connection = this.connection;
     const handler = this.serverRequestHandlers.get(request.method);
 
     if (!handler) {
       // Send error response if no handler registered
-      this.send({
+      this.respond(connection, {
         id: request.id,
         error: {
           code: -32601,
@@ -651,9 +1708,9 @@ export class CodexAppServer extends EventEmitter {
 
     try {
       const result = await handler(request.params as never);
-      this.send({ id: request.id, result });
+      this.respond(connection, { id: request.id, result });
     } catch (error) {
-      this.send({
+      this.respond(connection, {
         id: request.id,
         error: {
           code: -32000,
@@ -662,6 +1719,51 @@ export class CodexAppServer extends EventEmitter {
       });
     }
   }
+
+  /**
+   * Answer a server request. Answers given after the process went away are
+   * dropped: the request died with it, and a restarted process never asked.
+   */
+  private respond(connection: number, message: unknown): void {
+    if (connection === this.connection && this.transport.isOpen()) {
+      this.send(message);
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function matchesScope(
+  params: { threadId: string },
+  scope: NotificationScope,
+): boolean {
+  if (params.threadId !== scope.threadId) {
+    return false;
+  }
+  if (scope.turnId === undefined) {
+    return true;
+  }
+
+  const scoped = params as { turnId?: string; turn?: { id: string } };
+  return (scoped.turnId ?? scoped.turn?.id) === scope.turnId;
+}
+
+function resolveRespawnOptions(
+  respawn: CodexAppServerOptions["respawn"],
+): Required<RespawnOptions> | null {
+  if (!respawn) {
+    return null;
+  }
+
+  const options = respawn === true ? {} : respawn;
+  return {
+    maxAttempts: options.maxAttempts ?? 5,
+    initialDelayMs: options.initialDelayMs ?? 500,
+    maxDelayMs: options.maxDelayMs ?? 30_000,
+    backoffMultiplier: options.backoffMultiplier ?? 2,
+  };
 }
 
 // ============================================================================
@@ -0,0 +1,119 @@
+import type { RequestId } from "./schemas";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Client request about to be sent to the app-server */
+export interface OutboundRequest {
+  method: string;
+  id: RequestId;
+  params: unknown;
+}
+
+/** Response from the app-server to one of our requests */
+export interface InboundResponse {
+  id: RequestId;
+  /** Method of the request this response answers */
+  method: string;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+/** Notification from the app-server */
+export interface InboundNotification {
+  method: string;
+  params: unknown;
+}
+
+/** Request from the app-server that expects a response from us */
+export interface InboundServerRequest {
+  method: string;
+  id: RequestId;
+  params: unknown;
+}
+
+/** A replacement message, or nothing to keep the message as is */
+type Intercepted<T> = T | void | Promise<T | undefined> | Promise<void>;
+
+/**
+ * Interceptors around the JSON-RPC traffic of a CodexAppServer.
+ *
+ * Each interceptor may inspect a message, return a replacement, or return
+ * nothing to pass it on unchanged. Notification interceptors can also return
+ * `null` to drop the notification. Throwing rejects the request (for
+ * `request` and `response`) or answers the server request with an error.
+ *
+ * @example
+ * ```ts
+ * codex.use({
+ *   request: (request) => {
+ *     console.log("->", request.method);
+ *   },
+ *   notification: (notification) =>
+ *     notification.method === "item/reasoning/textDelta" ? null : notification,
+ * });
+ * ```
+ */
+export interface CodexMiddleware {
+  /** Outbound request, before it is written */
+  request?: (request: OutboundRequest) => Intercepted<OutboundRequest>;
+  /** Response to one of our requests, before the request settles */
+  response?: (response: InboundResponse) => Intercepted<InboundResponse>;
+  /** Notification, before listeners see it; `null` drops it */
+  notification?: (
+    notification: InboundNotification,
+  ) => Intercepted<InboundNotification | null>;
+  /** Server request, before its handler runs */
+  serverRequest?: (
+    request: InboundServerRequest,
+  ) => Intercepted<InboundServerRequest>;
+}
+
+interface MiddlewareMessages {
+  request: OutboundRequest;
+  response: InboundResponse;
+  notification: InboundNotification;
+  serverRequest: InboundServerRequest;
+}
+
+export type MiddlewareStage = keyof MiddlewareMessages;
+
+// ============================================================================
+// Middleware Chain
+// ============================================================================
+
+/**
+ * Run the interceptors of one stage in order, each on the previous result.
+ *
+ * @returns The final message, or null if an interceptor dropped it
+ */
+export async function runMiddleware<S extends MiddlewareStage>(
+  middleware: readonly CodexMiddleware[],
+  stage: S,
+  message: MiddlewareMessages[S],
+): Promise<MiddlewareMessages[S] | null> {
+  let current = message;
+
+  // Snapshot: middleware added or removed meanwhile applies to later messages
+  for (const entry of [...middleware]) {
+    const interceptor = entry[stage] as
+      | ((
+          message: MiddlewareMessages[S],
+        ) => Intercepted<MiddlewareMessages[S] | null>)
+      | undefined;
+    if (!interceptor) {
+      continue;
+    }
+
+    const result = await interceptor.call(entry, current);
+    if (result === null) {
+      return null;
+    }
+    if (result !== undefined) {
+      current = result;
+    }
+  }
+
+  return current;
+}
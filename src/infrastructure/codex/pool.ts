@@ -0,0 +1,287 @@
+import { CodexPoolExhaustedError } from "./errors";
+import { CodexAppServer, type CodexAppServerOptions } from "./index";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Options for CodexAppServerPool */
+export interface CodexAppServerPoolOptions {
+  /**
+   * Options for the instance of a key, e.g. a per-workspace `spawn.cwd` or a
+   * per-user `spawn.codexHome`.
+   */
+  createOptions?: (key: string) => CodexAppServerOptions;
+  /**
+   * Prepare a new instance before it is handed out: register its server
+   * request handlers and call `initialize`.
+   */
+  setup?: (codex: CodexAppServer, key: string) => Promise<void>;
+  /** Maximum number of live instances (default: 8) */
+  maxInstances?: number;
+  /** Dispose instances that have been unused for this long (default: 10 min) */
+  idleTimeoutMs?: number;
+}
+
+/** An instance handed out by `acquire`, in use until it is released */
+export interface CodexAppServerLease {
+  codex: CodexAppServer;
+  /** Give the instance back; calling it again does nothing */
+  release: () => void;
+}
+
+/** Pool entry for one key */
+interface PoolEntry {
+  key: string;
+  ready: Promise<CodexAppServer>;
+  codex: CodexAppServer | null;
+  leases: number;
+  lastUsedAt: number;
+  idleTimer: NodeJS.Timeout | null;
+  /** Taken out of the pool; disposed once its last lease is released */
+  removed: boolean;
+}
+
+// ============================================================================
+// CodexAppServerPool Class
+// ============================================================================
+
+/**
+ * Pool of CodexAppServer instances keyed by workspace or user.
+ *
+ * Each key gets its own app-server process and its own handlers, so sessions
+ * with different `cwd`, sandbox settings or accounts do not interfere.
+ * Instances are reused while in use, disposed after being idle, and the least
+ * recently used idle instance is evicted when the pool is full.
+ *
+ * @example
+ * ```ts
+ * const pool = new CodexAppServerPool({
+ *   createOptions: (workspace) => ({ spawn: { cwd: workspace } }),
+ *   setup: async (codex) => {
+ *     codex.onServerRequest("item/fileChange/requestApproval", async () => ({
+ *       decision: "decline",
+ *     }));
+ *     await codex.initialize({ name: "my-app", version: "1.0.0", title: null });
+ *   },
+ * });
+ *
+ * const lease = await pool.acquire("/srv/project-a");
+ * try {
+ *   await lease.codex.startThread({});
+ * } finally {
+ *   lease.release();
+ * }
+ * ```
+ */
+export class CodexAppServerPool {
+  private readonly createOptions: (key: string) => CodexAppServerOptions;
+  private readonly setup:
+    | ((codex: CodexAppServer, key: string) => Promise<void>)
+    | undefined;
+  private readonly maxInstances: number;
+  private readonly idleTimeoutMs: number;
+  private entries = new Map<string, PoolEntry>();
+
+  constructor(options: CodexAppServerPoolOptions = {}) {
+    this.createOptions = options.createOptions ?? (() => ({}));
+    this.setup = options.setup;
+    this.maxInstances = options.maxInstances ?? 8;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 10 * 60 * 1000;
+  }
+
+  /**
+   * Get the instance for a key, creating and setting it up if needed.
+   * Every lease must be released. A lease only ever releases the instance it
+   * was taken from, even if the key has been given a new one since.
+   *
+   * @throws CodexPoolExhaustedError if the pool is full and no instance is idle
+   */
+  async acquire(key: string): Promise<CodexAppServerLease> {
+    let entry = this.entries.get(key);
+
+    if (!entry) {
+      if (this.entries.size >= this.maxInstances && !this.evictIdle()) {
+        throw new CodexPoolExhaustedError(this.maxInstances);
+      }
+      entry = this.createEntry(key);
+    }
+
+    entry.leases++;
+    entry.lastUsedAt = Date.now();
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = null;
+    }
+
+    let codex: CodexAppServer;
+    try {
+      codex = await entry.ready;
+    } catch (error) {
+      this.release(entry);
+      throw error;
+    }
+
+    let released = false;
+    return {
+      codex,
+      release: () => {
+        if (!released) {
+          released = true;
+          this.release(entry);
+        }
+      },
+    };
+  }
+
+  /**
+   * Run a callback with the instance for a key, releasing it afterwards.
+   */
+  async use<T>(
+    key: string,
+    callback: (codex: CodexAppServer) => Promise<T>,
+  ): Promise<T> {
+    const lease = await this.acquire(key);
+    try {
+      return await callback(lease.codex);
+    } finally {
+      lease.release();
+    }
+  }
+
+  /**
+   * Check if the pool has a live instance for a key.
+   */
+  has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  /**
+   * Number of live instances.
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Take the instance for a key out of the pool. It is disposed once it is no
+   * longer in use; the next `acquire` gets a new one.
+   */
+  dispose(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.remove(entry);
+    }
+  }
+
+  /**
+   * Take every instance out of the pool, disposing those not in use.
+   */
+  disposeAll(): void {
+    for (const entry of [...this.entries.values()]) {
+      this.remove(entry);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Internal Methods
+  // --------------------------------------------------------------------------
+
+  private createEntry(key: string): PoolEntry {
+    const codex = CodexAppServer.create(this.createOptions(key));
+
+    const entry: PoolEntry = {
+      key,
+      ready: Promise.resolve(codex),
+      codex,
+      leases: 0,
+      lastUsedAt: Date.now(),
+      idleTimer: null,
+      removed: false,
+    };
+
+    // An instance that cannot reconnect is dead; the next acquire replaces it
+    codex.on("reconnectFailed", () => {
+      this.remove(entry);
+    });
+
+    if (this.setup) {
+      entry.ready = this.setup(codex, key).then(
+        () => codex,
+        (error: unknown) => {
+          this.remove(entry);
+          throw error;
+        },
+      );
+    }
+
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Dispose the least recently used idle instance.
+   *
+   * @returns Whether an instance was evicted
+   */
+  private evictIdle(): boolean {
+    let oldest: PoolEntry | null = null;
+    for (const entry of this.entries.values()) {
+      if (
+        entry.leases === 0 &&
+        (!oldest || entry.lastUsedAt < oldest.lastUsedAt)
+      ) {
+        oldest = entry;
+      }
+    }
+
+    if (!oldest) {
+      return false;
+    }
+    this.remove(oldest);
+    return true;
+  }
+
+  private release(entry: PoolEntry): void {
+    entry.leases--;
+    entry.lastUsedAt = Date.now();
+    if (entry.leases > 0) {
+      return;
+    }
+
+    if (entry.removed) {
+      this.disposeEntry(entry);
+    } else {
+      entry.idleTimer = setTimeout(() => {
+        this.remove(entry);
+      }, this.idleTimeoutMs);
+      // Idle instances should not keep the process alive
+      entry.idleTimer.unref();
+    }
+  }
+
+  private remove(entry: PoolEntry): void {
+    if (entry.removed) {
+      return;
+    }
+    entry.removed = true;
+    // The key may already belong to a newer entry
+    if (this.entries.get(entry.key) === entry) {
+      this.entries.delete(entry.key);
+    }
+
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = null;
+    }
+    // Leased instances are disposed when their last lease is released
+    if (entry.leases === 0) {
+      this.disposeEntry(entry);
+    }
+  }
+
+  private disposeEntry(entry: PoolEntry): void {
+    entry.codex?.dispose();
+    entry.codex = null;
+  }
+}
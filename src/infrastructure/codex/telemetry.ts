@@ -0,0 +1,346 @@
+import {
+  type Attributes,
+  type Context,
+  context,
+  type Histogram,
+  type Meter,
+  metrics,
+  type Span,
+  SpanKind,
+  SpanStatusCode,
+  type Tracer,
+  trace,
+} from "@opentelemetry/api";
+
+import type {
+  CodexAppServer,
+  RequestAbandonedEvent,
+  RequestNotSentEvent,
+} from "./index";
+import type { RequestId } from "./schemas";
+import type { TokenUsageBreakdown } from "./schemas/v2";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Options for instrumentCodexAppServer */
+export interface CodexTelemetryOptions {
+  /** Tracer for spans (default: the global tracer provider's) */
+  tracer?: Tracer;
+  /** Meter for counters and histograms (default: the global meter provider's) */
+  meter?: Meter;
+}
+
+/** Span and start time of something in flight */
+interface OpenSpan {
+  span: Span;
+  startedAt: number;
+  attributes: Attributes;
+}
+
+const INSTRUMENTATION_NAME = "next-codex-app-server";
+
+// ============================================================================
+// Instrumentation
+// ============================================================================
+
+/**
+ * Record OpenTelemetry traces and metrics for a CodexAppServer.
+ *
+ * - A client span per JSON-RPC request, plus `codex.rpc.duration`
+ * - A span per turn, from `turn/started` to `turn/completed`, with the token
+ *   usage reported by `thread/tokenUsage/updated`, plus `codex.turn.duration`
+ *   and `codex.tokens`
+ * - A child span of the turn per command execution and per MCP tool call,
+ *   plus `codex.command.duration` and `codex.mcp.tool_call.duration`
+ *
+ * Spans and metrics go to the globally registered providers unless a tracer
+ * and meter are given, so nothing is recorded until an SDK is set up (see
+ * `src/instrumentation.ts`). Requests abandoned by a timeout or abort, or
+ * never sent because the transport was down, end with an error status.
+ *
+ * @returns Function that stops recording and ends the spans still open
+ */
+export function instrumentCodexAppServer(
+  codex: CodexAppServer,
+  options: CodexTelemetryOptions = {},
+): () => void {
+  const tracer = options.tracer ?? trace.getTracer(INSTRUMENTATION_NAME);
+  const meter = options.meter ?? metrics.getMeter(INSTRUMENTATION_NAME);
+
+  const rpcDuration = meter.createHistogram("codex.rpc.duration", {
+    description: "Duration of JSON-RPC requests to the app-server",
+    unit: "s",
+  });
+  const turnDuration = meter.createHistogram("codex.turn.duration", {
+    description: "Duration of turns",
+    unit: "s",
+  });
+  const tokens = meter.createCounter("codex.tokens", {
+    description: "Tokens used by turns, by token type",
+    unit: "{token}",
+  });
+  const commandDuration = meter.createHistogram("codex.command.duration", {
+    description: "Duration of command executions",
+    unit: "s",
+  });
+  const toolCallDuration = meter.createHistogram(
+    "codex.mcp.tool_call.duration",
+    {
+      description: "Duration of MCP tool calls",
+      unit: "s",
+    },
+  );
+
+  const requests = new Map<RequestId, OpenSpan>();
+  const turns = new Map<string, OpenSpan & { usage: TokenUsageBreakdown }>();
+  const items = new Map<string, OpenSpan>();
+
+  // JSON-RPC requests
+  const removeMiddleware = codex.use({
+    request: (request) => {
+      const attributes: Attributes = {
+        "rpc.system": "jsonrpc",
+        "rpc.method": request.method,
+      };
+      const span = tracer.startSpan(`codex ${request.method}`, {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          ...attributes,
+          "rpc.jsonrpc.version": "2.0",
+          "rpc.jsonrpc.request_id": String(request.id),
+        },
+      });
+      requests.set(request.id, { span, startedAt: Date.now(), attributes });
+    },
+    response: (response) => {
+      const open = requests.get(response.id);
+      if (!open) {
+        return;
+      }
+      requests.delete(response.id);
+
+      if (response.error) {
+        open.span.setAttribute("rpc.jsonrpc.error_code", response.error.code);
+        open.span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: response.error.message,
+        });
+        open.attributes["error.type"] = String(response.error.code);
+      }
+      finish(open, rpcDuration);
+    },
+  });
+
+  const unsubscribers = [
+    removeMiddleware,
+
+    // Turns
+    codex.onNotification("turn/started", ({ threadId, turn }) => {
+      const attributes: Attributes = {};
+      const span = tracer.startSpan("codex.turn", {
+        attributes: { "codex.thread.id": threadId, "codex.turn.id": turn.id },
+      });
+      turns.set(turn.id, {
+        span,
+        startedAt: Date.now(),
+        attributes,
+        usage: emptyUsage(),
+      });
+    }),
+
+    codex.onNotification("thread/tokenUsage/updated", (params) => {
+      const { last } = params.tokenUsage;
+      tokens.add(last.inputTokens, { "codex.token.type": "input" });
+      tokens.add(last.cachedInputTokens, {
+        "codex.token.type": "cached_input",
+      });
+      tokens.add(last.outputTokens, { "codex.token.type": "output" });
+      tokens.add(last.reasoningOutputTokens, {
+        "codex.token.type": "reasoning_output",
+      });
+
+      const open = turns.get(params.turnId);
+      if (!open) {
+        return;
+      }
+      for (const key of Object.keys(
+        open.usage,
+      ) as (keyof TokenUsageBreakdown)[]) {
+        open.usage[key] += last[key];
+      }
+      open.span.setAttributes({
+        "gen_ai.usage.input_tokens": open.usage.inputTokens,
+        "gen_ai.usage.output_tokens": open.usage.outputTokens,
+        "codex.usage.cached_input_tokens": open.usage.cachedInputTokens,
+        "codex.usage.reasoning_output_tokens": open.usage.reasoningOutputTokens,
+        "codex.usage.total_tokens": open.usage.totalTokens,
+      });
+      if (params.tokenUsage.modelContextWindow !== null) {
+        open.span.setAttribute(
+          "codex.model_context_window",
+          params.tokenUsage.modelContextWindow,
+        );
+      }
+    }),
+
+    codex.onNotification("turn/completed", ({ turn }) => {
+      const open = turns.get(turn.id);
+      if (!open) {
+        return;
+      }
+      turns.delete(turn.id);
+
+      open.attributes["codex.turn.status"] = turn.status;
+      open.span.setAttribute("codex.turn.status", turn.status);
+      if (turn.status === "failed") {
+        open.span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: turn.error?.message,
+        });
+      }
+      finish(open, turnDuration);
+    }),
+
+    // Command executions and MCP tool calls
+    codex.onNotification("item/started", ({ turnId, item }) => {
+      const parent = turns.get(turnId)?.span;
+      const parentContext: Context = parent
+        ? trace.setSpan(context.active(), parent)
+        : context.active();
+
+      if (item.type === "commandExecution") {
+        const span = tracer.startSpan(
+          "codex.command",
+          {
+            attributes: {
+              "codex.item.id": item.id,
+              "codex.command": item.command,
+              "codex.command.cwd": item.cwd,
+            },
+          },
+          parentContext,
+        );
+        items.set(item.id, { span, startedAt: Date.now(), attributes: {} });
+      } else if (item.type === "mcpToolCall") {
+        const attributes: Attributes = {
+          "codex.mcp.server": item.server,
+          "codex.mcp.tool": item.tool,
+        };
+        const span = tracer.startSpan(
+          `codex.mcp_tool_call ${item.server}.${item.tool}`,
+          { attributes: { ...attributes, "codex.item.id": item.id } },
+          parentContext,
+        );
+        items.set(item.id, { span, startedAt: Date.now(), attributes });
+      }
+    }),
+
+    codex.onNotification("item/completed", ({ item }) => {
+      const open = items.get(item.id);
+      if (!open) {
+        return;
+      }
+      items.delete(item.id);
+
+      if (item.type === "commandExecution") {
+        open.attributes["codex.command.status"] = item.status;
+        open.span.setAttribute("codex.command.status", item.status);
+        if (item.exitCode !== null) {
+          open.span.setAttribute("process.exit.code", item.exitCode);
+        }
+        if (item.status === "failed") {
+          open.span.setStatus({ code: SpanStatusCode.ERROR });
+        }
+        finish(open, commandDuration, item.durationMs);
+      } else if (item.type === "mcpToolCall") {
+        open.attributes["codex.mcp.status"] = item.status;
+        open.span.setAttribute("codex.mcp.status", item.status);
+        if (item.status === "failed") {
+          open.span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: item.error?.message,
+          });
+        }
+        finish(open, toolCallDuration, item.durationMs);
+      }
+    }),
+  ];
+
+  const endAll = (reason: string) => {
+    for (const open of [
+      ...requests.values(),
+      ...turns.values(),
+      ...items.values(),
+    ]) {
+      open.span.setStatus({ code: SpanStatusCode.ERROR, message: reason });
+      open.span.end();
+    }
+    requests.clear();
+    turns.clear();
+    items.clear();
+  };
+
+  // Requests given up on, or never sent, get no response through the
+  // response middleware
+  const onRequestFailed = ({
+    id,
+    error,
+  }: RequestAbandonedEvent | RequestNotSentEvent) => {
+    const open = requests.get(id);
+    if (!open) {
+      return;
+    }
+    requests.delete(id);
+
+    open.span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+    open.attributes["error.type"] = error.name;
+    finish(open, rpcDuration);
+  };
+  codex.on("requestAbandoned", onRequestFailed);
+  codex.on("requestNotSent", onRequestFailed);
+
+  const onExit = () => {
+    endAll("Codex process exited");
+  };
+  codex.on("exit", onExit);
+
+  return () => {
+    for (const unsubscribe of unsubscribers) {
+      unsubscribe();
+    }
+    codex.off("requestAbandoned", onRequestFailed);
+    codex.off("requestNotSent", onRequestFailed);
+    codex.off("exit", onExit);
+    endAll("Instrumentation stopped");
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * End a span and record its duration, preferring the duration the
+ * app-server measured.
+ */
+function finish(
+  open: OpenSpan,
+  histogram: Histogram,
+  durationMs?: number | null,
+): void {
+  open.span.end();
+  const elapsedMs = durationMs ?? Date.now() - open.startedAt;
+  histogram.record(elapsedMs / 1000, open.attributes);
+}
+
+function emptyUsage(): TokenUsageBreakdown {
+  return {
+    totalTokens: 0,
+    inputTokens: 0,
+    cachedInputTokens: 0,
+    outputTokens: 0,
+    reasoningOutputTokens: 0,
+  };
+}
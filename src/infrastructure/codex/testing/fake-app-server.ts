@@ -0,0 +1,986 @@
+import { EventEmitter } from "node:events";
+
+import type {
+  EventMsg,
+  FileChange,
+  RequestId,
+  ServerNotification,
+} from "../schemas";
+import type { JsonValue } from "../schemas/serde_json/JsonValue";
+import type {
+  CommandAction,
+  CommandExecutionRequestApprovalResponse,
+  FileChangeRequestApprovalResponse,
+  FileUpdateChange,
+  McpToolCallResult,
+  Thread,
+  ThreadArchiveParams,
+  ThreadForkParams,
+  ThreadItem,
+  ThreadListParams,
+  ThreadReadParams,
+  ThreadResumeParams,
+  ThreadRollbackParams,
+  ThreadSetNameParams,
+  ThreadStartResponse,
+  ThreadUnarchiveParams,
+  TokenUsageBreakdown,
+  ToolRequestUserInputQuestion,
+  ToolRequestUserInputResponse,
+  Turn,
+  TurnPlanStep,
+  TurnStartParams,
+  TurnStatus,
+} from "../schemas/v2";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** One scripted event within a turn */
+export type ScriptedStep =
+  | {
+      type: "agentMessage";
+      text: string;
+      /** Deltas to stream (default: the text split into words) */
+      chunks?: string[];
+    }
+  | {
+      type: "reasoning";
+      /** Summary parts, each streamed word by word after `summaryPartAdded` */
+      summary: string[];
+      /** Raw reasoning, streamed as `item/reasoning/textDelta` */
+      content?: string[];
+    }
+  | {
+      type: "commandExecution";
+      command: string;
+      cwd?: string;
+      commandActions?: CommandAction[];
+      output?: string;
+      exitCode?: number;
+      /** Ask `item/commandExecution/requestApproval` before running */
+      requestApproval?: boolean;
+      /** Reason sent with the approval request */
+      reason?: string;
+      /** Prefix proposed with the approval request */
+      proposedExecpolicyAmendment?: string[];
+    }
+  | {
+      type: "fileChange";
+      changes: FileUpdateChange[];
+      /** Ask `item/fileChange/requestApproval` before applying */
+      requestApproval?: boolean;
+      /** Reason sent with the approval request */
+      reason?: string;
+    }
+  | {
+      type: "mcpToolCall";
+      server: string;
+      tool: string;
+      arguments?: JsonValue;
+      result?: McpToolCallResult;
+      /** Fail the call with this message */
+      error?: string;
+      /** `item/mcpToolCall/progress` messages sent while the call runs */
+      progress?: string[];
+    }
+  /** Any other item, e.g. a web search, started and completed as is */
+  | { type: "item"; item: ThreadItem }
+  | { type: "plan"; explanation?: string | null; plan: TurnPlanStep[] }
+  /** Aggregated unified diff of the turn so far (`turn/diff/updated`) */
+  | { type: "turnDiff"; diff: string }
+  | {
+      type: "tokenUsage";
+      inputTokens: number;
+      outputTokens: number;
+      cachedInputTokens?: number;
+      reasoningOutputTokens?: number;
+    }
+  | { type: "requestUserInput"; questions: ToolRequestUserInputQuestion[] }
+  | { type: "error"; message: string; willRetry?: boolean }
+  | { type: "delay"; ms: number };
+
+/** A turn replayed in response to `turn/start` */
+export interface ScriptedTurn {
+  steps: ScriptedStep[];
+}
+
+/**
+ * Handler for a client request; throw (or reject) to answer with a JSON-RPC
+ * error, or return a promise to answer once it settles
+ */
+export type FakeRequestHandler = (params: unknown) => unknown;
+
+/** Server end of a connection, e.g. the second half of `InMemoryTransport.pair()` */
+export interface FakeServerConnection {
+  send(message: string): void;
+  on(event: "message", listener: (line: string) => void): unknown;
+}
+
+/** Options for FakeAppServer */
+export interface FakeAppServerOptions {
+  /** Turns replayed, in order, by successive `turn/start` requests */
+  turns?: ScriptedTurn[];
+  /** `userAgent` returned by `initialize` */
+  userAgent?: string;
+  /** Working directory reported for threads */
+  cwd?: string;
+  /** Also emit legacy `codex/event/*` notifications (default: true) */
+  legacyEvents?: boolean;
+}
+
+/** A JSON-RPC message received from the client */
+export interface ReceivedMessage {
+  id?: RequestId;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+/** State of a turn being replayed */
+interface RunningTurn {
+  threadId: string;
+  turn: Turn;
+  interrupted: boolean;
+  /** Tokens reported so far by `tokenUsage` steps */
+  usage: TokenUsageBreakdown;
+}
+
+// ============================================================================
+// FakeAppServer Class
+// ============================================================================
+
+/**
+ * Scriptable stand-in for `codex app-server`, for offline tests.
+ *
+ * It speaks the same JSON-RPC as the generated `ClientRequest`,
+ * `ServerNotification` and `ServerRequest` types: it answers `initialize` and
+ * the thread methods, and replays a scripted turn for each `turn/start`
+ * (agent message deltas, command executions, file changes, plans, user input
+ * requests and errors). Every message from the client is recorded in
+ * `received`.
+ *
+ * @example
+ * ```ts
+ * const [client, server] = InMemoryTransport.pair();
+ * const fake = new FakeAppServer(server, {
+ *   turns: [{ steps: [{ type: "agentMessage", text: "Hello!" }] }],
+ * });
+ * const codex = CodexAppServer.create({ transport: client });
+ * ```
+ */
+export class FakeAppServer extends EventEmitter {
+  readonly received: ReceivedMessage[] = [];
+
+  private readonly connection: FakeServerConnection;
+  private readonly turns: ScriptedTurn[];
+  private readonly userAgent: string;
+  private readonly cwd: string;
+  private readonly legacyEvents: boolean;
+  private handlers = new Map<string, FakeRequestHandler>();
+  private threads = new Map<string, Thread>();
+  private archivedThreads = new Set<string>();
+  private runningTurns = new Map<string, RunningTurn>();
+  private pendingServerRequests = new Map<
+    RequestId,
+    { resolve: (result: unknown) => void; reject: (error: Error) => void }
+  >();
+  private nextId = 0;
+
+  constructor(
+    connection: FakeServerConnection,
+    options: FakeAppServerOptions = {},
+  ) {
+    super();
+    this.connection = connection;
+    this.turns = [...(options.turns ?? [])];
+    this.userAgent = options.userAgent ?? "fake-codex/0.0.0";
+    this.cwd = options.cwd ?? "/workspace";
+    this.legacyEvents = options.legacyEvents ?? true;
+
+    this.registerDefaultHandlers();
+    this.connection.on("message", (line) => {
+      this.handleLine(line);
+    });
+  }
+
+  /**
+   * Queue a turn to replay on the next `turn/start`.
+   */
+  enqueueTurn(turn: ScriptedTurn): void {
+    this.turns.push(turn);
+  }
+
+  /**
+   * Answer a client request method, replacing the default behavior.
+   */
+  handle(method: string, handler: FakeRequestHandler): void {
+    this.handlers.set(method, handler);
+  }
+
+  /**
+   * Send a notification to the client.
+   */
+  notify<M extends ServerNotification["method"]>(
+    method: M,
+    params: Extract<ServerNotification, { method: M }>["params"],
+  ): void {
+    this.record({ method, params } as ServerNotification);
+    this.write({ method, params });
+  }
+
+  /**
+   * Send a server request to the client and wait for its response.
+   */
+  request(method: string, params: unknown): Promise<unknown> {
+    const id = `fake-${++this.nextId}`;
+    return new Promise((resolve, reject) => {
+      this.pendingServerRequests.set(id, { resolve, reject });
+      this.write({ method, id, params });
+    });
+  }
+
+  /**
+   * Wait until the client sends a request or notification with the given
+   * method.
+   */
+  waitForMessage(method: string): Promise<ReceivedMessage> {
+    return new Promise((resolve) => {
+      const listener = (message: ReceivedMessage) => {
+        if (message.method === method) {
+          this.off("received", listener);
+          resolve(message);
+        }
+      };
+      this.on("received", listener);
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Internal Methods
+  // --------------------------------------------------------------------------
+
+  private registerDefaultHandlers(): void {
+    this.handle("initialize", () => ({ userAgent: this.userAgent }));
+
+    this.handle("thread/start", () => {
+      const thread = this.createThread();
+      return this.threadResponse(thread);
+    });
+
+    this.handle("thread/resume", (params) => {
+      const { threadId } = params as ThreadResumeParams;
+      return this.threadResponse(this.getThread(threadId), true);
+    });
+
+    this.handle("thread/read", (params) => {
+      const { threadId, includeTurns } = params as ThreadReadParams;
+      return {
+        thread: this.threadView(this.getThread(threadId), includeTurns),
+      };
+    });
+
+    this.handle("thread/list", (params) => {
+      const { cursor, limit, sortKey, archived } = (params ??
+        {}) as ThreadListParams;
+      const key = sortKey === "updated_at" ? "updatedAt" : "createdAt";
+      // Newest first; creation order breaks ties within the same second
+      const threads = [...this.threads.values()]
+        .filter(
+          (thread) =>
+            this.archivedThreads.has(thread.id) === (archived ?? false),
+        )
+        .reverse()
+        .sort((a, b) => b[key] - a[key]);
+
+      const start = cursor ? Number(cursor) : 0;
+      const end = start + (limit ?? 25);
+      return {
+        data: threads
+          .slice(start, end)
+          .map((thread) => this.threadView(thread, false)),
+        nextCursor: end < threads.length ? String(end) : null,
+      };
+    });
+
+    this.handle("thread/fork", (params) => {
+      const { threadId } = params as ThreadForkParams;
+      const source = this.getThread(threadId);
+      const thread = this.createThread();
+      thread.preview = source.preview;
+      thread.turns = source.turns.map((turn) => ({
+        ...turn,
+        items: [...turn.items],
+      }));
+      return this.threadResponse(thread, true);
+    });
+
+    this.handle("thread/rollback", (params) => {
+      const { threadId, numTurns } = params as ThreadRollbackParams;
+      const thread = this.getThread(threadId);
+      if (numTurns < 1 || numTurns > thread.turns.length) {
+        throw new Error(`Cannot roll back ${numTurns} turns`);
+      }
+      thread.turns.splice(thread.turns.length - numTurns);
+      thread.updatedAt = Math.floor(Date.now() / 1000);
+      return { thread: this.threadView(thread, true) };
+    });
+
+    this.handle("thread/name/set", (params) => {
+      const { threadId, name } = params as ThreadSetNameParams;
+      this.getThread(threadId);
+      setImmediate(() => {
+        this.notify("thread/name/updated", { threadId, threadName: name });
+      });
+      return {};
+    });
+
+    this.handle("thread/archive", (params) => {
+      const { threadId } = params as ThreadArchiveParams;
+      this.getThread(threadId);
+      this.archivedThreads.add(threadId);
+      return {};
+    });
+
+    this.handle("thread/unarchive", (params) => {
+      const { threadId } = params as ThreadUnarchiveParams;
+      const thread = this.getThread(threadId);
+      this.archivedThreads.delete(threadId);
+      return { thread: this.threadView(thread, false) };
+    });
+
+    this.handle("turn/start", (params) => {
+      const { threadId, input } = params as TurnStartParams;
+      const thread = this.getThread(threadId);
+
+      const turn: Turn = {
+        id: `turn-${++this.nextId}`,
+        items: [],
+        status: "inProgress",
+        error: null,
+      };
+
+      // Record the turn in the thread's history
+      const text = input.find((entry) => entry.type === "text")?.text;
+      if (!thread.preview && text) {
+        thread.preview = text;
+      }
+      thread.updatedAt = Math.floor(Date.now() / 1000);
+      thread.turns.push({
+        ...turn,
+        items: [{ type: "userMessage", id: this.itemId(), content: input }],
+      });
+
+      const running: RunningTurn = {
+        threadId,
+        turn,
+        interrupted: false,
+        usage: {
+          totalTokens: 0,
+          inputTokens: 0,
+          cachedInputTokens: 0,
+          outputTokens: 0,
+          reasoningOutputTokens: 0,
+        },
+      };
+      this.runningTurns.set(turn.id, running);
+
+      // Replay after the response has been written
+      const script = this.turns.shift() ?? { steps: [] };
+      setImmediate(() => {
+        this.runTurn(running, script).catch((error: unknown) => {
+          this.emit("error", error);
+        });
+      });
+
+      return { turn };
+    });
+
+    this.handle("turn/interrupt", (params) => {
+      const { turnId } = params as { turnId: string };
+      const running = this.runningTurns.get(turnId);
+      if (running) {
+        running.interrupted = true;
+      }
+      return {};
+    });
+  }
+
+  private handleLine(line: string): void {
+    const message = JSON.parse(line) as ReceivedMessage;
+    this.received.push(message);
+    this.emit("received", message);
+
+    // Response to a server request
+    if (message.id !== undefined && !message.method) {
+      const pending = this.pendingServerRequests.get(message.id);
+      if (pending) {
+        this.pendingServerRequests.delete(message.id);
+        if (message.error) {
+          pending.reject(new Error(message.error.message));
+        } else {
+          pending.resolve(message.result);
+        }
+      }
+      return;
+    }
+
+    // Client notification (e.g. "initialized")
+    if (message.id === undefined || !message.method) {
+      return;
+    }
+
+    const handler = this.handlers.get(message.method);
+    if (!handler) {
+      this.write({
+        id: message.id,
+        error: { code: -32601, message: `Unknown method: ${message.method}` },
+      });
+      return;
+    }
+
+    const { id } = message;
+    const fail = (error: unknown) => {
+      this.write({
+        id,
+        error: {
+          code: -32000,
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+      });
+    };
+
+    try {
+      const result = handler(message.params);
+      if (result instanceof Promise) {
+        result.then((value) => this.write({ id, result: value ?? {} }), fail);
+      } else {
+        this.write({ id, result: result ?? {} });
+      }
+    } catch (error) {
+      fail(error);
+    }
+  }
+
+  private async runTurn(
+    running: RunningTurn,
+    script: ScriptedTurn,
+  ): Promise<void> {
+    const { threadId, turn } = running;
+    this.notify("turn/started", { threadId, turn });
+
+    let failed = false;
+    for (const step of script.steps) {
+      await nextTick();
+      if (running.interrupted) {
+        break;
+      }
+      if (step.type === "error" && !step.willRetry) {
+        failed = true;
+      }
+      await this.runStep(running, step);
+    }
+
+    this.runningTurns.delete(turn.id);
+
+    const status: TurnStatus = running.interrupted
+      ? "interrupted"
+      : failed
+        ? "failed"
+        : "completed";
+    if (running.interrupted) {
+      this.legacyEvent(running, {
+        type: "turn_aborted",
+        reason: "interrupted",
+      });
+    }
+    this.notify("turn/completed", {
+      threadId,
+      turn: { ...turn, status },
+    });
+  }
+
+  private async runStep(
+    running: RunningTurn,
+    step: ScriptedStep,
+  ): Promise<void> {
+    const { threadId, turn } = running;
+    const scope = { threadId, turnId: turn.id };
+
+    switch (step.type) {
+      case "agentMessage": {
+        const item: ThreadItem = {
+          type: "agentMessage",
+          id: this.itemId(),
+          text: step.text,
+        };
+        this.notify("item/started", { ...scope, item: { ...item, text: "" } });
+        const chunks = step.chunks ?? step.text.split(/(?<=\s)/);
+        for (const delta of chunks) {
+          this.notify("item/agentMessage/delta", {
+            ...scope,
+            itemId: item.id,
+            delta,
+          });
+        }
+        this.notify("item/completed", { ...scope, item });
+        return;
+      }
+
+      case "commandExecution": {
+        const itemId = this.itemId();
+        const cwd = step.cwd ?? this.cwd;
+        const commandActions = step.commandActions ?? [
+          { type: "unknown", command: step.command },
+        ];
+
+        if (step.requestApproval) {
+          const { decision } = (await this.request(
+            "item/commandExecution/requestApproval",
+            {
+              ...scope,
+              itemId,
+              command: step.command,
+              cwd,
+              commandActions,
+              reason: step.reason ?? null,
+              proposedExecpolicyAmendment:
+                step.proposedExecpolicyAmendment ?? null,
+            },
+          )) as CommandExecutionRequestApprovalResponse;
+          if (decision === "decline" || decision === "cancel") {
+            this.notify("item/completed", {
+              ...scope,
+              item: commandItem(itemId, step.command, cwd, commandActions, {
+                status: "declined",
+              }),
+            });
+            return;
+          }
+        }
+
+        const output = step.output ?? "";
+        const exitCode = step.exitCode ?? 0;
+        const legacyCommand = {
+          call_id: itemId,
+          turn_id: turn.id,
+          command: ["bash", "-lc", step.command],
+          cwd,
+          parsed_cmd: [],
+          source: "agent" as const,
+        };
+
+        this.notify("item/started", {
+          ...scope,
+          item: commandItem(itemId, step.command, cwd, commandActions, {
+            status: "inProgress",
+          }),
+        });
+        this.legacyEvent(running, {
+          type: "exec_command_begin",
+          ...legacyCommand,
+        });
+
+        if (output) {
+          this.notify("item/commandExecution/outputDelta", {
+            ...scope,
+            itemId,
+            delta: output,
+          });
+          this.legacyEvent(running, {
+            type: "exec_command_output_delta",
+            call_id: itemId,
+            stream: "stdout",
+            chunk: output,
+          });
+        }
+
+        this.legacyEvent(running, {
+          type: "exec_command_end",
+          ...legacyCommand,
+          stdout: output,
+          stderr: "",
+          aggregated_output: output,
+          exit_code: exitCode,
+          duration: "0s",
+          formatted_output: output,
+        });
+        this.notify("item/completed", {
+          ...scope,
+          item: commandItem(itemId, step.command, cwd, commandActions, {
+            status: exitCode === 0 ? "completed" : "failed",
+            aggregatedOutput: output,
+            exitCode,
+            durationMs: 0,
+          }),
+        });
+        return;
+      }
+
+      case "fileChange": {
+        const id = this.itemId();
+
+        // Like codex, the proposed changes are announced before approval
+        this.notify("item/started", {
+          ...scope,
+          item: {
+            type: "fileChange",
+            id,
+            changes: step.changes,
+            status: "inProgress",
+          },
+        });
+
+        if (step.requestApproval) {
+          const { decision } = (await this.request(
+            "item/fileChange/requestApproval",
+            { ...scope, itemId: id, reason: step.reason ?? null },
+          )) as FileChangeRequestApprovalResponse;
+          if (decision === "decline" || decision === "cancel") {
+            this.notify("item/completed", {
+              ...scope,
+              item: {
+                type: "fileChange",
+                id,
+                changes: step.changes,
+                status: "declined",
+              },
+            });
+            return;
+          }
+        }
+
+        const changes = Object.fromEntries(
+          step.changes.map((change) => [change.path, legacyFileChange(change)]),
+        );
+
+        this.legacyEvent(running, {
+          type: "patch_apply_begin",
+          call_id: id,
+          turn_id: turn.id,
+          auto_approved: !step.requestApproval,
+          changes,
+        });
+        this.legacyEvent(running, {
+          type: "patch_apply_end",
+          call_id: id,
+          turn_id: turn.id,
+          stdout: "",
+          stderr: "",
+          success: true,
+          changes,
+        });
+        this.notify("item/completed", {
+          ...scope,
+          item: {
+            type: "fileChange",
+            id,
+            changes: step.changes,
+            status: "completed",
+          },
+        });
+        return;
+      }
+
+      case "reasoning": {
+        const item: ThreadItem = {
+          type: "reasoning",
+          id: this.itemId(),
+          summary: step.summary,
+          content: step.content ?? [],
+        };
+        this.notify("item/started", {
+          ...scope,
+          item: { ...item, summary: [], content: [] },
+        });
+        step.summary.forEach((part, summaryIndex) => {
+          this.notify("item/reasoning/summaryPartAdded", {
+            ...scope,
+            itemId: item.id,
+            summaryIndex,
+          });
+          for (const delta of part.split(/(?<=\s)/)) {
+            this.notify("item/reasoning/summaryTextDelta", {
+              ...scope,
+              itemId: item.id,
+              summaryIndex,
+              delta,
+            });
+          }
+        });
+        (step.content ?? []).forEach((delta, contentIndex) => {
+          this.notify("item/reasoning/textDelta", {
+            ...scope,
+            itemId: item.id,
+            contentIndex,
+            delta,
+          });
+        });
+        this.notify("item/completed", { ...scope, item });
+        return;
+      }
+
+      case "mcpToolCall": {
+        const item = {
+          type: "mcpToolCall" as const,
+          id: this.itemId(),
+          server: step.server,
+          tool: step.tool,
+          arguments: step.arguments ?? {},
+        };
+        this.notify("item/started", {
+          ...scope,
+          item: {
+            ...item,
+            status: "inProgress",
+            result: null,
+            error: null,
+            durationMs: null,
+          },
+        });
+        for (const message of step.progress ?? []) {
+          this.notify("item/mcpToolCall/progress", {
+            ...scope,
+            itemId: item.id,
+            message,
+          });
+        }
+        this.notify("item/completed", {
+          ...scope,
+          item: {
+            ...item,
+            status: step.error ? "failed" : "completed",
+            result: step.error
+              ? null
+              : (step.result ?? { content: [], structuredContent: null }),
+            error: step.error ? { message: step.error } : null,
+            durationMs: 0,
+          },
+        });
+        return;
+      }
+
+      case "item":
+        this.notify("item/started", { ...scope, item: step.item });
+        this.notify("item/completed", { ...scope, item: step.item });
+        return;
+
+      case "plan":
+        this.notify("turn/plan/updated", {
+          ...scope,
+          explanation: step.explanation ?? null,
+          plan: step.plan,
+        });
+        return;
+
+      case "turnDiff":
+        this.notify("turn/diff/updated", { ...scope, diff: step.diff });
+        return;
+
+      case "tokenUsage": {
+        const last = {
+          inputTokens: step.inputTokens,
+          cachedInputTokens: step.cachedInputTokens ?? 0,
+          outputTokens: step.outputTokens,
+          reasoningOutputTokens: step.reasoningOutputTokens ?? 0,
+          totalTokens: step.inputTokens + step.outputTokens,
+        };
+        for (const key of Object.keys(last) as (keyof typeof last)[]) {
+          running.usage[key] += last[key];
+        }
+        this.notify("thread/tokenUsage/updated", {
+          ...scope,
+          tokenUsage: {
+            total: { ...running.usage },
+            last,
+            modelContextWindow: 200_000,
+          },
+        });
+        return;
+      }
+
+      case "requestUserInput": {
+        const response = (await this.request("item/tool/requestUserInput", {
+          ...scope,
+          itemId: this.itemId(),
+          questions: step.questions,
+        })) as ToolRequestUserInputResponse;
+        this.emit("userInput", response);
+        return;
+      }
+
+      case "error":
+        this.notify("error", {
+          ...scope,
+          error: {
+            message: step.message,
+            codexErrorInfo: null,
+            additionalDetails: null,
+          },
+          willRetry: step.willRetry ?? false,
+        });
+        return;
+
+      case "delay":
+        await new Promise((resolve) => setTimeout(resolve, step.ms));
+        return;
+    }
+  }
+
+  private legacyEvent(running: RunningTurn, msg: EventMsg): void {
+    if (!this.legacyEvents) {
+      return;
+    }
+    this.write({
+      method: `codex/event/${msg.type}`,
+      params: {
+        id: running.turn.id,
+        msg,
+        conversationId: running.threadId,
+      },
+    });
+  }
+
+  private createThread(): Thread {
+    const now = Math.floor(Date.now() / 1000);
+    const thread: Thread = {
+      id: `thread-${++this.nextId}`,
+      preview: "",
+      modelProvider: "openai",
+      createdAt: now,
+      updatedAt: now,
+      path: null,
+      cwd: this.cwd,
+      cliVersion: "0.0.0",
+      source: "appServer",
+      gitInfo: null,
+      turns: [],
+    };
+    this.threads.set(thread.id, thread);
+    return thread;
+  }
+
+  /**
+   * Keep the thread history in sync with the notifications sent.
+   */
+  private record(notification: ServerNotification): void {
+    if (
+      notification.method !== "item/completed" &&
+      notification.method !== "turn/completed"
+    ) {
+      return;
+    }
+    const { threadId } = notification.params;
+    const turnId =
+      notification.method === "item/completed"
+        ? notification.params.turnId
+        : notification.params.turn.id;
+    const turn = this.threads
+      .get(threadId)
+      ?.turns.find((entry) => entry.id === turnId);
+    if (!turn) {
+      return;
+    }
+
+    if (notification.method === "item/completed") {
+      turn.items.push(notification.params.item);
+    } else {
+      turn.status = notification.params.turn.status;
+      turn.error = notification.params.turn.error;
+    }
+  }
+
+  /** The thread as returned by the API, with or without its turns */
+  private threadView(thread: Thread, includeTurns: boolean): Thread {
+    return {
+      ...thread,
+      turns: includeTurns
+        ? thread.turns.map((turn) => ({ ...turn, items: [...turn.items] }))
+        : [],
+    };
+  }
+
+  private getThread(threadId: string): Thread {
+    const thread = this.threads.get(threadId);
+    if (!thread) {
+      throw new Error(`Thread not found: ${threadId}`);
+    }
+    return thread;
+  }
+
+  private threadResponse(
+    thread: Thread,
+    includeTurns = false,
+  ): ThreadStartResponse {
+    return {
+      thread: this.threadView(thread, includeTurns),
+      model: "fake-model",
+      modelProvider: thread.modelProvider,
+      cwd: thread.cwd,
+      approvalPolicy: "on-request",
+      sandbox: {
+        type: "workspaceWrite",
+        writableRoots: [thread.cwd],
+        networkAccess: false,
+        excludeTmpdirEnvVar: false,
+        excludeSlashTmp: false,
+      },
+      reasoningEffort: null,
+    };
+  }
+
+  private itemId(): string {
+    return `item-${++this.nextId}`;
+  }
+
+  private write(message: unknown): void {
+    this.connection.send(JSON.stringify(message));
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function commandItem(
+  id: string,
+  command: string,
+  cwd: string,
+  commandActions: CommandAction[],
+  state: Partial<Extract<ThreadItem, { type: "commandExecution" }>>,
+): ThreadItem {
+  return {
+    type: "commandExecution",
+    id,
+    command,
+    cwd,
+    processId: null,
+    status: "inProgress",
+    commandActions,
+    aggregatedOutput: null,
+    exitCode: null,
+    durationMs: null,
+    ...state,
+  };
+}
+
+function legacyFileChange(change: FileUpdateChange): FileChange {
+  switch (change.kind.type) {
+    case "add":
+      return { type: "add", content: change.diff };
+    case "delete":
+      return { type: "delete", content: change.diff };
+    case "update":
+      return {
+        type: "update",
+        unified_diff: change.diff,
+        move_path: change.kind.move_path,
+      };
+  }
+}
+
+function nextTick(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
@@ -0,0 +1,157 @@
+import { EventEmitter } from "node:events";
+
+import type { RequestId } from "../schemas";
+import type { TraceEntry } from "../trace";
+import type { FakeServerConnection, ReceivedMessage } from "./fake-app-server";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Options for TraceReplayer */
+export interface TraceReplayerOptions {
+  /**
+   * Playback speed relative to the recorded timestamps: 1 = as recorded,
+   * 2 = twice as fast, 0 = no delays (default: 1).
+   */
+  speed?: number;
+}
+
+// ============================================================================
+// TraceReplayer Class
+// ============================================================================
+
+/**
+ * Plays the app-server side of a recorded protocol trace against a client.
+ *
+ * Inbound messages are sent in their recorded order. Before replaying past
+ * an outbound entry, the replayer waits for the client to send the matching
+ * message (same method for requests and notifications, same id for responses
+ * to server requests); params are not compared. Request ids are remapped, so
+ * the client does not need to number its requests like the recorded one.
+ *
+ * Emits `end` when the trace is exhausted and `unexpected` for client
+ * requests the trace has no answer for, which are rejected with an error.
+ */
+export class TraceReplayer extends EventEmitter {
+  private readonly connection: FakeServerConnection;
+  private readonly entries: TraceEntry[];
+  private readonly speed: number;
+  private received: ReceivedMessage[] = [];
+  private waiting: (() => void) | null = null;
+  // Recorded request id -> id the client used for the same request
+  private requestIds = new Map<RequestId, RequestId>();
+
+  constructor(
+    connection: FakeServerConnection,
+    entries: TraceEntry[],
+    options: TraceReplayerOptions = {},
+  ) {
+    super();
+    this.connection = connection;
+    this.entries = entries;
+    this.speed = options.speed ?? 1;
+
+    this.connection.on("message", (line) => {
+      this.received.push(JSON.parse(line) as ReceivedMessage);
+      this.waiting?.();
+    });
+  }
+
+  /**
+   * Replay the trace. Resolves when every entry has been played.
+   */
+  async start(): Promise<void> {
+    let previous: number | null = null;
+
+    for (const [index, entry] of this.entries.entries()) {
+      const message = entry.message as ReceivedMessage;
+      const time = Date.parse(entry.timestamp);
+
+      if (entry.direction === "outbound") {
+        const actual = await this.waitFor(message);
+        if (
+          message.method &&
+          message.id !== undefined &&
+          actual.id !== undefined
+        ) {
+          this.requestIds.set(message.id, actual.id);
+        }
+      } else {
+        if (previous !== null && this.speed > 0) {
+          await sleep((time - previous) / this.speed);
+        }
+        this.send(message);
+      }
+
+      previous = time;
+      this.emit("progress", index + 1, this.entries.length);
+    }
+
+    this.rejectUnexpected();
+    this.emit("end");
+  }
+
+  // --------------------------------------------------------------------------
+  // Internal Methods
+  // --------------------------------------------------------------------------
+
+  /**
+   * Wait for the client message matching a recorded outbound message.
+   */
+  private async waitFor(expected: ReceivedMessage): Promise<ReceivedMessage> {
+    while (true) {
+      const index = this.received.findIndex((actual) =>
+        expected.method
+          ? actual.method === expected.method
+          : !actual.method && actual.id === expected.id,
+      );
+      if (index !== -1) {
+        return this.received.splice(index, 1)[0];
+      }
+
+      await new Promise<void>((resolve) => {
+        this.waiting = resolve;
+      });
+      this.waiting = null;
+    }
+  }
+
+  private send(message: ReceivedMessage): void {
+    // Responses go to the id the client actually used
+    if (!message.method && message.id !== undefined) {
+      const id = this.requestIds.get(message.id) ?? message.id;
+      message = { ...message, id };
+    }
+    this.connection.send(JSON.stringify(message));
+  }
+
+  /**
+   * After the trace ends, nothing will answer outstanding client requests.
+   */
+  private rejectUnexpected(): void {
+    const reject = () => {
+      for (const message of this.received.splice(0)) {
+        if (message.method && message.id !== undefined) {
+          this.emit("unexpected", message);
+          this.connection.send(
+            JSON.stringify({
+              id: message.id,
+              error: {
+                code: -32603,
+                message: `Not in trace: ${message.method}`,
+              },
+            }),
+          );
+        }
+      }
+    };
+
+    reject();
+    this.waiting = reject;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(0, ms)));
+}
@@ -0,0 +1,73 @@
+import fs from "node:fs";
+import path from "node:path";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Which way a message crossed the connection */
+export type TraceDirection = "outbound" | "inbound";
+
+/** One line of a JSONL protocol trace */
+export interface TraceEntry {
+  /** ISO 8601 time the message was sent or received */
+  timestamp: string;
+  /** `outbound` = client to app-server, `inbound` = app-server to client */
+  direction: TraceDirection;
+  /** The JSON-RPC message, or the raw line if it was not valid JSON */
+  message: unknown;
+}
+
+// ============================================================================
+// TraceRecorder Class
+// ============================================================================
+
+/**
+ * Appends every JSON-RPC message to a JSONL trace file, for debugging
+ * sessions after the fact. Replay a trace with `scripts/replay-trace.ts`.
+ */
+export class TraceRecorder {
+  private readonly stream: fs.WriteStream;
+
+  constructor(file: string) {
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+    this.stream = fs.createWriteStream(file, { flags: "a" });
+
+    // A broken trace must never break the session itself
+    this.stream.on("error", () => {});
+  }
+
+  /**
+   * Record a message as it went over the wire.
+   */
+  record(direction: TraceDirection, line: string): void {
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      message = line;
+    }
+
+    const entry: TraceEntry = {
+      timestamp: new Date().toISOString(),
+      direction,
+      message,
+    };
+    this.stream.write(`${JSON.stringify(entry)}\n`);
+  }
+
+  close(): void {
+    this.stream.end();
+  }
+}
+
+/**
+ * Read a JSONL trace file written by TraceRecorder.
+ */
+export function readTrace(file: string): TraceEntry[] {
+  return fs
+    .readFileSync(file, "utf8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as TraceEntry);
+}
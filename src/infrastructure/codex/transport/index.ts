@@ -0,0 +1,13 @@
+export { InMemoryTransport } from "./memory";
+export {
+  type ConfigOverrideValue,
+  StdioTransport,
+  type StdioTransportOptions,
+} from "./stdio";
+export { TcpTransport, type TcpTransportOptions } from "./tcp";
+export type { Transport, TransportCloseInfo } from "./types";
+export {
+  type WebSocketConstructor,
+  WebSocketTransport,
+  type WebSocketTransportOptions,
+} from "./websocket";
@@ -0,0 +1,79 @@
+import { EventEmitter } from "node:events";
+
+import type { Transport } from "./types";
+
+/**
+ * One end of an in-process duplex pipe, for tests and fakes.
+ *
+ * Both ends share a single connection: `open()` or `close()` on either end
+ * opens or closes both, and both ends emit `open` / `close`. Messages are
+ * delivered asynchronously, like real I/O.
+ *
+ * @example
+ * ```ts
+ * const [client, server] = InMemoryTransport.pair();
+ * server.on("message", (line) => {
+ *   const request = JSON.parse(line);
+ *   server.send(JSON.stringify({ id: request.id, result: {} }));
+ * });
+ * const codex = CodexAppServer.getInstance({ transport: client });
+ * ```
+ */
+export class InMemoryTransport extends EventEmitter implements Transport {
+  private peer: InMemoryTransport | null = null;
+  private connected = false;
+
+  /**
+   * Create two connected ends: one for the client, one for the fake server.
+   */
+  static pair(): [InMemoryTransport, InMemoryTransport] {
+    const client = new InMemoryTransport();
+    const server = new InMemoryTransport();
+    client.peer = server;
+    server.peer = client;
+    return [client, server];
+  }
+
+  open(): void {
+    if (this.connected) {
+      return;
+    }
+
+    for (const end of this.ends()) {
+      end.connected = true;
+      end.emit("open");
+    }
+  }
+
+  isOpen(): boolean {
+    return this.connected;
+  }
+
+  send(message: string): void {
+    if (!this.connected || !this.peer) {
+      throw new Error("In-memory transport is not connected");
+    }
+
+    const peer = this.peer;
+    queueMicrotask(() => {
+      if (peer.connected) {
+        peer.emit("message", message);
+      }
+    });
+  }
+
+  close(): void {
+    if (!this.connected) {
+      return;
+    }
+
+    for (const end of this.ends()) {
+      end.connected = false;
+      end.emit("close", { code: null, signal: null });
+    }
+  }
+
+  private ends(): InMemoryTransport[] {
+    return this.peer ? [this, this.peer] : [this];
+  }
+}
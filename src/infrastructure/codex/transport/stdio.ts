@@ -0,0 +1,157 @@
+import type { ChildProcess } from "node:child_process";
+import { spawn } from "node:child_process";
+import { EventEmitter } from "node:events";
+import readline from "node:readline";
+
+import type { Transport } from "./types";
+
+/** Value of a `-c key=value` config override */
+export type ConfigOverrideValue =
+  | string
+  | number
+  | boolean
+  | ConfigOverrideValue[]
+  | { [key: string]: ConfigOverrideValue };
+
+/** Options for spawning the app-server process */
+export interface StdioTransportOptions {
+  /** Executable to run, e.g. `node_modules/.bin/codex` (default: "codex") */
+  command?: string;
+  /** Arguments passed to the executable (default: ["app-server"]) */
+  args?: string[];
+  /** Working directory of the app-server (default: the current directory) */
+  cwd?: string;
+  /** Extra environment variables, merged over `process.env` */
+  env?: Record<string, string | undefined>;
+  /** `CODEX_HOME` for the app-server, isolating its config and sessions */
+  codexHome?: string;
+  /** Config overrides passed as `-c key=value`, keyed by dotted path */
+  config?: Record<string, ConfigOverrideValue>;
+}
+
+/**
+ * Transport that spawns `codex app-server` as a child process and speaks
+ * JSONL over its stdin/stdout. Each `open()` spawns a fresh process.
+ */
+export class StdioTransport extends EventEmitter implements Transport {
+  private readonly command: string;
+  private readonly args: string[];
+  private readonly cwd: string | undefined;
+  private readonly env: NodeJS.ProcessEnv;
+  private process: ChildProcess | null = null;
+  private reader: readline.Interface | null = null;
+
+  constructor(options: StdioTransportOptions = {}) {
+    super();
+    this.command = options.command ?? "codex";
+    this.args = [
+      ...configOverrideArgs(options.config ?? {}),
+      ...(options.args ?? ["app-server"]),
+    ];
+    this.cwd = options.cwd;
+    this.env = {
+      ...process.env,
+      ...options.env,
+      ...(options.codexHome ? { CODEX_HOME: options.codexHome } : {}),
+    };
+  }
+
+  open(): void {
+    const child = spawn(this.command, this.args, {
+      cwd: this.cwd,
+      env: this.env,
+      stdio: ["pipe", "pipe", "inherit"],
+    });
+
+    if (!child.stdout || !child.stdin) {
+      throw new Error("Failed to create stdio pipes for Codex process");
+    }
+
+    this.process = child;
+    this.reader = readline.createInterface({ input: child.stdout });
+    this.reader.on("line", (line) => {
+      this.emit("message", line);
+    });
+
+    // Write errors on a dying process surface through "exit" instead
+    child.stdin.on("error", () => {});
+
+    child.on("error", (error) => {
+      this.emit("error", error);
+
+      // A failed spawn never emits "exit"
+      if (child.pid === undefined) {
+        this.handleExit(child, null, null);
+      }
+    });
+
+    child.on("exit", (code, signal) => {
+      this.handleExit(child, code, signal);
+    });
+  }
+
+  isOpen(): boolean {
+    return this.process !== null;
+  }
+
+  send(message: string): void {
+    if (!this.process?.stdin) {
+      throw new Error("Codex process is not running");
+    }
+    this.process.stdin.write(`${message}\n`);
+  }
+
+  close(): void {
+    const child = this.process;
+    if (!child) {
+      return;
+    }
+
+    this.handleExit(child, null, null);
+    child.stdin?.end();
+    child.kill();
+  }
+
+  private handleExit(
+    child: ChildProcess,
+    code: number | null,
+    signal: NodeJS.Signals | null,
+  ): void {
+    // Ignore late events from a process that has already been replaced
+    if (child !== this.process) {
+      return;
+    }
+
+    this.process = null;
+    this.reader?.close();
+    this.reader = null;
+    this.emit("close", { code, signal });
+  }
+}
+
+/**
+ * Build `-c key=value` arguments. Values are written as TOML literals, which
+ * is how the Codex CLI parses them.
+ */
+function configOverrideArgs(
+  config: Record<string, ConfigOverrideValue>,
+): string[] {
+  return Object.entries(config).flatMap(([key, value]) => [
+    "-c",
+    `${key}=${toTomlValue(value)}`,
+  ]);
+}
+
+function toTomlValue(value: ConfigOverrideValue): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(toTomlValue).join(", ")}]`;
+  }
+  if (typeof value === "object") {
+    const entries = Object.entries(value).map(
+      ([key, entry]) => `${JSON.stringify(key)} = ${toTomlValue(entry)}`,
+    );
+    return `{ ${entries.join(", ")} }`;
+  }
+  // JSON strings are valid TOML basic strings
+  return typeof value === "string" ? JSON.stringify(value) : String(value);
+}
@@ -0,0 +1,83 @@
+import { EventEmitter } from "node:events";
+import net from "node:net";
+import readline from "node:readline";
+
+import type { Transport } from "./types";
+
+/** Address of an app-server listening on a TCP socket */
+export interface TcpTransportOptions {
+  host?: string;
+  port: number;
+}
+
+/**
+ * Transport that connects to an app-server over a TCP socket speaking the
+ * same JSONL JSON-RPC as stdio. Each `open()` opens a fresh socket.
+ */
+export class TcpTransport extends EventEmitter implements Transport {
+  private readonly host: string;
+  private readonly port: number;
+  private socket: net.Socket | null = null;
+  private reader: readline.Interface | null = null;
+
+  constructor(options: TcpTransportOptions) {
+    super();
+    this.host = options.host ?? "127.0.0.1";
+    this.port = options.port;
+  }
+
+  open(): void {
+    // Writes issued before the socket connects are buffered by net.Socket
+    const socket = net.createConnection({ host: this.host, port: this.port });
+    socket.setEncoding("utf8");
+
+    this.socket = socket;
+    this.reader = readline.createInterface({ input: socket });
+    this.reader.on("line", (line) => {
+      this.emit("message", line);
+    });
+    // readline re-emits the socket's errors, which are reported below
+    this.reader.on("error", () => {});
+
+    socket.on("error", (error) => {
+      this.emit("error", error);
+    });
+
+    socket.on("close", () => {
+      this.handleClose(socket);
+    });
+  }
+
+  isOpen(): boolean {
+    return this.socket !== null;
+  }
+
+  send(message: string): void {
+    if (!this.socket) {
+      throw new Error("Codex socket is not connected");
+    }
+    this.socket.write(`${message}\n`);
+  }
+
+  close(): void {
+    const socket = this.socket;
+    if (!socket) {
+      return;
+    }
+
+    this.handleClose(socket);
+    socket.destroy();
+  }
+
+  private handleClose(socket: net.Socket): void {
+    // Ignore late events from a socket that has already been replaced
+    if (socket !== this.socket) {
+      return;
+    }
+
+    this.socket = null;
+    this.reader?.close();
+    this.reader = null;
+    this.emit("close", { code: null, signal: null });
+  }
+}
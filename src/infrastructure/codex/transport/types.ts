@@ -0,0 +1,31 @@
+import type { EventEmitter } from "node:events";
+
+/** Why a transport connection ended */
+export interface TransportCloseInfo {
+  /** Exit code of the app-server process, when there is one */
+  code: number | null;
+  /** Signal that terminated the app-server process, when there is one */
+  signal: NodeJS.Signals | null;
+}
+
+/**
+ * Bidirectional channel carrying JSONL JSON-RPC messages to and from a
+ * Codex app-server.
+ *
+ * A transport emits:
+ * - `message` (line: string) - one serialized JSON-RPC message
+ * - `error` (error: Error) - a connection level error
+ * - `close` (info: TransportCloseInfo) - the connection ended
+ *
+ * `open()` may be called again after `close` to reconnect.
+ */
+export interface Transport extends EventEmitter {
+  /** Establish a new connection */
+  open(): void;
+  /** Check if the connection is open */
+  isOpen(): boolean;
+  /** Send one serialized JSON-RPC message (without trailing newline) */
+  send(message: string): void;
+  /** End the current connection */
+  close(): void;
+}
@@ -0,0 +1,125 @@
+import { EventEmitter } from "node:events";
+
+import type { Transport } from "./types";
+
+// Checked like a method parameter, so that implementations whose events carry
+// more than the transport reads (the global `WebSocket`, `ws`) still fit
+type EventHandler<E> = { handle(event: E): void }["handle"] | null;
+
+/** Subset of the WebSocket API used by the transport */
+interface WebSocketLike {
+  readonly readyState: number;
+  onopen: EventHandler<unknown>;
+  onmessage: EventHandler<{ data: unknown }>;
+  onerror: EventHandler<unknown>;
+  onclose: EventHandler<{ code: number }>;
+  send(data: string): void;
+  close(): void;
+}
+
+/** WebSocket constructor, e.g. the global `WebSocket` or the `ws` package */
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+/** Address of an app-server reachable over a WebSocket */
+export interface WebSocketTransportOptions {
+  url: string;
+  /** WebSocket implementation (default: `globalThis.WebSocket`) */
+  WebSocket?: WebSocketConstructor;
+}
+
+const WEBSOCKET_OPEN = 1;
+
+/**
+ * Transport that connects to an app-server over a WebSocket. Each text frame
+ * carries one or more JSONL JSON-RPC messages. Each `open()` opens a fresh
+ * socket.
+ */
+export class WebSocketTransport extends EventEmitter implements Transport {
+  private readonly url: string;
+  private readonly WebSocketImpl: WebSocketConstructor;
+  private socket: WebSocketLike | null = null;
+  // Messages sent before the socket finished connecting
+  private outbox: string[] = [];
+
+  constructor(options: WebSocketTransportOptions) {
+    super();
+
+    const WebSocketImpl =
+      options.WebSocket ??
+      (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket;
+    if (!WebSocketImpl) {
+      throw new Error(
+        "WebSocket is not available; pass a WebSocket implementation",
+      );
+    }
+
+    this.url = options.url;
+    this.WebSocketImpl = WebSocketImpl;
+  }
+
+  open(): void {
+    const socket = new this.WebSocketImpl(this.url);
+    this.socket = socket;
+    this.outbox = [];
+
+    socket.onopen = () => {
+      for (const message of this.outbox) {
+        socket.send(message);
+      }
+      this.outbox = [];
+    };
+
+    socket.onmessage = (event) => {
+      for (const line of String(event.data).split("\n")) {
+        if (line.trim()) {
+          this.emit("message", line);
+        }
+      }
+    };
+
+    socket.onerror = () => {
+      this.emit("error", new Error(`WebSocket error on ${this.url}`));
+    };
+
+    socket.onclose = (event) => {
+      this.handleClose(socket, event.code);
+    };
+  }
+
+  isOpen(): boolean {
+    return this.socket !== null;
+  }
+
+  send(message: string): void {
+    if (!this.socket) {
+      throw new Error("Codex WebSocket is not connected");
+    }
+
+    if (this.socket.readyState === WEBSOCKET_OPEN) {
+      this.socket.send(message);
+    } else {
+      this.outbox.push(message);
+    }
+  }
+
+  close(): void {
+    const socket = this.socket;
+    if (!socket) {
+      return;
+    }
+
+    this.handleClose(socket, null);
+    socket.close();
+  }
+
+  private handleClose(socket: WebSocketLike, code: number | null): void {
+    // Ignore late events from a socket that has already been replaced
+    if (socket !== this.socket) {
+      return;
+    }
+
+    this.socket = null;
+    this.outbox = [];
+    this.emit("close", { code, signal: null });
+  }
+}
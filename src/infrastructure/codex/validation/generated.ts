@@ -0,0 +1,5839 @@
+// GENERATED CODE! DO NOT MODIFY BY HAND!
+// Generated by scripts/generate-validators.ts from the ts-rs schemas.
+
+import type { TypeDescriptor } from "./types";
+
+/** Codex version the schemas were generated from */
+export const SCHEMA_VERSION = "0.97.0";
+
+/** Response type of each MethodMap method */
+export const RESPONSE_TYPES: Record<string, string> = {
+  initialize: "InitializeResponse",
+  "thread/start": "v2/ThreadStartResponse",
+  "thread/resume": "v2/ThreadResumeResponse",
+  "thread/fork": "v2/ThreadForkResponse",
+  "thread/list": "v2/ThreadListResponse",
+  "thread/read": "v2/ThreadReadResponse",
+  "thread/archive": "v2/ThreadArchiveResponse",
+  "thread/unarchive": "v2/ThreadUnarchiveResponse",
+  "thread/rollback": "v2/ThreadRollbackResponse",
+  "thread/name/set": "v2/ThreadSetNameResponse",
+  "thread/compact/start": "v2/ThreadCompactStartResponse",
+  "thread/loaded/list": "v2/ThreadLoadedListResponse",
+  "turn/start": "v2/TurnStartResponse",
+  "turn/interrupt": "v2/TurnInterruptResponse",
+  "account/login/start": "v2/LoginAccountResponse",
+  "account/login/cancel": "v2/CancelLoginAccountResponse",
+  "account/logout": "v2/LogoutAccountResponse",
+  "account/read": "v2/GetAccountResponse",
+  "account/rateLimits/read": "v2/GetAccountRateLimitsResponse",
+  "model/list": "v2/ModelListResponse",
+  "skills/list": "v2/SkillsListResponse",
+  "skills/remote/read": "v2/SkillsRemoteReadResponse",
+  "skills/remote/write": "v2/SkillsRemoteWriteResponse",
+  "skills/config/write": "v2/SkillsConfigWriteResponse",
+  "app/list": "v2/AppsListResponse",
+  "mcpServer/oauth/login": "v2/McpServerOauthLoginResponse",
+  "config/mcpServer/reload": "v2/McpServerRefreshResponse",
+  "mcpServerStatus/list": "v2/ListMcpServerStatusResponse",
+  "command/exec": "v2/CommandExecResponse",
+  "review/start": "v2/ReviewStartResponse",
+  "feedback/upload": "v2/FeedbackUploadResponse",
+  "config/read": "v2/ConfigReadResponse",
+  "config/value/write": "v2/ConfigWriteResponse",
+  "config/batchWrite": "v2/ConfigWriteResponse",
+  "configRequirements/read": "v2/ConfigRequirementsReadResponse",
+};
+
+/** Descriptors of every schema type reachable from the validated messages */
+export const TYPES: Record<string, TypeDescriptor> = {
+  AbsolutePathBuf: { kind: "string" },
+  AgentMessageContent: {
+    kind: "object",
+    properties: {
+      type: { type: { kind: "literal", value: "Text" } },
+      text: { type: { kind: "string" } },
+    },
+  },
+  AgentMessageContentDeltaEvent: {
+    kind: "object",
+    properties: {
+      thread_id: { type: { kind: "string" } },
+      turn_id: { type: { kind: "string" } },
+      item_id: { type: { kind: "string" } },
+      delta: { type: { kind: "string" } },
+    },
+  },
+  AgentMessageDeltaEvent: {
+    kind: "object",
+    properties: { delta: { type: { kind: "string" } } },
+  },
+  AgentMessageEvent: {
+    kind: "object",
+    properties: { message: { type: { kind: "string" } } },
+  },
+  AgentMessageItem: {
+    kind: "object",
+    properties: {
+      id: { type: { kind: "string" } },
+      content: {
+        type: {
+          kind: "array",
+          items: { kind: "ref", name: "AgentMessageContent" },
+        },
+      },
+    },
+  },
+  AgentReasoningDeltaEvent: {
+    kind: "object",
+    properties: { delta: { type: { kind: "string" } } },
+  },
+  AgentReasoningEvent: {
+    kind: "object",
+    properties: { text: { type: { kind: "string" } } },
+  },
+  AgentReasoningRawContentDeltaEvent: {
+    kind: "object",
+    properties: { delta: { type: { kind: "string" } } },
+  },
+  AgentReasoningRawContentEvent: {
+    kind: "object",
+    properties: { text: { type: { kind: "string" } } },
+  },
+  AgentReasoningSectionBreakEvent: {
+    kind: "object",
+    properties: {
+      item_id: { type: { kind: "string" } },
+      summary_index: { type: { kind: "number" } },
+    },
+  },
+  AgentStatus: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "pending_init" },
+      { kind: "literal", value: "running" },
+      {
+        kind: "object",
+        properties: {
+          completed: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+        },
+      },
+      { kind: "object", properties: { errored: { type: { kind: "string" } } } },
+      { kind: "literal", value: "shutdown" },
+      { kind: "literal", value: "not_found" },
+    ],
+  },
+  ApplyPatchApprovalParams: {
+    kind: "object",
+    properties: {
+      conversationId: { type: { kind: "ref", name: "ThreadId" } },
+      callId: { type: { kind: "string" } },
+      fileChanges: {
+        type: { kind: "record", values: { kind: "ref", name: "FileChange" } },
+      },
+      reason: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+      grantRoot: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  ApplyPatchApprovalRequestEvent: {
+    kind: "object",
+    properties: {
+      call_id: { type: { kind: "string" } },
+      turn_id: { type: { kind: "string" } },
+      changes: {
+        type: { kind: "record", values: { kind: "ref", name: "FileChange" } },
+      },
+      reason: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+      grant_root: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  AskForApproval: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "untrusted" },
+      { kind: "literal", value: "on-failure" },
+      { kind: "literal", value: "on-request" },
+      { kind: "literal", value: "never" },
+    ],
+  },
+  AuthMode: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "apikey" },
+      { kind: "literal", value: "chatgpt" },
+      { kind: "literal", value: "chatgptAuthTokens" },
+    ],
+  },
+  AuthStatusChangeNotification: {
+    kind: "object",
+    properties: {
+      authMethod: {
+        type: {
+          kind: "union",
+          members: [{ kind: "ref", name: "AuthMode" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  BackgroundEventEvent: {
+    kind: "object",
+    properties: { message: { type: { kind: "string" } } },
+  },
+  ByteRange: {
+    kind: "object",
+    properties: {
+      start: { type: { kind: "number" } },
+      end: { type: { kind: "number" } },
+    },
+  },
+  CallToolResult: {
+    kind: "object",
+    properties: {
+      content: {
+        type: {
+          kind: "array",
+          items: { kind: "ref", name: "serde_json/JsonValue" },
+        },
+      },
+      structuredContent: {
+        type: { kind: "ref", name: "serde_json/JsonValue" },
+        optional: true,
+      },
+      isError: { type: { kind: "boolean" }, optional: true },
+      _meta: {
+        type: { kind: "ref", name: "serde_json/JsonValue" },
+        optional: true,
+      },
+    },
+  },
+  CodexErrorInfo: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "context_window_exceeded" },
+      { kind: "literal", value: "usage_limit_exceeded" },
+      {
+        kind: "object",
+        properties: {
+          model_cap: {
+            type: {
+              kind: "object",
+              properties: {
+                model: { type: { kind: "string" } },
+                reset_after_seconds: {
+                  type: {
+                    kind: "union",
+                    members: [{ kind: "number" }, { kind: "null" }],
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          http_connection_failed: {
+            type: {
+              kind: "object",
+              properties: {
+                http_status_code: {
+                  type: {
+                    kind: "union",
+                    members: [{ kind: "number" }, { kind: "null" }],
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          response_stream_connection_failed: {
+            type: {
+              kind: "object",
+              properties: {
+                http_status_code: {
+                  type: {
+                    kind: "union",
+                    members: [{ kind: "number" }, { kind: "null" }],
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      { kind: "literal", value: "internal_server_error" },
+      { kind: "literal", value: "unauthorized" },
+      { kind: "literal", value: "bad_request" },
+      { kind: "literal", value: "sandbox_error" },
+      {
+        kind: "object",
+        properties: {
+          response_stream_disconnected: {
+            type: {
+              kind: "object",
+              properties: {
+                http_status_code: {
+                  type: {
+                    kind: "union",
+                    members: [{ kind: "number" }, { kind: "null" }],
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          response_too_many_failed_attempts: {
+            type: {
+              kind: "object",
+              properties: {
+                http_status_code: {
+                  type: {
+                    kind: "union",
+                    members: [{ kind: "number" }, { kind: "null" }],
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      { kind: "literal", value: "thread_rollback_failed" },
+      { kind: "literal", value: "other" },
+    ],
+  },
+  CollabAgentInteractionBeginEvent: {
+    kind: "object",
+    properties: {
+      call_id: { type: { kind: "string" } },
+      sender_thread_id: { type: { kind: "ref", name: "ThreadId" } },
+      receiver_thread_id: { type: { kind: "ref", name: "ThreadId" } },
+      prompt: { type: { kind: "string" } },
+    },
+  },
+  CollabAgentInteractionEndEvent: {
+    kind: "object",
+    properties: {
+      call_id: { type: { kind: "string" } },
+      sender_thread_id: { type: { kind: "ref", name: "ThreadId" } },
+      receiver_thread_id: { type: { kind: "ref", name: "ThreadId" } },
+      prompt: { type: { kind: "string" } },
+      status: { type: { kind: "ref", name: "AgentStatus" } },
+    },
+  },
+  CollabAgentSpawnBeginEvent: {
+    kind: "object",
+    properties: {
+      call_id: { type: { kind: "string" } },
+      sender_thread_id: { type: { kind: "ref", name: "ThreadId" } },
+      prompt: { type: { kind: "string" } },
+    },
+  },
+  CollabAgentSpawnEndEvent: {
+    kind: "object",
+    properties: {
+      call_id: { type: { kind: "string" } },
+      sender_thread_id: { type: { kind: "ref", name: "ThreadId" } },
+      new_thread_id: {
+        type: {
+          kind: "union",
+          members: [{ kind: "ref", name: "ThreadId" }, { kind: "null" }],
+        },
+      },
+      prompt: { type: { kind: "string" } },
+      status: { type: { kind: "ref", name: "AgentStatus" } },
+    },
+  },
+  CollabCloseBeginEvent: {
+    kind: "object",
+    properties: {
+      call_id: { type: { kind: "string" } },
+      sender_thread_id: { type: { kind: "ref", name: "ThreadId" } },
+      receiver_thread_id: { type: { kind: "ref", name: "ThreadId" } },
+    },
+  },
+  CollabCloseEndEvent: {
+    kind: "object",
+    properties: {
+      call_id: { type: { kind: "string" } },
+      sender_thread_id: { type: { kind: "ref", name: "ThreadId" } },
+      receiver_thread_id: { type: { kind: "ref", name: "ThreadId" } },
+      status: { type: { kind: "ref", name: "AgentStatus" } },
+    },
+  },
+  CollabWaitingBeginEvent: {
+    kind: "object",
+    properties: {
+      sender_thread_id: { type: { kind: "ref", name: "ThreadId" } },
+      receiver_thread_ids: {
+        type: { kind: "array", items: { kind: "ref", name: "ThreadId" } },
+      },
+      call_id: { type: { kind: "string" } },
+    },
+  },
+  CollabWaitingEndEvent: {
+    kind: "object",
+    properties: {
+      sender_thread_id: { type: { kind: "ref", name: "ThreadId" } },
+      call_id: { type: { kind: "string" } },
+      statuses: {
+        type: { kind: "record", values: { kind: "ref", name: "AgentStatus" } },
+      },
+    },
+  },
+  ContentItem: {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "input_text" } },
+          text: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "input_image" } },
+          image_url: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "output_text" } },
+          text: { type: { kind: "string" } },
+        },
+      },
+    ],
+  },
+  ContextCompactedEvent: { kind: "null" },
+  ContextCompactionItem: {
+    kind: "object",
+    properties: { id: { type: { kind: "string" } } },
+  },
+  CreditsSnapshot: {
+    kind: "object",
+    properties: {
+      has_credits: { type: { kind: "boolean" } },
+      unlimited: { type: { kind: "boolean" } },
+      balance: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  CustomPrompt: {
+    kind: "object",
+    properties: {
+      name: { type: { kind: "string" } },
+      path: { type: { kind: "string" } },
+      content: { type: { kind: "string" } },
+      description: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+      argument_hint: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  DeprecationNoticeEvent: {
+    kind: "object",
+    properties: {
+      summary: { type: { kind: "string" } },
+      details: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  DynamicToolCallRequest: {
+    kind: "object",
+    properties: {
+      callId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+      tool: { type: { kind: "string" } },
+      arguments: { type: { kind: "ref", name: "serde_json/JsonValue" } },
+    },
+  },
+  ElicitationRequestEvent: {
+    kind: "object",
+    properties: {
+      server_name: { type: { kind: "string" } },
+      id: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "number" }],
+        },
+      },
+      message: { type: { kind: "string" } },
+    },
+  },
+  ErrorEvent: {
+    kind: "object",
+    properties: {
+      message: { type: { kind: "string" } },
+      codex_error_info: {
+        type: {
+          kind: "union",
+          members: [{ kind: "ref", name: "CodexErrorInfo" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  EventMsg: {
+    kind: "union",
+    members: [
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: { type: { type: { kind: "literal", value: "error" } } },
+          },
+          { kind: "ref", name: "ErrorEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "warning" } },
+            },
+          },
+          { kind: "ref", name: "WarningEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "context_compacted" } },
+            },
+          },
+          { kind: "ref", name: "ContextCompactedEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "thread_rolled_back" } },
+            },
+          },
+          { kind: "ref", name: "ThreadRolledBackEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "task_started" } },
+            },
+          },
+          { kind: "ref", name: "TurnStartedEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "task_complete" } },
+            },
+          },
+          { kind: "ref", name: "TurnCompleteEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "token_count" } },
+            },
+          },
+          { kind: "ref", name: "TokenCountEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "agent_message" } },
+            },
+          },
+          { kind: "ref", name: "AgentMessageEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "user_message" } },
+            },
+          },
+          { kind: "ref", name: "UserMessageEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "agent_message_delta" } },
+            },
+          },
+          { kind: "ref", name: "AgentMessageDeltaEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "agent_reasoning" } },
+            },
+          },
+          { kind: "ref", name: "AgentReasoningEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: { kind: "literal", value: "agent_reasoning_delta" },
+              },
+            },
+          },
+          { kind: "ref", name: "AgentReasoningDeltaEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: { kind: "literal", value: "agent_reasoning_raw_content" },
+              },
+            },
+          },
+          { kind: "ref", name: "AgentReasoningRawContentEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: {
+                  kind: "literal",
+                  value: "agent_reasoning_raw_content_delta",
+                },
+              },
+            },
+          },
+          { kind: "ref", name: "AgentReasoningRawContentDeltaEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: {
+                  kind: "literal",
+                  value: "agent_reasoning_section_break",
+                },
+              },
+            },
+          },
+          { kind: "ref", name: "AgentReasoningSectionBreakEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "session_configured" } },
+            },
+          },
+          { kind: "ref", name: "SessionConfiguredEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "thread_name_updated" } },
+            },
+          },
+          { kind: "ref", name: "ThreadNameUpdatedEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "mcp_startup_update" } },
+            },
+          },
+          { kind: "ref", name: "McpStartupUpdateEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: { kind: "literal", value: "mcp_startup_complete" },
+              },
+            },
+          },
+          { kind: "ref", name: "McpStartupCompleteEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "mcp_tool_call_begin" } },
+            },
+          },
+          { kind: "ref", name: "McpToolCallBeginEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "mcp_tool_call_end" } },
+            },
+          },
+          { kind: "ref", name: "McpToolCallEndEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "web_search_begin" } },
+            },
+          },
+          { kind: "ref", name: "WebSearchBeginEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "web_search_end" } },
+            },
+          },
+          { kind: "ref", name: "WebSearchEndEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "exec_command_begin" } },
+            },
+          },
+          { kind: "ref", name: "ExecCommandBeginEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: { kind: "literal", value: "exec_command_output_delta" },
+              },
+            },
+          },
+          { kind: "ref", name: "ExecCommandOutputDeltaEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: { kind: "literal", value: "terminal_interaction" },
+              },
+            },
+          },
+          { kind: "ref", name: "TerminalInteractionEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "exec_command_end" } },
+            },
+          },
+          { kind: "ref", name: "ExecCommandEndEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: { kind: "literal", value: "view_image_tool_call" },
+              },
+            },
+          },
+          { kind: "ref", name: "ViewImageToolCallEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: { kind: "literal", value: "exec_approval_request" },
+              },
+            },
+          },
+          { kind: "ref", name: "ExecApprovalRequestEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "request_user_input" } },
+            },
+          },
+          { kind: "ref", name: "RequestUserInputEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: { kind: "literal", value: "dynamic_tool_call_request" },
+              },
+            },
+          },
+          { kind: "ref", name: "DynamicToolCallRequest" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "elicitation_request" } },
+            },
+          },
+          { kind: "ref", name: "ElicitationRequestEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: {
+                  kind: "literal",
+                  value: "apply_patch_approval_request",
+                },
+              },
+            },
+          },
+          { kind: "ref", name: "ApplyPatchApprovalRequestEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "deprecation_notice" } },
+            },
+          },
+          { kind: "ref", name: "DeprecationNoticeEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "background_event" } },
+            },
+          },
+          { kind: "ref", name: "BackgroundEventEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "undo_started" } },
+            },
+          },
+          { kind: "ref", name: "UndoStartedEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "undo_completed" } },
+            },
+          },
+          { kind: "ref", name: "UndoCompletedEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "stream_error" } },
+            },
+          },
+          { kind: "ref", name: "StreamErrorEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "patch_apply_begin" } },
+            },
+          },
+          { kind: "ref", name: "PatchApplyBeginEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "patch_apply_end" } },
+            },
+          },
+          { kind: "ref", name: "PatchApplyEndEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "turn_diff" } },
+            },
+          },
+          { kind: "ref", name: "TurnDiffEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: { kind: "literal", value: "get_history_entry_response" },
+              },
+            },
+          },
+          { kind: "ref", name: "GetHistoryEntryResponseEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: { kind: "literal", value: "mcp_list_tools_response" },
+              },
+            },
+          },
+          { kind: "ref", name: "McpListToolsResponseEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: {
+                  kind: "literal",
+                  value: "list_custom_prompts_response",
+                },
+              },
+            },
+          },
+          { kind: "ref", name: "ListCustomPromptsResponseEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: { kind: "literal", value: "list_skills_response" },
+              },
+            },
+          },
+          { kind: "ref", name: "ListSkillsResponseEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: { kind: "literal", value: "list_remote_skills_response" },
+              },
+            },
+          },
+          { kind: "ref", name: "ListRemoteSkillsResponseEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: { kind: "literal", value: "remote_skill_downloaded" },
+              },
+            },
+          },
+          { kind: "ref", name: "RemoteSkillDownloadedEvent" },
+        ],
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "skills_update_available" } },
+        },
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "plan_update" } },
+            },
+          },
+          { kind: "ref", name: "UpdatePlanArgs" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "turn_aborted" } },
+            },
+          },
+          { kind: "ref", name: "TurnAbortedEvent" },
+        ],
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "shutdown_complete" } },
+        },
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "entered_review_mode" } },
+            },
+          },
+          { kind: "ref", name: "ReviewRequest" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "exited_review_mode" } },
+            },
+          },
+          { kind: "ref", name: "ExitedReviewModeEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "raw_response_item" } },
+            },
+          },
+          { kind: "ref", name: "RawResponseItemEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "item_started" } },
+            },
+          },
+          { kind: "ref", name: "ItemStartedEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "item_completed" } },
+            },
+          },
+          { kind: "ref", name: "ItemCompletedEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: { kind: "literal", value: "agent_message_content_delta" },
+              },
+            },
+          },
+          { kind: "ref", name: "AgentMessageContentDeltaEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "plan_delta" } },
+            },
+          },
+          { kind: "ref", name: "PlanDeltaEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: { kind: "literal", value: "reasoning_content_delta" },
+              },
+            },
+          },
+          { kind: "ref", name: "ReasoningContentDeltaEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: { kind: "literal", value: "reasoning_raw_content_delta" },
+              },
+            },
+          },
+          { kind: "ref", name: "ReasoningRawContentDeltaEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: { kind: "literal", value: "collab_agent_spawn_begin" },
+              },
+            },
+          },
+          { kind: "ref", name: "CollabAgentSpawnBeginEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: { kind: "literal", value: "collab_agent_spawn_end" },
+              },
+            },
+          },
+          { kind: "ref", name: "CollabAgentSpawnEndEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: {
+                  kind: "literal",
+                  value: "collab_agent_interaction_begin",
+                },
+              },
+            },
+          },
+          { kind: "ref", name: "CollabAgentInteractionBeginEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: {
+                  kind: "literal",
+                  value: "collab_agent_interaction_end",
+                },
+              },
+            },
+          },
+          { kind: "ref", name: "CollabAgentInteractionEndEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: {
+                type: { kind: "literal", value: "collab_waiting_begin" },
+              },
+            },
+          },
+          { kind: "ref", name: "CollabWaitingBeginEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "collab_waiting_end" } },
+            },
+          },
+          { kind: "ref", name: "CollabWaitingEndEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "collab_close_begin" } },
+            },
+          },
+          { kind: "ref", name: "CollabCloseBeginEvent" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "collab_close_end" } },
+            },
+          },
+          { kind: "ref", name: "CollabCloseEndEvent" },
+        ],
+      },
+    ],
+  },
+  ExecApprovalRequestEvent: {
+    kind: "object",
+    properties: {
+      call_id: { type: { kind: "string" } },
+      turn_id: { type: { kind: "string" } },
+      command: { type: { kind: "array", items: { kind: "string" } } },
+      cwd: { type: { kind: "string" } },
+      reason: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+      proposed_execpolicy_amendment: {
+        type: { kind: "ref", name: "ExecPolicyAmendment" },
+        optional: true,
+      },
+      parsed_cmd: {
+        type: { kind: "array", items: { kind: "ref", name: "ParsedCommand" } },
+      },
+    },
+  },
+  ExecCommandApprovalParams: {
+    kind: "object",
+    properties: {
+      conversationId: { type: { kind: "ref", name: "ThreadId" } },
+      callId: { type: { kind: "string" } },
+      command: { type: { kind: "array", items: { kind: "string" } } },
+      cwd: { type: { kind: "string" } },
+      reason: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+      parsedCmd: {
+        type: { kind: "array", items: { kind: "ref", name: "ParsedCommand" } },
+      },
+    },
+  },
+  ExecCommandBeginEvent: {
+    kind: "object",
+    properties: {
+      call_id: { type: { kind: "string" } },
+      process_id: { type: { kind: "string" }, optional: true },
+      turn_id: { type: { kind: "string" } },
+      command: { type: { kind: "array", items: { kind: "string" } } },
+      cwd: { type: { kind: "string" } },
+      parsed_cmd: {
+        type: { kind: "array", items: { kind: "ref", name: "ParsedCommand" } },
+      },
+      source: { type: { kind: "ref", name: "ExecCommandSource" } },
+      interaction_input: { type: { kind: "string" }, optional: true },
+    },
+  },
+  ExecCommandEndEvent: {
+    kind: "object",
+    properties: {
+      call_id: { type: { kind: "string" } },
+      process_id: { type: { kind: "string" }, optional: true },
+      turn_id: { type: { kind: "string" } },
+      command: { type: { kind: "array", items: { kind: "string" } } },
+      cwd: { type: { kind: "string" } },
+      parsed_cmd: {
+        type: { kind: "array", items: { kind: "ref", name: "ParsedCommand" } },
+      },
+      source: { type: { kind: "ref", name: "ExecCommandSource" } },
+      interaction_input: { type: { kind: "string" }, optional: true },
+      stdout: { type: { kind: "string" } },
+      stderr: { type: { kind: "string" } },
+      aggregated_output: { type: { kind: "string" } },
+      exit_code: { type: { kind: "number" } },
+      duration: { type: { kind: "string" } },
+      formatted_output: { type: { kind: "string" } },
+    },
+  },
+  ExecCommandOutputDeltaEvent: {
+    kind: "object",
+    properties: {
+      call_id: { type: { kind: "string" } },
+      stream: { type: { kind: "ref", name: "ExecOutputStream" } },
+      chunk: { type: { kind: "string" } },
+    },
+  },
+  ExecCommandSource: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "agent" },
+      { kind: "literal", value: "user_shell" },
+      { kind: "literal", value: "unified_exec_startup" },
+      { kind: "literal", value: "unified_exec_interaction" },
+    ],
+  },
+  ExecOutputStream: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "stdout" },
+      { kind: "literal", value: "stderr" },
+    ],
+  },
+  ExecPolicyAmendment: { kind: "array", items: { kind: "string" } },
+  ExitedReviewModeEvent: {
+    kind: "object",
+    properties: {
+      review_output: {
+        type: {
+          kind: "union",
+          members: [
+            { kind: "ref", name: "ReviewOutputEvent" },
+            { kind: "null" },
+          ],
+        },
+      },
+    },
+  },
+  FileChange: {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "add" } },
+          content: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "delete" } },
+          content: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "update" } },
+          unified_diff: { type: { kind: "string" } },
+          move_path: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+        },
+      },
+    ],
+  },
+  ForcedLoginMethod: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "chatgpt" },
+      { kind: "literal", value: "api" },
+    ],
+  },
+  FunctionCallOutputBody: {
+    kind: "union",
+    members: [
+      { kind: "string" },
+      {
+        kind: "array",
+        items: { kind: "ref", name: "FunctionCallOutputContentItem" },
+      },
+    ],
+  },
+  FunctionCallOutputContentItem: {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "input_text" } },
+          text: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "input_image" } },
+          image_url: { type: { kind: "string" } },
+        },
+      },
+    ],
+  },
+  FunctionCallOutputPayload: {
+    kind: "object",
+    properties: {
+      body: { type: { kind: "ref", name: "FunctionCallOutputBody" } },
+      success: {
+        type: {
+          kind: "union",
+          members: [{ kind: "boolean" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  GetHistoryEntryResponseEvent: {
+    kind: "object",
+    properties: {
+      offset: { type: { kind: "number" } },
+      log_id: { type: { kind: "number" } },
+      entry: {
+        type: {
+          kind: "union",
+          members: [{ kind: "ref", name: "HistoryEntry" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  GhostCommit: {
+    kind: "object",
+    properties: {
+      id: { type: { kind: "string" } },
+      parent: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+      preexisting_untracked_files: {
+        type: { kind: "array", items: { kind: "string" } },
+      },
+      preexisting_untracked_dirs: {
+        type: { kind: "array", items: { kind: "string" } },
+      },
+    },
+  },
+  HistoryEntry: {
+    kind: "object",
+    properties: {
+      conversation_id: { type: { kind: "string" } },
+      ts: { type: { kind: "number" } },
+      text: { type: { kind: "string" } },
+    },
+  },
+  InitializeResponse: {
+    kind: "object",
+    properties: { userAgent: { type: { kind: "string" } } },
+  },
+  InputModality: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "text" },
+      { kind: "literal", value: "image" },
+    ],
+  },
+  ItemCompletedEvent: {
+    kind: "object",
+    properties: {
+      thread_id: { type: { kind: "ref", name: "ThreadId" } },
+      turn_id: { type: { kind: "string" } },
+      item: { type: { kind: "ref", name: "TurnItem" } },
+    },
+  },
+  ItemStartedEvent: {
+    kind: "object",
+    properties: {
+      thread_id: { type: { kind: "ref", name: "ThreadId" } },
+      turn_id: { type: { kind: "string" } },
+      item: { type: { kind: "ref", name: "TurnItem" } },
+    },
+  },
+  ListCustomPromptsResponseEvent: {
+    kind: "object",
+    properties: {
+      custom_prompts: {
+        type: { kind: "array", items: { kind: "ref", name: "CustomPrompt" } },
+      },
+    },
+  },
+  ListRemoteSkillsResponseEvent: {
+    kind: "object",
+    properties: {
+      skills: {
+        type: {
+          kind: "array",
+          items: { kind: "ref", name: "RemoteSkillSummary" },
+        },
+      },
+    },
+  },
+  ListSkillsResponseEvent: {
+    kind: "object",
+    properties: {
+      skills: {
+        type: {
+          kind: "array",
+          items: { kind: "ref", name: "SkillsListEntry" },
+        },
+      },
+    },
+  },
+  LocalShellAction: {
+    kind: "intersection",
+    members: [
+      {
+        kind: "object",
+        properties: { type: { type: { kind: "literal", value: "exec" } } },
+      },
+      { kind: "ref", name: "LocalShellExecAction" },
+    ],
+  },
+  LocalShellExecAction: {
+    kind: "object",
+    properties: {
+      command: { type: { kind: "array", items: { kind: "string" } } },
+      timeout_ms: {
+        type: {
+          kind: "union",
+          members: [{ kind: "number" }, { kind: "null" }],
+        },
+      },
+      working_directory: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+      env: {
+        type: {
+          kind: "union",
+          members: [
+            { kind: "record", values: { kind: "string" } },
+            { kind: "null" },
+          ],
+        },
+      },
+      user: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  LocalShellStatus: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "completed" },
+      { kind: "literal", value: "in_progress" },
+      { kind: "literal", value: "incomplete" },
+    ],
+  },
+  LoginChatGptCompleteNotification: {
+    kind: "object",
+    properties: {
+      loginId: { type: { kind: "string" } },
+      success: { type: { kind: "boolean" } },
+      error: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  McpAuthStatus: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "unsupported" },
+      { kind: "literal", value: "not_logged_in" },
+      { kind: "literal", value: "bearer_token" },
+      { kind: "literal", value: "o_auth" },
+    ],
+  },
+  McpInvocation: {
+    kind: "object",
+    properties: {
+      server: { type: { kind: "string" } },
+      tool: { type: { kind: "string" } },
+      arguments: {
+        type: {
+          kind: "union",
+          members: [
+            { kind: "ref", name: "serde_json/JsonValue" },
+            { kind: "null" },
+          ],
+        },
+      },
+    },
+  },
+  McpListToolsResponseEvent: {
+    kind: "object",
+    properties: {
+      tools: {
+        type: { kind: "record", values: { kind: "ref", name: "Tool" } },
+      },
+      resources: {
+        type: {
+          kind: "record",
+          values: { kind: "array", items: { kind: "ref", name: "Resource" } },
+        },
+      },
+      resource_templates: {
+        type: {
+          kind: "record",
+          values: {
+            kind: "array",
+            items: { kind: "ref", name: "ResourceTemplate" },
+          },
+        },
+      },
+      auth_statuses: {
+        type: {
+          kind: "record",
+          values: { kind: "ref", name: "McpAuthStatus" },
+        },
+      },
+    },
+  },
+  McpStartupCompleteEvent: {
+    kind: "object",
+    properties: {
+      ready: { type: { kind: "array", items: { kind: "string" } } },
+      failed: {
+        type: {
+          kind: "array",
+          items: { kind: "ref", name: "McpStartupFailure" },
+        },
+      },
+      cancelled: { type: { kind: "array", items: { kind: "string" } } },
+    },
+  },
+  McpStartupFailure: {
+    kind: "object",
+    properties: {
+      server: { type: { kind: "string" } },
+      error: { type: { kind: "string" } },
+    },
+  },
+  McpStartupStatus: {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: { state: { type: { kind: "literal", value: "starting" } } },
+      },
+      {
+        kind: "object",
+        properties: { state: { type: { kind: "literal", value: "ready" } } },
+      },
+      {
+        kind: "object",
+        properties: {
+          state: { type: { kind: "literal", value: "failed" } },
+          error: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          state: { type: { kind: "literal", value: "cancelled" } },
+        },
+      },
+    ],
+  },
+  McpStartupUpdateEvent: {
+    kind: "object",
+    properties: {
+      server: { type: { kind: "string" } },
+      status: { type: { kind: "ref", name: "McpStartupStatus" } },
+    },
+  },
+  McpToolCallBeginEvent: {
+    kind: "object",
+    properties: {
+      call_id: { type: { kind: "string" } },
+      invocation: { type: { kind: "ref", name: "McpInvocation" } },
+    },
+  },
+  McpToolCallEndEvent: {
+    kind: "object",
+    properties: {
+      call_id: { type: { kind: "string" } },
+      invocation: { type: { kind: "ref", name: "McpInvocation" } },
+      duration: { type: { kind: "string" } },
+      result: {
+        type: {
+          kind: "union",
+          members: [
+            {
+              kind: "object",
+              properties: {
+                Ok: { type: { kind: "ref", name: "CallToolResult" } },
+              },
+            },
+            {
+              kind: "object",
+              properties: { Err: { type: { kind: "string" } } },
+            },
+          ],
+        },
+      },
+    },
+  },
+  MessagePhase: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "commentary" },
+      { kind: "literal", value: "final_answer" },
+    ],
+  },
+  ModeKind: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "plan" },
+      { kind: "literal", value: "default" },
+    ],
+  },
+  NetworkAccess: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "restricted" },
+      { kind: "literal", value: "enabled" },
+    ],
+  },
+  ParsedCommand: {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "read" } },
+          cmd: { type: { kind: "string" } },
+          name: { type: { kind: "string" } },
+          path: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "list_files" } },
+          cmd: { type: { kind: "string" } },
+          path: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "search" } },
+          cmd: { type: { kind: "string" } },
+          query: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+          path: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "unknown" } },
+          cmd: { type: { kind: "string" } },
+        },
+      },
+    ],
+  },
+  PatchApplyBeginEvent: {
+    kind: "object",
+    properties: {
+      call_id: { type: { kind: "string" } },
+      turn_id: { type: { kind: "string" } },
+      auto_approved: { type: { kind: "boolean" } },
+      changes: {
+        type: { kind: "record", values: { kind: "ref", name: "FileChange" } },
+      },
+    },
+  },
+  PatchApplyEndEvent: {
+    kind: "object",
+    properties: {
+      call_id: { type: { kind: "string" } },
+      turn_id: { type: { kind: "string" } },
+      stdout: { type: { kind: "string" } },
+      stderr: { type: { kind: "string" } },
+      success: { type: { kind: "boolean" } },
+      changes: {
+        type: { kind: "record", values: { kind: "ref", name: "FileChange" } },
+      },
+    },
+  },
+  PlanDeltaEvent: {
+    kind: "object",
+    properties: {
+      thread_id: { type: { kind: "string" } },
+      turn_id: { type: { kind: "string" } },
+      item_id: { type: { kind: "string" } },
+      delta: { type: { kind: "string" } },
+    },
+  },
+  PlanItem: {
+    kind: "object",
+    properties: {
+      id: { type: { kind: "string" } },
+      text: { type: { kind: "string" } },
+    },
+  },
+  PlanItemArg: {
+    kind: "object",
+    properties: {
+      step: { type: { kind: "string" } },
+      status: { type: { kind: "ref", name: "StepStatus" } },
+    },
+  },
+  PlanType: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "free" },
+      { kind: "literal", value: "go" },
+      { kind: "literal", value: "plus" },
+      { kind: "literal", value: "pro" },
+      { kind: "literal", value: "team" },
+      { kind: "literal", value: "business" },
+      { kind: "literal", value: "enterprise" },
+      { kind: "literal", value: "edu" },
+      { kind: "literal", value: "unknown" },
+    ],
+  },
+  RateLimitSnapshot: {
+    kind: "object",
+    properties: {
+      primary: {
+        type: {
+          kind: "union",
+          members: [{ kind: "ref", name: "RateLimitWindow" }, { kind: "null" }],
+        },
+      },
+      secondary: {
+        type: {
+          kind: "union",
+          members: [{ kind: "ref", name: "RateLimitWindow" }, { kind: "null" }],
+        },
+      },
+      credits: {
+        type: {
+          kind: "union",
+          members: [{ kind: "ref", name: "CreditsSnapshot" }, { kind: "null" }],
+        },
+      },
+      plan_type: {
+        type: {
+          kind: "union",
+          members: [{ kind: "ref", name: "PlanType" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  RateLimitWindow: {
+    kind: "object",
+    properties: {
+      used_percent: { type: { kind: "number" } },
+      window_minutes: {
+        type: {
+          kind: "union",
+          members: [{ kind: "number" }, { kind: "null" }],
+        },
+      },
+      resets_at: {
+        type: {
+          kind: "union",
+          members: [{ kind: "number" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  RawResponseItemEvent: {
+    kind: "object",
+    properties: { item: { type: { kind: "ref", name: "ResponseItem" } } },
+  },
+  ReasoningContentDeltaEvent: {
+    kind: "object",
+    properties: {
+      thread_id: { type: { kind: "string" } },
+      turn_id: { type: { kind: "string" } },
+      item_id: { type: { kind: "string" } },
+      delta: { type: { kind: "string" } },
+      summary_index: { type: { kind: "number" } },
+    },
+  },
+  ReasoningEffort: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "none" },
+      { kind: "literal", value: "minimal" },
+      { kind: "literal", value: "low" },
+      { kind: "literal", value: "medium" },
+      { kind: "literal", value: "high" },
+      { kind: "literal", value: "xhigh" },
+    ],
+  },
+  ReasoningItem: {
+    kind: "object",
+    properties: {
+      id: { type: { kind: "string" } },
+      summary_text: { type: { kind: "array", items: { kind: "string" } } },
+      raw_content: { type: { kind: "array", items: { kind: "string" } } },
+    },
+  },
+  ReasoningItemContent: {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "reasoning_text" } },
+          text: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "text" } },
+          text: { type: { kind: "string" } },
+        },
+      },
+    ],
+  },
+  ReasoningItemReasoningSummary: {
+    kind: "object",
+    properties: {
+      type: { type: { kind: "literal", value: "summary_text" } },
+      text: { type: { kind: "string" } },
+    },
+  },
+  ReasoningRawContentDeltaEvent: {
+    kind: "object",
+    properties: {
+      thread_id: { type: { kind: "string" } },
+      turn_id: { type: { kind: "string" } },
+      item_id: { type: { kind: "string" } },
+      delta: { type: { kind: "string" } },
+      content_index: { type: { kind: "number" } },
+    },
+  },
+  ReasoningSummary: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "auto" },
+      { kind: "literal", value: "concise" },
+      { kind: "literal", value: "detailed" },
+      { kind: "literal", value: "none" },
+    ],
+  },
+  RemoteSkillDownloadedEvent: {
+    kind: "object",
+    properties: {
+      id: { type: { kind: "string" } },
+      name: { type: { kind: "string" } },
+      path: { type: { kind: "string" } },
+    },
+  },
+  RemoteSkillSummary: {
+    kind: "object",
+    properties: {
+      id: { type: { kind: "string" } },
+      name: { type: { kind: "string" } },
+      description: { type: { kind: "string" } },
+    },
+  },
+  RequestId: {
+    kind: "union",
+    members: [{ kind: "string" }, { kind: "number" }],
+  },
+  RequestUserInputEvent: {
+    kind: "object",
+    properties: {
+      call_id: { type: { kind: "string" } },
+      turn_id: { type: { kind: "string" } },
+      questions: {
+        type: {
+          kind: "array",
+          items: { kind: "ref", name: "RequestUserInputQuestion" },
+        },
+      },
+    },
+  },
+  RequestUserInputQuestion: {
+    kind: "object",
+    properties: {
+      id: { type: { kind: "string" } },
+      header: { type: { kind: "string" } },
+      question: { type: { kind: "string" } },
+      isOther: { type: { kind: "boolean" } },
+      isSecret: { type: { kind: "boolean" } },
+      options: {
+        type: {
+          kind: "union",
+          members: [
+            {
+              kind: "array",
+              items: { kind: "ref", name: "RequestUserInputQuestionOption" },
+            },
+            { kind: "null" },
+          ],
+        },
+      },
+    },
+  },
+  RequestUserInputQuestionOption: {
+    kind: "object",
+    properties: {
+      label: { type: { kind: "string" } },
+      description: { type: { kind: "string" } },
+    },
+  },
+  Resource: {
+    kind: "object",
+    properties: {
+      annotations: {
+        type: { kind: "ref", name: "serde_json/JsonValue" },
+        optional: true,
+      },
+      description: { type: { kind: "string" }, optional: true },
+      mimeType: { type: { kind: "string" }, optional: true },
+      name: { type: { kind: "string" } },
+      size: { type: { kind: "number" }, optional: true },
+      title: { type: { kind: "string" }, optional: true },
+      uri: { type: { kind: "string" } },
+      icons: {
+        type: {
+          kind: "array",
+          items: { kind: "ref", name: "serde_json/JsonValue" },
+        },
+        optional: true,
+      },
+      _meta: {
+        type: { kind: "ref", name: "serde_json/JsonValue" },
+        optional: true,
+      },
+    },
+  },
+  ResourceTemplate: {
+    kind: "object",
+    properties: {
+      annotations: {
+        type: { kind: "ref", name: "serde_json/JsonValue" },
+        optional: true,
+      },
+      uriTemplate: { type: { kind: "string" } },
+      name: { type: { kind: "string" } },
+      title: { type: { kind: "string" }, optional: true },
+      description: { type: { kind: "string" }, optional: true },
+      mimeType: { type: { kind: "string" }, optional: true },
+    },
+  },
+  ResponseItem: {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "message" } },
+          role: { type: { kind: "string" } },
+          content: {
+            type: {
+              kind: "array",
+              items: { kind: "ref", name: "ContentItem" },
+            },
+          },
+          end_turn: { type: { kind: "boolean" }, optional: true },
+          phase: {
+            type: { kind: "ref", name: "MessagePhase" },
+            optional: true,
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "reasoning" } },
+          summary: {
+            type: {
+              kind: "array",
+              items: { kind: "ref", name: "ReasoningItemReasoningSummary" },
+            },
+          },
+          content: {
+            type: {
+              kind: "array",
+              items: { kind: "ref", name: "ReasoningItemContent" },
+            },
+            optional: true,
+          },
+          encrypted_content: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "local_shell_call" } },
+          call_id: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+          status: { type: { kind: "ref", name: "LocalShellStatus" } },
+          action: { type: { kind: "ref", name: "LocalShellAction" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "function_call" } },
+          name: { type: { kind: "string" } },
+          arguments: { type: { kind: "string" } },
+          call_id: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "function_call_output" } },
+          call_id: { type: { kind: "string" } },
+          output: { type: { kind: "ref", name: "FunctionCallOutputPayload" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "custom_tool_call" } },
+          status: { type: { kind: "string" }, optional: true },
+          call_id: { type: { kind: "string" } },
+          name: { type: { kind: "string" } },
+          input: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "custom_tool_call_output" } },
+          call_id: { type: { kind: "string" } },
+          output: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "web_search_call" } },
+          status: { type: { kind: "string" }, optional: true },
+          action: {
+            type: { kind: "ref", name: "WebSearchAction" },
+            optional: true,
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "ghost_snapshot" } },
+          ghost_commit: { type: { kind: "ref", name: "GhostCommit" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "compaction" } },
+          encrypted_content: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: { type: { type: { kind: "literal", value: "other" } } },
+      },
+    ],
+  },
+  ReviewCodeLocation: {
+    kind: "object",
+    properties: {
+      absolute_file_path: { type: { kind: "string" } },
+      line_range: { type: { kind: "ref", name: "ReviewLineRange" } },
+    },
+  },
+  ReviewFinding: {
+    kind: "object",
+    properties: {
+      title: { type: { kind: "string" } },
+      body: { type: { kind: "string" } },
+      confidence_score: { type: { kind: "number" } },
+      priority: { type: { kind: "number" } },
+      code_location: { type: { kind: "ref", name: "ReviewCodeLocation" } },
+    },
+  },
+  ReviewLineRange: {
+    kind: "object",
+    properties: {
+      start: { type: { kind: "number" } },
+      end: { type: { kind: "number" } },
+    },
+  },
+  ReviewOutputEvent: {
+    kind: "object",
+    properties: {
+      findings: {
+        type: { kind: "array", items: { kind: "ref", name: "ReviewFinding" } },
+      },
+      overall_correctness: { type: { kind: "string" } },
+      overall_explanation: { type: { kind: "string" } },
+      overall_confidence_score: { type: { kind: "number" } },
+    },
+  },
+  ReviewRequest: {
+    kind: "object",
+    properties: {
+      target: { type: { kind: "ref", name: "ReviewTarget" } },
+      user_facing_hint: { type: { kind: "string" }, optional: true },
+    },
+  },
+  ReviewTarget: {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "uncommittedChanges" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "baseBranch" } },
+          branch: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "commit" } },
+          sha: { type: { kind: "string" } },
+          title: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "custom" } },
+          instructions: { type: { kind: "string" } },
+        },
+      },
+    ],
+  },
+  SandboxPolicy: {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "danger-full-access" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: { type: { type: { kind: "literal", value: "read-only" } } },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "external-sandbox" } },
+          network_access: { type: { kind: "ref", name: "NetworkAccess" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "workspace-write" } },
+          writable_roots: {
+            type: {
+              kind: "array",
+              items: { kind: "ref", name: "AbsolutePathBuf" },
+            },
+            optional: true,
+          },
+          network_access: { type: { kind: "boolean" } },
+          exclude_tmpdir_env_var: { type: { kind: "boolean" } },
+          exclude_slash_tmp: { type: { kind: "boolean" } },
+        },
+      },
+    ],
+  },
+  "serde_json/JsonValue": {
+    kind: "union",
+    members: [
+      { kind: "number" },
+      { kind: "string" },
+      { kind: "boolean" },
+      { kind: "array", items: { kind: "ref", name: "serde_json/JsonValue" } },
+      { kind: "record", values: { kind: "ref", name: "serde_json/JsonValue" } },
+      { kind: "null" },
+    ],
+  },
+  ServerNotification: {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: {
+          method: { type: { kind: "literal", value: "error" } },
+          params: { type: { kind: "ref", name: "v2/ErrorNotification" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: { type: { kind: "literal", value: "thread/started" } },
+          params: {
+            type: { kind: "ref", name: "v2/ThreadStartedNotification" },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: { type: { kind: "literal", value: "thread/name/updated" } },
+          params: {
+            type: { kind: "ref", name: "v2/ThreadNameUpdatedNotification" },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: {
+            type: { kind: "literal", value: "thread/tokenUsage/updated" },
+          },
+          params: {
+            type: {
+              kind: "ref",
+              name: "v2/ThreadTokenUsageUpdatedNotification",
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: { type: { kind: "literal", value: "turn/started" } },
+          params: { type: { kind: "ref", name: "v2/TurnStartedNotification" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: { type: { kind: "literal", value: "turn/completed" } },
+          params: {
+            type: { kind: "ref", name: "v2/TurnCompletedNotification" },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: { type: { kind: "literal", value: "turn/diff/updated" } },
+          params: {
+            type: { kind: "ref", name: "v2/TurnDiffUpdatedNotification" },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: { type: { kind: "literal", value: "turn/plan/updated" } },
+          params: {
+            type: { kind: "ref", name: "v2/TurnPlanUpdatedNotification" },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: { type: { kind: "literal", value: "item/started" } },
+          params: { type: { kind: "ref", name: "v2/ItemStartedNotification" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: { type: { kind: "literal", value: "item/completed" } },
+          params: {
+            type: { kind: "ref", name: "v2/ItemCompletedNotification" },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: {
+            type: { kind: "literal", value: "rawResponseItem/completed" },
+          },
+          params: {
+            type: {
+              kind: "ref",
+              name: "v2/RawResponseItemCompletedNotification",
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: {
+            type: { kind: "literal", value: "item/agentMessage/delta" },
+          },
+          params: {
+            type: { kind: "ref", name: "v2/AgentMessageDeltaNotification" },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: { type: { kind: "literal", value: "item/plan/delta" } },
+          params: { type: { kind: "ref", name: "v2/PlanDeltaNotification" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: {
+            type: {
+              kind: "literal",
+              value: "item/commandExecution/outputDelta",
+            },
+          },
+          params: {
+            type: {
+              kind: "ref",
+              name: "v2/CommandExecutionOutputDeltaNotification",
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: {
+            type: {
+              kind: "literal",
+              value: "item/commandExecution/terminalInteraction",
+            },
+          },
+          params: {
+            type: { kind: "ref", name: "v2/TerminalInteractionNotification" },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: {
+            type: { kind: "literal", value: "item/fileChange/outputDelta" },
+          },
+          params: {
+            type: { kind: "ref", name: "v2/FileChangeOutputDeltaNotification" },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: {
+            type: { kind: "literal", value: "item/mcpToolCall/progress" },
+          },
+          params: {
+            type: { kind: "ref", name: "v2/McpToolCallProgressNotification" },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: {
+            type: { kind: "literal", value: "mcpServer/oauthLogin/completed" },
+          },
+          params: {
+            type: {
+              kind: "ref",
+              name: "v2/McpServerOauthLoginCompletedNotification",
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: { type: { kind: "literal", value: "account/updated" } },
+          params: {
+            type: { kind: "ref", name: "v2/AccountUpdatedNotification" },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: {
+            type: { kind: "literal", value: "account/rateLimits/updated" },
+          },
+          params: {
+            type: {
+              kind: "ref",
+              name: "v2/AccountRateLimitsUpdatedNotification",
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: {
+            type: { kind: "literal", value: "item/reasoning/summaryTextDelta" },
+          },
+          params: {
+            type: {
+              kind: "ref",
+              name: "v2/ReasoningSummaryTextDeltaNotification",
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: {
+            type: { kind: "literal", value: "item/reasoning/summaryPartAdded" },
+          },
+          params: {
+            type: {
+              kind: "ref",
+              name: "v2/ReasoningSummaryPartAddedNotification",
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: {
+            type: { kind: "literal", value: "item/reasoning/textDelta" },
+          },
+          params: {
+            type: { kind: "ref", name: "v2/ReasoningTextDeltaNotification" },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: { type: { kind: "literal", value: "thread/compacted" } },
+          params: {
+            type: { kind: "ref", name: "v2/ContextCompactedNotification" },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: { type: { kind: "literal", value: "deprecationNotice" } },
+          params: {
+            type: { kind: "ref", name: "v2/DeprecationNoticeNotification" },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: { type: { kind: "literal", value: "configWarning" } },
+          params: {
+            type: { kind: "ref", name: "v2/ConfigWarningNotification" },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: {
+            type: { kind: "literal", value: "windows/worldWritableWarning" },
+          },
+          params: {
+            type: {
+              kind: "ref",
+              name: "v2/WindowsWorldWritableWarningNotification",
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: {
+            type: { kind: "literal", value: "account/login/completed" },
+          },
+          params: {
+            type: { kind: "ref", name: "v2/AccountLoginCompletedNotification" },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: { type: { kind: "literal", value: "authStatusChange" } },
+          params: {
+            type: { kind: "ref", name: "AuthStatusChangeNotification" },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: { type: { kind: "literal", value: "loginChatGptComplete" } },
+          params: {
+            type: { kind: "ref", name: "LoginChatGptCompleteNotification" },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: { type: { kind: "literal", value: "sessionConfigured" } },
+          params: {
+            type: { kind: "ref", name: "SessionConfiguredNotification" },
+          },
+        },
+      },
+    ],
+  },
+  ServerRequest: {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: {
+          method: {
+            type: {
+              kind: "literal",
+              value: "item/commandExecution/requestApproval",
+            },
+          },
+          id: { type: { kind: "ref", name: "RequestId" } },
+          params: {
+            type: {
+              kind: "ref",
+              name: "v2/CommandExecutionRequestApprovalParams",
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: {
+            type: { kind: "literal", value: "item/fileChange/requestApproval" },
+          },
+          id: { type: { kind: "ref", name: "RequestId" } },
+          params: {
+            type: { kind: "ref", name: "v2/FileChangeRequestApprovalParams" },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: {
+            type: { kind: "literal", value: "item/tool/requestUserInput" },
+          },
+          id: { type: { kind: "ref", name: "RequestId" } },
+          params: {
+            type: { kind: "ref", name: "v2/ToolRequestUserInputParams" },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: { type: { kind: "literal", value: "item/tool/call" } },
+          id: { type: { kind: "ref", name: "RequestId" } },
+          params: { type: { kind: "ref", name: "v2/DynamicToolCallParams" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: {
+            type: {
+              kind: "literal",
+              value: "account/chatgptAuthTokens/refresh",
+            },
+          },
+          id: { type: { kind: "ref", name: "RequestId" } },
+          params: {
+            type: { kind: "ref", name: "v2/ChatgptAuthTokensRefreshParams" },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: { type: { kind: "literal", value: "applyPatchApproval" } },
+          id: { type: { kind: "ref", name: "RequestId" } },
+          params: { type: { kind: "ref", name: "ApplyPatchApprovalParams" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          method: { type: { kind: "literal", value: "execCommandApproval" } },
+          id: { type: { kind: "ref", name: "RequestId" } },
+          params: { type: { kind: "ref", name: "ExecCommandApprovalParams" } },
+        },
+      },
+    ],
+  },
+  SessionConfiguredEvent: {
+    kind: "object",
+    properties: {
+      session_id: { type: { kind: "ref", name: "ThreadId" } },
+      forked_from_id: {
+        type: {
+          kind: "union",
+          members: [{ kind: "ref", name: "ThreadId" }, { kind: "null" }],
+        },
+      },
+      thread_name: { type: { kind: "string" }, optional: true },
+      model: { type: { kind: "string" } },
+      model_provider_id: { type: { kind: "string" } },
+      approval_policy: { type: { kind: "ref", name: "AskForApproval" } },
+      sandbox_policy: { type: { kind: "ref", name: "SandboxPolicy" } },
+      cwd: { type: { kind: "string" } },
+      reasoning_effort: {
+        type: {
+          kind: "union",
+          members: [{ kind: "ref", name: "ReasoningEffort" }, { kind: "null" }],
+        },
+      },
+      history_log_id: { type: { kind: "number" } },
+      history_entry_count: { type: { kind: "number" } },
+      initial_messages: {
+        type: {
+          kind: "union",
+          members: [
+            { kind: "array", items: { kind: "ref", name: "EventMsg" } },
+            { kind: "null" },
+          ],
+        },
+      },
+      rollout_path: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  SessionConfiguredNotification: {
+    kind: "object",
+    properties: {
+      sessionId: { type: { kind: "ref", name: "ThreadId" } },
+      model: { type: { kind: "string" } },
+      reasoningEffort: {
+        type: {
+          kind: "union",
+          members: [{ kind: "ref", name: "ReasoningEffort" }, { kind: "null" }],
+        },
+      },
+      historyLogId: { type: { kind: "number" } },
+      historyEntryCount: { type: { kind: "number" } },
+      initialMessages: {
+        type: {
+          kind: "union",
+          members: [
+            { kind: "array", items: { kind: "ref", name: "EventMsg" } },
+            { kind: "null" },
+          ],
+        },
+      },
+      rolloutPath: { type: { kind: "string" } },
+    },
+  },
+  SkillDependencies: {
+    kind: "object",
+    properties: {
+      tools: {
+        type: {
+          kind: "array",
+          items: { kind: "ref", name: "SkillToolDependency" },
+        },
+      },
+    },
+  },
+  SkillErrorInfo: {
+    kind: "object",
+    properties: {
+      path: { type: { kind: "string" } },
+      message: { type: { kind: "string" } },
+    },
+  },
+  SkillInterface: {
+    kind: "object",
+    properties: {
+      display_name: { type: { kind: "string" }, optional: true },
+      short_description: { type: { kind: "string" }, optional: true },
+      icon_small: { type: { kind: "string" }, optional: true },
+      icon_large: { type: { kind: "string" }, optional: true },
+      brand_color: { type: { kind: "string" }, optional: true },
+      default_prompt: { type: { kind: "string" }, optional: true },
+    },
+  },
+  SkillMetadata: {
+    kind: "object",
+    properties: {
+      name: { type: { kind: "string" } },
+      description: { type: { kind: "string" } },
+      short_description: { type: { kind: "string" }, optional: true },
+      interface: {
+        type: { kind: "ref", name: "SkillInterface" },
+        optional: true,
+      },
+      dependencies: {
+        type: { kind: "ref", name: "SkillDependencies" },
+        optional: true,
+      },
+      path: { type: { kind: "string" } },
+      scope: { type: { kind: "ref", name: "SkillScope" } },
+      enabled: { type: { kind: "boolean" } },
+    },
+  },
+  SkillScope: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "user" },
+      { kind: "literal", value: "repo" },
+      { kind: "literal", value: "system" },
+      { kind: "literal", value: "admin" },
+    ],
+  },
+  SkillsListEntry: {
+    kind: "object",
+    properties: {
+      cwd: { type: { kind: "string" } },
+      skills: {
+        type: { kind: "array", items: { kind: "ref", name: "SkillMetadata" } },
+      },
+      errors: {
+        type: { kind: "array", items: { kind: "ref", name: "SkillErrorInfo" } },
+      },
+    },
+  },
+  SkillToolDependency: {
+    kind: "object",
+    properties: {
+      type: { type: { kind: "string" } },
+      value: { type: { kind: "string" } },
+      description: { type: { kind: "string" }, optional: true },
+      transport: { type: { kind: "string" }, optional: true },
+      command: { type: { kind: "string" }, optional: true },
+      url: { type: { kind: "string" }, optional: true },
+    },
+  },
+  StepStatus: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "pending" },
+      { kind: "literal", value: "in_progress" },
+      { kind: "literal", value: "completed" },
+    ],
+  },
+  StreamErrorEvent: {
+    kind: "object",
+    properties: {
+      message: { type: { kind: "string" } },
+      codex_error_info: {
+        type: {
+          kind: "union",
+          members: [{ kind: "ref", name: "CodexErrorInfo" }, { kind: "null" }],
+        },
+      },
+      additional_details: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  SubAgentSource: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "review" },
+      { kind: "literal", value: "compact" },
+      {
+        kind: "object",
+        properties: {
+          thread_spawn: {
+            type: {
+              kind: "object",
+              properties: {
+                parent_thread_id: { type: { kind: "ref", name: "ThreadId" } },
+                depth: { type: { kind: "number" } },
+              },
+            },
+          },
+        },
+      },
+      { kind: "object", properties: { other: { type: { kind: "string" } } } },
+    ],
+  },
+  TerminalInteractionEvent: {
+    kind: "object",
+    properties: {
+      call_id: { type: { kind: "string" } },
+      process_id: { type: { kind: "string" } },
+      stdin: { type: { kind: "string" } },
+    },
+  },
+  TextElement: {
+    kind: "object",
+    properties: {
+      byteRange: { type: { kind: "ref", name: "ByteRange" } },
+      placeholder: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  ThreadId: { kind: "string" },
+  ThreadNameUpdatedEvent: {
+    kind: "object",
+    properties: {
+      thread_id: { type: { kind: "ref", name: "ThreadId" } },
+      thread_name: { type: { kind: "string" }, optional: true },
+    },
+  },
+  ThreadRolledBackEvent: {
+    kind: "object",
+    properties: { num_turns: { type: { kind: "number" } } },
+  },
+  TokenCountEvent: {
+    kind: "object",
+    properties: {
+      info: {
+        type: {
+          kind: "union",
+          members: [{ kind: "ref", name: "TokenUsageInfo" }, { kind: "null" }],
+        },
+      },
+      rate_limits: {
+        type: {
+          kind: "union",
+          members: [
+            { kind: "ref", name: "RateLimitSnapshot" },
+            { kind: "null" },
+          ],
+        },
+      },
+    },
+  },
+  TokenUsage: {
+    kind: "object",
+    properties: {
+      input_tokens: { type: { kind: "number" } },
+      cached_input_tokens: { type: { kind: "number" } },
+      output_tokens: { type: { kind: "number" } },
+      reasoning_output_tokens: { type: { kind: "number" } },
+      total_tokens: { type: { kind: "number" } },
+    },
+  },
+  TokenUsageInfo: {
+    kind: "object",
+    properties: {
+      total_token_usage: { type: { kind: "ref", name: "TokenUsage" } },
+      last_token_usage: { type: { kind: "ref", name: "TokenUsage" } },
+      model_context_window: {
+        type: {
+          kind: "union",
+          members: [{ kind: "number" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  Tool: {
+    kind: "object",
+    properties: {
+      name: { type: { kind: "string" } },
+      title: { type: { kind: "string" }, optional: true },
+      description: { type: { kind: "string" }, optional: true },
+      inputSchema: { type: { kind: "ref", name: "serde_json/JsonValue" } },
+      outputSchema: {
+        type: { kind: "ref", name: "serde_json/JsonValue" },
+        optional: true,
+      },
+      annotations: {
+        type: { kind: "ref", name: "serde_json/JsonValue" },
+        optional: true,
+      },
+      icons: {
+        type: {
+          kind: "array",
+          items: { kind: "ref", name: "serde_json/JsonValue" },
+        },
+        optional: true,
+      },
+      _meta: {
+        type: { kind: "ref", name: "serde_json/JsonValue" },
+        optional: true,
+      },
+    },
+  },
+  TurnAbortedEvent: {
+    kind: "object",
+    properties: { reason: { type: { kind: "ref", name: "TurnAbortReason" } } },
+  },
+  TurnAbortReason: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "interrupted" },
+      { kind: "literal", value: "replaced" },
+      { kind: "literal", value: "review_ended" },
+    ],
+  },
+  TurnCompleteEvent: {
+    kind: "object",
+    properties: {
+      last_agent_message: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  TurnDiffEvent: {
+    kind: "object",
+    properties: { unified_diff: { type: { kind: "string" } } },
+  },
+  TurnItem: {
+    kind: "union",
+    members: [
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "UserMessage" } },
+            },
+          },
+          { kind: "ref", name: "UserMessageItem" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "AgentMessage" } },
+            },
+          },
+          { kind: "ref", name: "AgentMessageItem" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: { type: { type: { kind: "literal", value: "Plan" } } },
+          },
+          { kind: "ref", name: "PlanItem" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "Reasoning" } },
+            },
+          },
+          { kind: "ref", name: "ReasoningItem" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "WebSearch" } },
+            },
+          },
+          { kind: "ref", name: "WebSearchItem" },
+        ],
+      },
+      {
+        kind: "intersection",
+        members: [
+          {
+            kind: "object",
+            properties: {
+              type: { type: { kind: "literal", value: "ContextCompaction" } },
+            },
+          },
+          { kind: "ref", name: "ContextCompactionItem" },
+        ],
+      },
+    ],
+  },
+  TurnStartedEvent: {
+    kind: "object",
+    properties: {
+      model_context_window: {
+        type: {
+          kind: "union",
+          members: [{ kind: "number" }, { kind: "null" }],
+        },
+      },
+      collaboration_mode_kind: { type: { kind: "ref", name: "ModeKind" } },
+    },
+  },
+  UndoCompletedEvent: {
+    kind: "object",
+    properties: {
+      success: { type: { kind: "boolean" } },
+      message: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  UndoStartedEvent: {
+    kind: "object",
+    properties: {
+      message: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  UpdatePlanArgs: {
+    kind: "object",
+    properties: {
+      explanation: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+      plan: {
+        type: { kind: "array", items: { kind: "ref", name: "PlanItemArg" } },
+      },
+    },
+  },
+  UserInput: {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "text" } },
+          text: { type: { kind: "string" } },
+          text_elements: {
+            type: {
+              kind: "array",
+              items: { kind: "ref", name: "TextElement" },
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "image" } },
+          image_url: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "local_image" } },
+          path: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "skill" } },
+          name: { type: { kind: "string" } },
+          path: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "mention" } },
+          name: { type: { kind: "string" } },
+          path: { type: { kind: "string" } },
+        },
+      },
+    ],
+  },
+  UserMessageEvent: {
+    kind: "object",
+    properties: {
+      message: { type: { kind: "string" } },
+      images: {
+        type: {
+          kind: "union",
+          members: [
+            { kind: "array", items: { kind: "string" } },
+            { kind: "null" },
+          ],
+        },
+      },
+      local_images: { type: { kind: "array", items: { kind: "string" } } },
+      text_elements: {
+        type: { kind: "array", items: { kind: "ref", name: "TextElement" } },
+      },
+    },
+  },
+  UserMessageItem: {
+    kind: "object",
+    properties: {
+      id: { type: { kind: "string" } },
+      content: {
+        type: { kind: "array", items: { kind: "ref", name: "UserInput" } },
+      },
+    },
+  },
+  "v2/Account": {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: { type: { type: { kind: "literal", value: "apiKey" } } },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "chatgpt" } },
+          email: { type: { kind: "string" } },
+          planType: { type: { kind: "ref", name: "PlanType" } },
+        },
+      },
+    ],
+  },
+  "v2/AccountLoginCompletedNotification": {
+    kind: "object",
+    properties: {
+      loginId: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+      success: { type: { kind: "boolean" } },
+      error: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/AccountRateLimitsUpdatedNotification": {
+    kind: "object",
+    properties: {
+      rateLimits: { type: { kind: "ref", name: "v2/RateLimitSnapshot" } },
+    },
+  },
+  "v2/AccountUpdatedNotification": {
+    kind: "object",
+    properties: {
+      authMode: {
+        type: {
+          kind: "union",
+          members: [{ kind: "ref", name: "AuthMode" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/AgentMessageDeltaNotification": {
+    kind: "object",
+    properties: {
+      threadId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+      itemId: { type: { kind: "string" } },
+      delta: { type: { kind: "string" } },
+    },
+  },
+  "v2/AnalyticsConfig": {
+    kind: "intersection",
+    members: [
+      {
+        kind: "object",
+        properties: {
+          enabled: {
+            type: {
+              kind: "union",
+              members: [{ kind: "boolean" }, { kind: "null" }],
+            },
+          },
+        },
+      },
+      {
+        kind: "record",
+        values: {
+          kind: "union",
+          members: [
+            { kind: "number" },
+            { kind: "string" },
+            { kind: "boolean" },
+            {
+              kind: "array",
+              items: { kind: "ref", name: "serde_json/JsonValue" },
+            },
+            {
+              kind: "record",
+              values: { kind: "ref", name: "serde_json/JsonValue" },
+            },
+            { kind: "null" },
+          ],
+        },
+      },
+    ],
+  },
+  "v2/AppInfo": {
+    kind: "object",
+    properties: {
+      id: { type: { kind: "string" } },
+      name: { type: { kind: "string" } },
+      description: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+      logoUrl: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+      logoUrlDark: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+      distributionChannel: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+      installUrl: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+      isAccessible: { type: { kind: "boolean" } },
+    },
+  },
+  "v2/AppsListResponse": {
+    kind: "object",
+    properties: {
+      data: {
+        type: { kind: "array", items: { kind: "ref", name: "v2/AppInfo" } },
+      },
+      nextCursor: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/AskForApproval": {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "untrusted" },
+      { kind: "literal", value: "on-failure" },
+      { kind: "literal", value: "on-request" },
+      { kind: "literal", value: "never" },
+    ],
+  },
+  "v2/ByteRange": {
+    kind: "object",
+    properties: {
+      start: { type: { kind: "number" } },
+      end: { type: { kind: "number" } },
+    },
+  },
+  "v2/CancelLoginAccountResponse": {
+    kind: "object",
+    properties: {
+      status: { type: { kind: "ref", name: "v2/CancelLoginAccountStatus" } },
+    },
+  },
+  "v2/CancelLoginAccountStatus": {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "canceled" },
+      { kind: "literal", value: "notFound" },
+    ],
+  },
+  "v2/ChatgptAuthTokensRefreshParams": {
+    kind: "object",
+    properties: {
+      reason: {
+        type: { kind: "ref", name: "v2/ChatgptAuthTokensRefreshReason" },
+      },
+      previousAccountId: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+        optional: true,
+      },
+    },
+  },
+  "v2/ChatgptAuthTokensRefreshReason": {
+    kind: "literal",
+    value: "unauthorized",
+  },
+  "v2/CodexErrorInfo": {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "contextWindowExceeded" },
+      { kind: "literal", value: "usageLimitExceeded" },
+      {
+        kind: "object",
+        properties: {
+          modelCap: {
+            type: {
+              kind: "object",
+              properties: {
+                model: { type: { kind: "string" } },
+                reset_after_seconds: {
+                  type: {
+                    kind: "union",
+                    members: [{ kind: "number" }, { kind: "null" }],
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          httpConnectionFailed: {
+            type: {
+              kind: "object",
+              properties: {
+                httpStatusCode: {
+                  type: {
+                    kind: "union",
+                    members: [{ kind: "number" }, { kind: "null" }],
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          responseStreamConnectionFailed: {
+            type: {
+              kind: "object",
+              properties: {
+                httpStatusCode: {
+                  type: {
+                    kind: "union",
+                    members: [{ kind: "number" }, { kind: "null" }],
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      { kind: "literal", value: "internalServerError" },
+      { kind: "literal", value: "unauthorized" },
+      { kind: "literal", value: "badRequest" },
+      { kind: "literal", value: "threadRollbackFailed" },
+      { kind: "literal", value: "sandboxError" },
+      {
+        kind: "object",
+        properties: {
+          responseStreamDisconnected: {
+            type: {
+              kind: "object",
+              properties: {
+                httpStatusCode: {
+                  type: {
+                    kind: "union",
+                    members: [{ kind: "number" }, { kind: "null" }],
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          responseTooManyFailedAttempts: {
+            type: {
+              kind: "object",
+              properties: {
+                httpStatusCode: {
+                  type: {
+                    kind: "union",
+                    members: [{ kind: "number" }, { kind: "null" }],
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      { kind: "literal", value: "other" },
+    ],
+  },
+  "v2/CollabAgentState": {
+    kind: "object",
+    properties: {
+      status: { type: { kind: "ref", name: "v2/CollabAgentStatus" } },
+      message: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/CollabAgentStatus": {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "pendingInit" },
+      { kind: "literal", value: "running" },
+      { kind: "literal", value: "completed" },
+      { kind: "literal", value: "errored" },
+      { kind: "literal", value: "shutdown" },
+      { kind: "literal", value: "notFound" },
+    ],
+  },
+  "v2/CollabAgentTool": {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "spawnAgent" },
+      { kind: "literal", value: "sendInput" },
+      { kind: "literal", value: "wait" },
+      { kind: "literal", value: "closeAgent" },
+    ],
+  },
+  "v2/CollabAgentToolCallStatus": {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "inProgress" },
+      { kind: "literal", value: "completed" },
+      { kind: "literal", value: "failed" },
+    ],
+  },
+  "v2/CommandAction": {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "read" } },
+          command: { type: { kind: "string" } },
+          name: { type: { kind: "string" } },
+          path: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "listFiles" } },
+          command: { type: { kind: "string" } },
+          path: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "search" } },
+          command: { type: { kind: "string" } },
+          query: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+          path: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "unknown" } },
+          command: { type: { kind: "string" } },
+        },
+      },
+    ],
+  },
+  "v2/CommandExecResponse": {
+    kind: "object",
+    properties: {
+      exitCode: { type: { kind: "number" } },
+      stdout: { type: { kind: "string" } },
+      stderr: { type: { kind: "string" } },
+    },
+  },
+  "v2/CommandExecutionOutputDeltaNotification": {
+    kind: "object",
+    properties: {
+      threadId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+      itemId: { type: { kind: "string" } },
+      delta: { type: { kind: "string" } },
+    },
+  },
+  "v2/CommandExecutionRequestApprovalParams": {
+    kind: "object",
+    properties: {
+      threadId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+      itemId: { type: { kind: "string" } },
+      reason: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+        optional: true,
+      },
+      command: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+        optional: true,
+      },
+      cwd: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+        optional: true,
+      },
+      commandActions: {
+        type: {
+          kind: "union",
+          members: [
+            { kind: "array", items: { kind: "ref", name: "v2/CommandAction" } },
+            { kind: "null" },
+          ],
+        },
+        optional: true,
+      },
+      proposedExecpolicyAmendment: {
+        type: {
+          kind: "union",
+          members: [
+            { kind: "ref", name: "v2/ExecPolicyAmendment" },
+            { kind: "null" },
+          ],
+        },
+        optional: true,
+      },
+    },
+  },
+  "v2/CommandExecutionStatus": {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "inProgress" },
+      { kind: "literal", value: "completed" },
+      { kind: "literal", value: "failed" },
+      { kind: "literal", value: "declined" },
+    ],
+  },
+  "v2/Config": {
+    kind: "intersection",
+    members: [
+      {
+        kind: "object",
+        properties: {
+          model: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+          review_model: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+          model_context_window: {
+            type: {
+              kind: "union",
+              members: [{ kind: "number" }, { kind: "null" }],
+            },
+          },
+          model_auto_compact_token_limit: {
+            type: {
+              kind: "union",
+              members: [{ kind: "number" }, { kind: "null" }],
+            },
+          },
+          model_provider: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+          approval_policy: {
+            type: {
+              kind: "union",
+              members: [
+                { kind: "ref", name: "v2/AskForApproval" },
+                { kind: "null" },
+              ],
+            },
+          },
+          sandbox_mode: {
+            type: {
+              kind: "union",
+              members: [
+                { kind: "ref", name: "v2/SandboxMode" },
+                { kind: "null" },
+              ],
+            },
+          },
+          sandbox_workspace_write: {
+            type: {
+              kind: "union",
+              members: [
+                { kind: "ref", name: "v2/SandboxWorkspaceWrite" },
+                { kind: "null" },
+              ],
+            },
+          },
+          forced_chatgpt_workspace_id: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+          forced_login_method: {
+            type: {
+              kind: "union",
+              members: [
+                { kind: "ref", name: "ForcedLoginMethod" },
+                { kind: "null" },
+              ],
+            },
+          },
+          web_search: {
+            type: {
+              kind: "union",
+              members: [
+                { kind: "ref", name: "WebSearchMode" },
+                { kind: "null" },
+              ],
+            },
+          },
+          tools: {
+            type: {
+              kind: "union",
+              members: [{ kind: "ref", name: "v2/ToolsV2" }, { kind: "null" }],
+            },
+          },
+          profile: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+          profiles: {
+            type: {
+              kind: "record",
+              values: { kind: "ref", name: "v2/ProfileV2" },
+            },
+          },
+          instructions: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+          developer_instructions: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+          compact_prompt: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+          model_reasoning_effort: {
+            type: {
+              kind: "union",
+              members: [
+                { kind: "ref", name: "ReasoningEffort" },
+                { kind: "null" },
+              ],
+            },
+          },
+          model_reasoning_summary: {
+            type: {
+              kind: "union",
+              members: [
+                { kind: "ref", name: "ReasoningSummary" },
+                { kind: "null" },
+              ],
+            },
+          },
+          model_verbosity: {
+            type: {
+              kind: "union",
+              members: [{ kind: "ref", name: "Verbosity" }, { kind: "null" }],
+            },
+          },
+          analytics: {
+            type: {
+              kind: "union",
+              members: [
+                { kind: "ref", name: "v2/AnalyticsConfig" },
+                { kind: "null" },
+              ],
+            },
+          },
+        },
+      },
+      {
+        kind: "record",
+        values: {
+          kind: "union",
+          members: [
+            { kind: "number" },
+            { kind: "string" },
+            { kind: "boolean" },
+            {
+              kind: "array",
+              items: { kind: "ref", name: "serde_json/JsonValue" },
+            },
+            {
+              kind: "record",
+              values: { kind: "ref", name: "serde_json/JsonValue" },
+            },
+            { kind: "null" },
+          ],
+        },
+      },
+    ],
+  },
+  "v2/ConfigLayer": {
+    kind: "object",
+    properties: {
+      name: { type: { kind: "ref", name: "v2/ConfigLayerSource" } },
+      version: { type: { kind: "string" } },
+      config: { type: { kind: "ref", name: "serde_json/JsonValue" } },
+      disabledReason: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/ConfigLayerMetadata": {
+    kind: "object",
+    properties: {
+      name: { type: { kind: "ref", name: "v2/ConfigLayerSource" } },
+      version: { type: { kind: "string" } },
+    },
+  },
+  "v2/ConfigLayerSource": {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "mdm" } },
+          domain: { type: { kind: "string" } },
+          key: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "system" } },
+          file: { type: { kind: "ref", name: "AbsolutePathBuf" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "user" } },
+          file: { type: { kind: "ref", name: "AbsolutePathBuf" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "project" } },
+          dotCodexFolder: { type: { kind: "ref", name: "AbsolutePathBuf" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "sessionFlags" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: {
+            type: { kind: "literal", value: "legacyManagedConfigTomlFromFile" },
+          },
+          file: { type: { kind: "ref", name: "AbsolutePathBuf" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: {
+            type: { kind: "literal", value: "legacyManagedConfigTomlFromMdm" },
+          },
+        },
+      },
+    ],
+  },
+  "v2/ConfigReadResponse": {
+    kind: "object",
+    properties: {
+      config: { type: { kind: "ref", name: "v2/Config" } },
+      origins: {
+        type: {
+          kind: "record",
+          values: { kind: "ref", name: "v2/ConfigLayerMetadata" },
+        },
+      },
+      layers: {
+        type: {
+          kind: "union",
+          members: [
+            { kind: "array", items: { kind: "ref", name: "v2/ConfigLayer" } },
+            { kind: "null" },
+          ],
+        },
+      },
+    },
+  },
+  "v2/ConfigRequirements": {
+    kind: "object",
+    properties: {
+      allowedApprovalPolicies: {
+        type: {
+          kind: "union",
+          members: [
+            {
+              kind: "array",
+              items: { kind: "ref", name: "v2/AskForApproval" },
+            },
+            { kind: "null" },
+          ],
+        },
+      },
+      allowedSandboxModes: {
+        type: {
+          kind: "union",
+          members: [
+            { kind: "array", items: { kind: "ref", name: "v2/SandboxMode" } },
+            { kind: "null" },
+          ],
+        },
+      },
+      enforceResidency: {
+        type: {
+          kind: "union",
+          members: [
+            { kind: "ref", name: "v2/ResidencyRequirement" },
+            { kind: "null" },
+          ],
+        },
+      },
+    },
+  },
+  "v2/ConfigRequirementsReadResponse": {
+    kind: "object",
+    properties: {
+      requirements: {
+        type: {
+          kind: "union",
+          members: [
+            { kind: "ref", name: "v2/ConfigRequirements" },
+            { kind: "null" },
+          ],
+        },
+      },
+    },
+  },
+  "v2/ConfigWarningNotification": {
+    kind: "object",
+    properties: {
+      summary: { type: { kind: "string" } },
+      details: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+      path: { type: { kind: "string" }, optional: true },
+      range: { type: { kind: "ref", name: "v2/TextRange" }, optional: true },
+    },
+  },
+  "v2/ConfigWriteResponse": {
+    kind: "object",
+    properties: {
+      status: { type: { kind: "ref", name: "v2/WriteStatus" } },
+      version: { type: { kind: "string" } },
+      filePath: { type: { kind: "ref", name: "AbsolutePathBuf" } },
+      overriddenMetadata: {
+        type: {
+          kind: "union",
+          members: [
+            { kind: "ref", name: "v2/OverriddenMetadata" },
+            { kind: "null" },
+          ],
+        },
+      },
+    },
+  },
+  "v2/ContextCompactedNotification": {
+    kind: "object",
+    properties: {
+      threadId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+    },
+  },
+  "v2/CreditsSnapshot": {
+    kind: "object",
+    properties: {
+      hasCredits: { type: { kind: "boolean" } },
+      unlimited: { type: { kind: "boolean" } },
+      balance: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/DeprecationNoticeNotification": {
+    kind: "object",
+    properties: {
+      summary: { type: { kind: "string" } },
+      details: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/DynamicToolCallParams": {
+    kind: "object",
+    properties: {
+      threadId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+      callId: { type: { kind: "string" } },
+      tool: { type: { kind: "string" } },
+      arguments: { type: { kind: "ref", name: "serde_json/JsonValue" } },
+    },
+  },
+  "v2/ErrorNotification": {
+    kind: "object",
+    properties: {
+      error: { type: { kind: "ref", name: "v2/TurnError" } },
+      willRetry: { type: { kind: "boolean" } },
+      threadId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+    },
+  },
+  "v2/ExecPolicyAmendment": { kind: "array", items: { kind: "string" } },
+  "v2/FeedbackUploadResponse": {
+    kind: "object",
+    properties: { threadId: { type: { kind: "string" } } },
+  },
+  "v2/FileChangeOutputDeltaNotification": {
+    kind: "object",
+    properties: {
+      threadId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+      itemId: { type: { kind: "string" } },
+      delta: { type: { kind: "string" } },
+    },
+  },
+  "v2/FileChangeRequestApprovalParams": {
+    kind: "object",
+    properties: {
+      threadId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+      itemId: { type: { kind: "string" } },
+      reason: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+        optional: true,
+      },
+      grantRoot: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+        optional: true,
+      },
+    },
+  },
+  "v2/FileUpdateChange": {
+    kind: "object",
+    properties: {
+      path: { type: { kind: "string" } },
+      kind: { type: { kind: "ref", name: "v2/PatchChangeKind" } },
+      diff: { type: { kind: "string" } },
+    },
+  },
+  "v2/GetAccountRateLimitsResponse": {
+    kind: "object",
+    properties: {
+      rateLimits: { type: { kind: "ref", name: "v2/RateLimitSnapshot" } },
+    },
+  },
+  "v2/GetAccountResponse": {
+    kind: "object",
+    properties: {
+      account: {
+        type: {
+          kind: "union",
+          members: [{ kind: "ref", name: "v2/Account" }, { kind: "null" }],
+        },
+      },
+      requiresOpenaiAuth: { type: { kind: "boolean" } },
+    },
+  },
+  "v2/GitInfo": {
+    kind: "object",
+    properties: {
+      sha: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+      branch: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+      originUrl: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/ItemCompletedNotification": {
+    kind: "object",
+    properties: {
+      item: { type: { kind: "ref", name: "v2/ThreadItem" } },
+      threadId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+    },
+  },
+  "v2/ItemStartedNotification": {
+    kind: "object",
+    properties: {
+      item: { type: { kind: "ref", name: "v2/ThreadItem" } },
+      threadId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+    },
+  },
+  "v2/ListMcpServerStatusResponse": {
+    kind: "object",
+    properties: {
+      data: {
+        type: {
+          kind: "array",
+          items: { kind: "ref", name: "v2/McpServerStatus" },
+        },
+      },
+      nextCursor: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/LoginAccountResponse": {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: { type: { type: { kind: "literal", value: "apiKey" } } },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "chatgpt" } },
+          loginId: { type: { kind: "string" } },
+          authUrl: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "chatgptAuthTokens" } },
+        },
+      },
+    ],
+  },
+  "v2/LogoutAccountResponse": { kind: "record", values: { kind: "never" } },
+  "v2/McpAuthStatus": {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "unsupported" },
+      { kind: "literal", value: "notLoggedIn" },
+      { kind: "literal", value: "bearerToken" },
+      { kind: "literal", value: "oAuth" },
+    ],
+  },
+  "v2/McpServerOauthLoginCompletedNotification": {
+    kind: "object",
+    properties: {
+      name: { type: { kind: "string" } },
+      success: { type: { kind: "boolean" } },
+      error: { type: { kind: "string" }, optional: true },
+    },
+  },
+  "v2/McpServerOauthLoginResponse": {
+    kind: "object",
+    properties: { authorizationUrl: { type: { kind: "string" } } },
+  },
+  "v2/McpServerRefreshResponse": { kind: "record", values: { kind: "never" } },
+  "v2/McpServerStatus": {
+    kind: "object",
+    properties: {
+      name: { type: { kind: "string" } },
+      tools: {
+        type: { kind: "record", values: { kind: "ref", name: "Tool" } },
+      },
+      resources: {
+        type: { kind: "array", items: { kind: "ref", name: "Resource" } },
+      },
+      resourceTemplates: {
+        type: {
+          kind: "array",
+          items: { kind: "ref", name: "ResourceTemplate" },
+        },
+      },
+      authStatus: { type: { kind: "ref", name: "v2/McpAuthStatus" } },
+    },
+  },
+  "v2/McpToolCallError": {
+    kind: "object",
+    properties: { message: { type: { kind: "string" } } },
+  },
+  "v2/McpToolCallProgressNotification": {
+    kind: "object",
+    properties: {
+      threadId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+      itemId: { type: { kind: "string" } },
+      message: { type: { kind: "string" } },
+    },
+  },
+  "v2/McpToolCallResult": {
+    kind: "object",
+    properties: {
+      content: {
+        type: {
+          kind: "array",
+          items: { kind: "ref", name: "serde_json/JsonValue" },
+        },
+      },
+      structuredContent: {
+        type: {
+          kind: "union",
+          members: [
+            { kind: "ref", name: "serde_json/JsonValue" },
+            { kind: "null" },
+          ],
+        },
+      },
+    },
+  },
+  "v2/McpToolCallStatus": {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "inProgress" },
+      { kind: "literal", value: "completed" },
+      { kind: "literal", value: "failed" },
+    ],
+  },
+  "v2/Model": {
+    kind: "object",
+    properties: {
+      id: { type: { kind: "string" } },
+      model: { type: { kind: "string" } },
+      upgrade: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+      displayName: { type: { kind: "string" } },
+      description: { type: { kind: "string" } },
+      supportedReasoningEfforts: {
+        type: {
+          kind: "array",
+          items: { kind: "ref", name: "v2/ReasoningEffortOption" },
+        },
+      },
+      defaultReasoningEffort: {
+        type: { kind: "ref", name: "ReasoningEffort" },
+      },
+      inputModalities: {
+        type: { kind: "array", items: { kind: "ref", name: "InputModality" } },
+      },
+      supportsPersonality: { type: { kind: "boolean" } },
+      isDefault: { type: { kind: "boolean" } },
+    },
+  },
+  "v2/ModelListResponse": {
+    kind: "object",
+    properties: {
+      data: {
+        type: { kind: "array", items: { kind: "ref", name: "v2/Model" } },
+      },
+      nextCursor: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/NetworkAccess": {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "restricted" },
+      { kind: "literal", value: "enabled" },
+    ],
+  },
+  "v2/OverriddenMetadata": {
+    kind: "object",
+    properties: {
+      message: { type: { kind: "string" } },
+      overridingLayer: {
+        type: { kind: "ref", name: "v2/ConfigLayerMetadata" },
+      },
+      effectiveValue: { type: { kind: "ref", name: "serde_json/JsonValue" } },
+    },
+  },
+  "v2/PatchApplyStatus": {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "inProgress" },
+      { kind: "literal", value: "completed" },
+      { kind: "literal", value: "failed" },
+      { kind: "literal", value: "declined" },
+    ],
+  },
+  "v2/PatchChangeKind": {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: { type: { type: { kind: "literal", value: "add" } } },
+      },
+      {
+        kind: "object",
+        properties: { type: { type: { kind: "literal", value: "delete" } } },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "update" } },
+          move_path: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+        },
+      },
+    ],
+  },
+  "v2/PlanDeltaNotification": {
+    kind: "object",
+    properties: {
+      threadId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+      itemId: { type: { kind: "string" } },
+      delta: { type: { kind: "string" } },
+    },
+  },
+  "v2/ProfileV2": {
+    kind: "intersection",
+    members: [
+      {
+        kind: "object",
+        properties: {
+          model: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+          model_provider: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+          approval_policy: {
+            type: {
+              kind: "union",
+              members: [
+                { kind: "ref", name: "v2/AskForApproval" },
+                { kind: "null" },
+              ],
+            },
+          },
+          model_reasoning_effort: {
+            type: {
+              kind: "union",
+              members: [
+                { kind: "ref", name: "ReasoningEffort" },
+                { kind: "null" },
+              ],
+            },
+          },
+          model_reasoning_summary: {
+            type: {
+              kind: "union",
+              members: [
+                { kind: "ref", name: "ReasoningSummary" },
+                { kind: "null" },
+              ],
+            },
+          },
+          model_verbosity: {
+            type: {
+              kind: "union",
+              members: [{ kind: "ref", name: "Verbosity" }, { kind: "null" }],
+            },
+          },
+          web_search: {
+            type: {
+              kind: "union",
+              members: [
+                { kind: "ref", name: "WebSearchMode" },
+                { kind: "null" },
+              ],
+            },
+          },
+          chatgpt_base_url: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+        },
+      },
+      {
+        kind: "record",
+        values: {
+          kind: "union",
+          members: [
+            { kind: "number" },
+            { kind: "string" },
+            { kind: "boolean" },
+            {
+              kind: "array",
+              items: { kind: "ref", name: "serde_json/JsonValue" },
+            },
+            {
+              kind: "record",
+              values: { kind: "ref", name: "serde_json/JsonValue" },
+            },
+            { kind: "null" },
+          ],
+        },
+      },
+    ],
+  },
+  "v2/RateLimitSnapshot": {
+    kind: "object",
+    properties: {
+      primary: {
+        type: {
+          kind: "union",
+          members: [
+            { kind: "ref", name: "v2/RateLimitWindow" },
+            { kind: "null" },
+          ],
+        },
+      },
+      secondary: {
+        type: {
+          kind: "union",
+          members: [
+            { kind: "ref", name: "v2/RateLimitWindow" },
+            { kind: "null" },
+          ],
+        },
+      },
+      credits: {
+        type: {
+          kind: "union",
+          members: [
+            { kind: "ref", name: "v2/CreditsSnapshot" },
+            { kind: "null" },
+          ],
+        },
+      },
+      planType: {
+        type: {
+          kind: "union",
+          members: [{ kind: "ref", name: "PlanType" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/RateLimitWindow": {
+    kind: "object",
+    properties: {
+      usedPercent: { type: { kind: "number" } },
+      windowDurationMins: {
+        type: {
+          kind: "union",
+          members: [{ kind: "number" }, { kind: "null" }],
+        },
+      },
+      resetsAt: {
+        type: {
+          kind: "union",
+          members: [{ kind: "number" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/RawResponseItemCompletedNotification": {
+    kind: "object",
+    properties: {
+      threadId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+      item: { type: { kind: "ref", name: "ResponseItem" } },
+    },
+  },
+  "v2/ReasoningEffortOption": {
+    kind: "object",
+    properties: {
+      reasoningEffort: { type: { kind: "ref", name: "ReasoningEffort" } },
+      description: { type: { kind: "string" } },
+    },
+  },
+  "v2/ReasoningSummaryPartAddedNotification": {
+    kind: "object",
+    properties: {
+      threadId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+      itemId: { type: { kind: "string" } },
+      summaryIndex: { type: { kind: "number" } },
+    },
+  },
+  "v2/ReasoningSummaryTextDeltaNotification": {
+    kind: "object",
+    properties: {
+      threadId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+      itemId: { type: { kind: "string" } },
+      delta: { type: { kind: "string" } },
+      summaryIndex: { type: { kind: "number" } },
+    },
+  },
+  "v2/ReasoningTextDeltaNotification": {
+    kind: "object",
+    properties: {
+      threadId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+      itemId: { type: { kind: "string" } },
+      delta: { type: { kind: "string" } },
+      contentIndex: { type: { kind: "number" } },
+    },
+  },
+  "v2/RemoteSkillSummary": {
+    kind: "object",
+    properties: {
+      id: { type: { kind: "string" } },
+      name: { type: { kind: "string" } },
+      description: { type: { kind: "string" } },
+    },
+  },
+  "v2/ResidencyRequirement": { kind: "literal", value: "us" },
+  "v2/ReviewStartResponse": {
+    kind: "object",
+    properties: {
+      turn: { type: { kind: "ref", name: "v2/Turn" } },
+      reviewThreadId: { type: { kind: "string" } },
+    },
+  },
+  "v2/SandboxMode": {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "read-only" },
+      { kind: "literal", value: "workspace-write" },
+      { kind: "literal", value: "danger-full-access" },
+    ],
+  },
+  "v2/SandboxPolicy": {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "dangerFullAccess" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: { type: { type: { kind: "literal", value: "readOnly" } } },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "externalSandbox" } },
+          networkAccess: { type: { kind: "ref", name: "v2/NetworkAccess" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "workspaceWrite" } },
+          writableRoots: {
+            type: {
+              kind: "array",
+              items: { kind: "ref", name: "AbsolutePathBuf" },
+            },
+          },
+          networkAccess: { type: { kind: "boolean" } },
+          excludeTmpdirEnvVar: { type: { kind: "boolean" } },
+          excludeSlashTmp: { type: { kind: "boolean" } },
+        },
+      },
+    ],
+  },
+  "v2/SandboxWorkspaceWrite": {
+    kind: "object",
+    properties: {
+      writable_roots: { type: { kind: "array", items: { kind: "string" } } },
+      network_access: { type: { kind: "boolean" } },
+      exclude_tmpdir_env_var: { type: { kind: "boolean" } },
+      exclude_slash_tmp: { type: { kind: "boolean" } },
+    },
+  },
+  "v2/SessionSource": {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "cli" },
+      { kind: "literal", value: "vscode" },
+      { kind: "literal", value: "exec" },
+      { kind: "literal", value: "appServer" },
+      {
+        kind: "object",
+        properties: {
+          subAgent: { type: { kind: "ref", name: "SubAgentSource" } },
+        },
+      },
+      { kind: "literal", value: "unknown" },
+    ],
+  },
+  "v2/SkillDependencies": {
+    kind: "object",
+    properties: {
+      tools: {
+        type: {
+          kind: "array",
+          items: { kind: "ref", name: "v2/SkillToolDependency" },
+        },
+      },
+    },
+  },
+  "v2/SkillErrorInfo": {
+    kind: "object",
+    properties: {
+      path: { type: { kind: "string" } },
+      message: { type: { kind: "string" } },
+    },
+  },
+  "v2/SkillInterface": {
+    kind: "object",
+    properties: {
+      displayName: { type: { kind: "string" }, optional: true },
+      shortDescription: { type: { kind: "string" }, optional: true },
+      iconSmall: { type: { kind: "string" }, optional: true },
+      iconLarge: { type: { kind: "string" }, optional: true },
+      brandColor: { type: { kind: "string" }, optional: true },
+      defaultPrompt: { type: { kind: "string" }, optional: true },
+    },
+  },
+  "v2/SkillMetadata": {
+    kind: "object",
+    properties: {
+      name: { type: { kind: "string" } },
+      description: { type: { kind: "string" } },
+      shortDescription: { type: { kind: "string" }, optional: true },
+      interface: {
+        type: { kind: "ref", name: "v2/SkillInterface" },
+        optional: true,
+      },
+      dependencies: {
+        type: { kind: "ref", name: "v2/SkillDependencies" },
+        optional: true,
+      },
+      path: { type: { kind: "string" } },
+      scope: { type: { kind: "ref", name: "v2/SkillScope" } },
+      enabled: { type: { kind: "boolean" } },
+    },
+  },
+  "v2/SkillsConfigWriteResponse": {
+    kind: "object",
+    properties: { effectiveEnabled: { type: { kind: "boolean" } } },
+  },
+  "v2/SkillScope": {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "user" },
+      { kind: "literal", value: "repo" },
+      { kind: "literal", value: "system" },
+      { kind: "literal", value: "admin" },
+    ],
+  },
+  "v2/SkillsListEntry": {
+    kind: "object",
+    properties: {
+      cwd: { type: { kind: "string" } },
+      skills: {
+        type: {
+          kind: "array",
+          items: { kind: "ref", name: "v2/SkillMetadata" },
+        },
+      },
+      errors: {
+        type: {
+          kind: "array",
+          items: { kind: "ref", name: "v2/SkillErrorInfo" },
+        },
+      },
+    },
+  },
+  "v2/SkillsListResponse": {
+    kind: "object",
+    properties: {
+      data: {
+        type: {
+          kind: "array",
+          items: { kind: "ref", name: "v2/SkillsListEntry" },
+        },
+      },
+    },
+  },
+  "v2/SkillsRemoteReadResponse": {
+    kind: "object",
+    properties: {
+      data: {
+        type: {
+          kind: "array",
+          items: { kind: "ref", name: "v2/RemoteSkillSummary" },
+        },
+      },
+    },
+  },
+  "v2/SkillsRemoteWriteResponse": {
+    kind: "object",
+    properties: {
+      id: { type: { kind: "string" } },
+      name: { type: { kind: "string" } },
+      path: { type: { kind: "string" } },
+    },
+  },
+  "v2/SkillToolDependency": {
+    kind: "object",
+    properties: {
+      type: { type: { kind: "string" } },
+      value: { type: { kind: "string" } },
+      description: { type: { kind: "string" }, optional: true },
+      transport: { type: { kind: "string" }, optional: true },
+      command: { type: { kind: "string" }, optional: true },
+      url: { type: { kind: "string" }, optional: true },
+    },
+  },
+  "v2/TerminalInteractionNotification": {
+    kind: "object",
+    properties: {
+      threadId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+      itemId: { type: { kind: "string" } },
+      processId: { type: { kind: "string" } },
+      stdin: { type: { kind: "string" } },
+    },
+  },
+  "v2/TextElement": {
+    kind: "object",
+    properties: {
+      byteRange: { type: { kind: "ref", name: "v2/ByteRange" } },
+      placeholder: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/TextPosition": {
+    kind: "object",
+    properties: {
+      line: { type: { kind: "number" } },
+      column: { type: { kind: "number" } },
+    },
+  },
+  "v2/TextRange": {
+    kind: "object",
+    properties: {
+      start: { type: { kind: "ref", name: "v2/TextPosition" } },
+      end: { type: { kind: "ref", name: "v2/TextPosition" } },
+    },
+  },
+  "v2/Thread": {
+    kind: "object",
+    properties: {
+      id: { type: { kind: "string" } },
+      preview: { type: { kind: "string" } },
+      modelProvider: { type: { kind: "string" } },
+      createdAt: { type: { kind: "number" } },
+      updatedAt: { type: { kind: "number" } },
+      path: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+      cwd: { type: { kind: "string" } },
+      cliVersion: { type: { kind: "string" } },
+      source: { type: { kind: "ref", name: "v2/SessionSource" } },
+      gitInfo: {
+        type: {
+          kind: "union",
+          members: [{ kind: "ref", name: "v2/GitInfo" }, { kind: "null" }],
+        },
+      },
+      turns: {
+        type: { kind: "array", items: { kind: "ref", name: "v2/Turn" } },
+      },
+    },
+  },
+  "v2/ThreadArchiveResponse": { kind: "record", values: { kind: "never" } },
+  "v2/ThreadCompactStartResponse": {
+    kind: "record",
+    values: { kind: "never" },
+  },
+  "v2/ThreadForkResponse": {
+    kind: "object",
+    properties: {
+      thread: { type: { kind: "ref", name: "v2/Thread" } },
+      model: { type: { kind: "string" } },
+      modelProvider: { type: { kind: "string" } },
+      cwd: { type: { kind: "string" } },
+      approvalPolicy: { type: { kind: "ref", name: "v2/AskForApproval" } },
+      sandbox: { type: { kind: "ref", name: "v2/SandboxPolicy" } },
+      reasoningEffort: {
+        type: {
+          kind: "union",
+          members: [{ kind: "ref", name: "ReasoningEffort" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/ThreadItem": {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "userMessage" } },
+          id: { type: { kind: "string" } },
+          content: {
+            type: {
+              kind: "array",
+              items: { kind: "ref", name: "v2/UserInput" },
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "agentMessage" } },
+          id: { type: { kind: "string" } },
+          text: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "plan" } },
+          id: { type: { kind: "string" } },
+          text: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "reasoning" } },
+          id: { type: { kind: "string" } },
+          summary: { type: { kind: "array", items: { kind: "string" } } },
+          content: { type: { kind: "array", items: { kind: "string" } } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "commandExecution" } },
+          id: { type: { kind: "string" } },
+          command: { type: { kind: "string" } },
+          cwd: { type: { kind: "string" } },
+          processId: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+          status: { type: { kind: "ref", name: "v2/CommandExecutionStatus" } },
+          commandActions: {
+            type: {
+              kind: "array",
+              items: { kind: "ref", name: "v2/CommandAction" },
+            },
+          },
+          aggregatedOutput: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+          exitCode: {
+            type: {
+              kind: "union",
+              members: [{ kind: "number" }, { kind: "null" }],
+            },
+          },
+          durationMs: {
+            type: {
+              kind: "union",
+              members: [{ kind: "number" }, { kind: "null" }],
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "fileChange" } },
+          id: { type: { kind: "string" } },
+          changes: {
+            type: {
+              kind: "array",
+              items: { kind: "ref", name: "v2/FileUpdateChange" },
+            },
+          },
+          status: { type: { kind: "ref", name: "v2/PatchApplyStatus" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "mcpToolCall" } },
+          id: { type: { kind: "string" } },
+          server: { type: { kind: "string" } },
+          tool: { type: { kind: "string" } },
+          status: { type: { kind: "ref", name: "v2/McpToolCallStatus" } },
+          arguments: { type: { kind: "ref", name: "serde_json/JsonValue" } },
+          result: {
+            type: {
+              kind: "union",
+              members: [
+                { kind: "ref", name: "v2/McpToolCallResult" },
+                { kind: "null" },
+              ],
+            },
+          },
+          error: {
+            type: {
+              kind: "union",
+              members: [
+                { kind: "ref", name: "v2/McpToolCallError" },
+                { kind: "null" },
+              ],
+            },
+          },
+          durationMs: {
+            type: {
+              kind: "union",
+              members: [{ kind: "number" }, { kind: "null" }],
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "collabAgentToolCall" } },
+          id: { type: { kind: "string" } },
+          tool: { type: { kind: "ref", name: "v2/CollabAgentTool" } },
+          status: {
+            type: { kind: "ref", name: "v2/CollabAgentToolCallStatus" },
+          },
+          senderThreadId: { type: { kind: "string" } },
+          receiverThreadIds: {
+            type: { kind: "array", items: { kind: "string" } },
+          },
+          prompt: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+          agentsStates: {
+            type: {
+              kind: "record",
+              values: { kind: "ref", name: "v2/CollabAgentState" },
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "webSearch" } },
+          id: { type: { kind: "string" } },
+          query: { type: { kind: "string" } },
+          action: {
+            type: {
+              kind: "union",
+              members: [
+                { kind: "ref", name: "v2/WebSearchAction" },
+                { kind: "null" },
+              ],
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "imageView" } },
+          id: { type: { kind: "string" } },
+          path: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "enteredReviewMode" } },
+          id: { type: { kind: "string" } },
+          review: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "exitedReviewMode" } },
+          id: { type: { kind: "string" } },
+          review: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "contextCompaction" } },
+          id: { type: { kind: "string" } },
+        },
+      },
+    ],
+  },
+  "v2/ThreadListResponse": {
+    kind: "object",
+    properties: {
+      data: {
+        type: { kind: "array", items: { kind: "ref", name: "v2/Thread" } },
+      },
+      nextCursor: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/ThreadLoadedListResponse": {
+    kind: "object",
+    properties: {
+      data: { type: { kind: "array", items: { kind: "string" } } },
+      nextCursor: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/ThreadNameUpdatedNotification": {
+    kind: "object",
+    properties: {
+      threadId: { type: { kind: "string" } },
+      threadName: { type: { kind: "string" }, optional: true },
+    },
+  },
+  "v2/ThreadReadResponse": {
+    kind: "object",
+    properties: { thread: { type: { kind: "ref", name: "v2/Thread" } } },
+  },
+  "v2/ThreadResumeResponse": {
+    kind: "object",
+    properties: {
+      thread: { type: { kind: "ref", name: "v2/Thread" } },
+      model: { type: { kind: "string" } },
+      modelProvider: { type: { kind: "string" } },
+      cwd: { type: { kind: "string" } },
+      approvalPolicy: { type: { kind: "ref", name: "v2/AskForApproval" } },
+      sandbox: { type: { kind: "ref", name: "v2/SandboxPolicy" } },
+      reasoningEffort: {
+        type: {
+          kind: "union",
+          members: [{ kind: "ref", name: "ReasoningEffort" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/ThreadRollbackResponse": {
+    kind: "object",
+    properties: { thread: { type: { kind: "ref", name: "v2/Thread" } } },
+  },
+  "v2/ThreadSetNameResponse": { kind: "record", values: { kind: "never" } },
+  "v2/ThreadStartedNotification": {
+    kind: "object",
+    properties: { thread: { type: { kind: "ref", name: "v2/Thread" } } },
+  },
+  "v2/ThreadStartResponse": {
+    kind: "object",
+    properties: {
+      thread: { type: { kind: "ref", name: "v2/Thread" } },
+      model: { type: { kind: "string" } },
+      modelProvider: { type: { kind: "string" } },
+      cwd: { type: { kind: "string" } },
+      approvalPolicy: { type: { kind: "ref", name: "v2/AskForApproval" } },
+      sandbox: { type: { kind: "ref", name: "v2/SandboxPolicy" } },
+      reasoningEffort: {
+        type: {
+          kind: "union",
+          members: [{ kind: "ref", name: "ReasoningEffort" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/ThreadTokenUsage": {
+    kind: "object",
+    properties: {
+      total: { type: { kind: "ref", name: "v2/TokenUsageBreakdown" } },
+      last: { type: { kind: "ref", name: "v2/TokenUsageBreakdown" } },
+      modelContextWindow: {
+        type: {
+          kind: "union",
+          members: [{ kind: "number" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/ThreadTokenUsageUpdatedNotification": {
+    kind: "object",
+    properties: {
+      threadId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+      tokenUsage: { type: { kind: "ref", name: "v2/ThreadTokenUsage" } },
+    },
+  },
+  "v2/ThreadUnarchiveResponse": {
+    kind: "object",
+    properties: { thread: { type: { kind: "ref", name: "v2/Thread" } } },
+  },
+  "v2/TokenUsageBreakdown": {
+    kind: "object",
+    properties: {
+      totalTokens: { type: { kind: "number" } },
+      inputTokens: { type: { kind: "number" } },
+      cachedInputTokens: { type: { kind: "number" } },
+      outputTokens: { type: { kind: "number" } },
+      reasoningOutputTokens: { type: { kind: "number" } },
+    },
+  },
+  "v2/ToolRequestUserInputOption": {
+    kind: "object",
+    properties: {
+      label: { type: { kind: "string" } },
+      description: { type: { kind: "string" } },
+    },
+  },
+  "v2/ToolRequestUserInputParams": {
+    kind: "object",
+    properties: {
+      threadId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+      itemId: { type: { kind: "string" } },
+      questions: {
+        type: {
+          kind: "array",
+          items: { kind: "ref", name: "v2/ToolRequestUserInputQuestion" },
+        },
+      },
+    },
+  },
+  "v2/ToolRequestUserInputQuestion": {
+    kind: "object",
+    properties: {
+      id: { type: { kind: "string" } },
+      header: { type: { kind: "string" } },
+      question: { type: { kind: "string" } },
+      isOther: { type: { kind: "boolean" } },
+      isSecret: { type: { kind: "boolean" } },
+      options: {
+        type: {
+          kind: "union",
+          members: [
+            {
+              kind: "array",
+              items: { kind: "ref", name: "v2/ToolRequestUserInputOption" },
+            },
+            { kind: "null" },
+          ],
+        },
+      },
+    },
+  },
+  "v2/ToolsV2": {
+    kind: "object",
+    properties: {
+      web_search: {
+        type: {
+          kind: "union",
+          members: [{ kind: "boolean" }, { kind: "null" }],
+        },
+      },
+      view_image: {
+        type: {
+          kind: "union",
+          members: [{ kind: "boolean" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/Turn": {
+    kind: "object",
+    properties: {
+      id: { type: { kind: "string" } },
+      items: {
+        type: { kind: "array", items: { kind: "ref", name: "v2/ThreadItem" } },
+      },
+      status: { type: { kind: "ref", name: "v2/TurnStatus" } },
+      error: {
+        type: {
+          kind: "union",
+          members: [{ kind: "ref", name: "v2/TurnError" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/TurnCompletedNotification": {
+    kind: "object",
+    properties: {
+      threadId: { type: { kind: "string" } },
+      turn: { type: { kind: "ref", name: "v2/Turn" } },
+    },
+  },
+  "v2/TurnDiffUpdatedNotification": {
+    kind: "object",
+    properties: {
+      threadId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+      diff: { type: { kind: "string" } },
+    },
+  },
+  "v2/TurnError": {
+    kind: "object",
+    properties: {
+      message: { type: { kind: "string" } },
+      codexErrorInfo: {
+        type: {
+          kind: "union",
+          members: [
+            { kind: "ref", name: "v2/CodexErrorInfo" },
+            { kind: "null" },
+          ],
+        },
+      },
+      additionalDetails: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+    },
+  },
+  "v2/TurnInterruptResponse": { kind: "record", values: { kind: "never" } },
+  "v2/TurnPlanStep": {
+    kind: "object",
+    properties: {
+      step: { type: { kind: "string" } },
+      status: { type: { kind: "ref", name: "v2/TurnPlanStepStatus" } },
+    },
+  },
+  "v2/TurnPlanStepStatus": {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "pending" },
+      { kind: "literal", value: "inProgress" },
+      { kind: "literal", value: "completed" },
+    ],
+  },
+  "v2/TurnPlanUpdatedNotification": {
+    kind: "object",
+    properties: {
+      threadId: { type: { kind: "string" } },
+      turnId: { type: { kind: "string" } },
+      explanation: {
+        type: {
+          kind: "union",
+          members: [{ kind: "string" }, { kind: "null" }],
+        },
+      },
+      plan: {
+        type: {
+          kind: "array",
+          items: { kind: "ref", name: "v2/TurnPlanStep" },
+        },
+      },
+    },
+  },
+  "v2/TurnStartedNotification": {
+    kind: "object",
+    properties: {
+      threadId: { type: { kind: "string" } },
+      turn: { type: { kind: "ref", name: "v2/Turn" } },
+    },
+  },
+  "v2/TurnStartResponse": {
+    kind: "object",
+    properties: { turn: { type: { kind: "ref", name: "v2/Turn" } } },
+  },
+  "v2/TurnStatus": {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "completed" },
+      { kind: "literal", value: "interrupted" },
+      { kind: "literal", value: "failed" },
+      { kind: "literal", value: "inProgress" },
+    ],
+  },
+  "v2/UserInput": {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "text" } },
+          text: { type: { kind: "string" } },
+          text_elements: {
+            type: {
+              kind: "array",
+              items: { kind: "ref", name: "v2/TextElement" },
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "image" } },
+          url: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "localImage" } },
+          path: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "skill" } },
+          name: { type: { kind: "string" } },
+          path: { type: { kind: "string" } },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "mention" } },
+          name: { type: { kind: "string" } },
+          path: { type: { kind: "string" } },
+        },
+      },
+    ],
+  },
+  "v2/WebSearchAction": {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "search" } },
+          query: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+          queries: {
+            type: {
+              kind: "union",
+              members: [
+                { kind: "array", items: { kind: "string" } },
+                { kind: "null" },
+              ],
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "openPage" } },
+          url: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "findInPage" } },
+          url: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+          pattern: {
+            type: {
+              kind: "union",
+              members: [{ kind: "string" }, { kind: "null" }],
+            },
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: { type: { type: { kind: "literal", value: "other" } } },
+      },
+    ],
+  },
+  "v2/WindowsWorldWritableWarningNotification": {
+    kind: "object",
+    properties: {
+      samplePaths: { type: { kind: "array", items: { kind: "string" } } },
+      extraCount: { type: { kind: "number" } },
+      failedScan: { type: { kind: "boolean" } },
+    },
+  },
+  "v2/WriteStatus": {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "ok" },
+      { kind: "literal", value: "okOverridden" },
+    ],
+  },
+  Verbosity: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "low" },
+      { kind: "literal", value: "medium" },
+      { kind: "literal", value: "high" },
+    ],
+  },
+  ViewImageToolCallEvent: {
+    kind: "object",
+    properties: {
+      call_id: { type: { kind: "string" } },
+      path: { type: { kind: "string" } },
+    },
+  },
+  WarningEvent: {
+    kind: "object",
+    properties: { message: { type: { kind: "string" } } },
+  },
+  WebSearchAction: {
+    kind: "union",
+    members: [
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "search" } },
+          query: { type: { kind: "string" }, optional: true },
+          queries: {
+            type: { kind: "array", items: { kind: "string" } },
+            optional: true,
+          },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "open_page" } },
+          url: { type: { kind: "string" }, optional: true },
+        },
+      },
+      {
+        kind: "object",
+        properties: {
+          type: { type: { kind: "literal", value: "find_in_page" } },
+          url: { type: { kind: "string" }, optional: true },
+          pattern: { type: { kind: "string" }, optional: true },
+        },
+      },
+      {
+        kind: "object",
+        properties: { type: { type: { kind: "literal", value: "other" } } },
+      },
+    ],
+  },
+  WebSearchBeginEvent: {
+    kind: "object",
+    properties: { call_id: { type: { kind: "string" } } },
+  },
+  WebSearchEndEvent: {
+    kind: "object",
+    properties: {
+      call_id: { type: { kind: "string" } },
+      query: { type: { kind: "string" } },
+      action: { type: { kind: "ref", name: "WebSearchAction" } },
+    },
+  },
+  WebSearchItem: {
+    kind: "object",
+    properties: {
+      id: { type: { kind: "string" } },
+      query: { type: { kind: "string" } },
+      action: { type: { kind: "ref", name: "WebSearchAction" } },
+    },
+  },
+  WebSearchMode: {
+    kind: "union",
+    members: [
+      { kind: "literal", value: "disabled" },
+      { kind: "literal", value: "cached" },
+      { kind: "literal", value: "live" },
+    ],
+  },
+};
@@ -0,0 +1,312 @@
+import { RESPONSE_TYPES, SCHEMA_VERSION, TYPES } from "./generated";
+import type { TypeDescriptor, ValidationIssue } from "./types";
+
+export { SCHEMA_VERSION };
+export type {
+  ProtocolMessageKind,
+  ProtocolMismatchEvent,
+  TypeDescriptor,
+  ValidationIssue,
+} from "./types";
+
+// ============================================================================
+// Message Validation
+// ============================================================================
+
+/**
+ * Validate a notification against `ServerNotification`, or the `EventMsg` of
+ * a `codex/event/*` notification.
+ */
+export function validateNotification(message: {
+  method: string;
+  params: unknown;
+}): ValidationIssue[] {
+  if (message.method.startsWith("codex/event/")) {
+    const params = message.params as { msg?: unknown } | null;
+    return validateType("EventMsg", params?.msg, "params.msg");
+  }
+  return validateType("ServerNotification", message);
+}
+
+/**
+ * Validate a server request against `ServerRequest`.
+ */
+export function validateServerRequest(message: {
+  method: string;
+  id: unknown;
+  params: unknown;
+}): ValidationIssue[] {
+  return validateType("ServerRequest", message);
+}
+
+/**
+ * Validate the result of a request against the response type of its method.
+ * Methods without a known response type are not checked.
+ */
+export function validateResponse(
+  method: string,
+  result: unknown,
+): ValidationIssue[] {
+  const name = RESPONSE_TYPES[method];
+  return name ? validateType(name, result, "result") : [];
+}
+
+/**
+ * Validate a value against a generated type, e.g. `v2/Thread`.
+ */
+export function validateType(
+  name: string,
+  value: unknown,
+  path = "",
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  check({ kind: "ref", name }, value, path, issues);
+  return issues;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function check(
+  type: TypeDescriptor,
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+): void {
+  const fail = (expected: string) => {
+    issues.push({
+      path,
+      message: `expected ${expected}, got ${describeValue(value)}`,
+    });
+  };
+
+  switch (type.kind) {
+    case "string":
+    case "number":
+    case "boolean":
+    case "undefined":
+      if (typeof value !== type.kind) {
+        fail(type.kind);
+      }
+      return;
+
+    case "null":
+      if (value !== null) {
+        fail("null");
+      }
+      return;
+
+    case "never":
+      fail("nothing");
+      return;
+
+    case "unknown":
+      return;
+
+    case "literal":
+      if (value !== type.value) {
+        fail(JSON.stringify(type.value));
+      }
+      return;
+
+    case "array":
+      if (!Array.isArray(value)) {
+        fail("array");
+        return;
+      }
+      value.forEach((item, index) => {
+        check(type.items, item, `${path}[${index}]`, issues);
+      });
+      return;
+
+    case "record":
+      if (!isObject(value)) {
+        fail("object");
+        return;
+      }
+      for (const [key, entry] of Object.entries(value)) {
+        if (entry !== undefined) {
+          check(type.values, entry, join(path, key), issues);
+        }
+      }
+      return;
+
+    case "object":
+      if (!isObject(value)) {
+        fail("object");
+        return;
+      }
+      // Unknown properties are allowed: newer servers may add fields
+      for (const [key, property] of Object.entries(type.properties)) {
+        const entry = value[key];
+        if (entry === undefined && property.optional) {
+          continue;
+        }
+        if (entry === undefined && !accepts(property.type, undefined)) {
+          issues.push({
+            path: join(path, key),
+            message: "missing required property",
+          });
+          continue;
+        }
+        check(property.type, entry, join(path, key), issues);
+      }
+      return;
+
+    case "intersection":
+      for (const member of type.members) {
+        check(member, value, path, issues);
+      }
+      return;
+
+    case "union":
+      checkUnion(type.members, value, path, issues);
+      return;
+
+    case "ref": {
+      const target = TYPES[type.name];
+      if (!target) {
+        issues.push({ path, message: `unknown schema type ${type.name}` });
+        return;
+      }
+      check(target, value, path, issues);
+      return;
+    }
+  }
+}
+
+/**
+ * Report the closest union member. Members whose literal fields (such as
+ * `type` or `method`) disagree with the value are not considered.
+ */
+function checkUnion(
+  members: TypeDescriptor[],
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+): void {
+  const candidates = members.filter(
+    (member) => !mismatchesDiscriminant(member, value),
+  );
+  if (candidates.length === 0) {
+    const key = discriminantKey(members);
+    const actual = key && isObject(value) ? value[key] : undefined;
+    issues.push({
+      path,
+      message:
+        key && actual !== undefined
+          ? `unknown ${key} ${describeValue(actual)}`
+          : `no variant matches ${describeValue(value)}`,
+    });
+    return;
+  }
+
+  let closest: ValidationIssue[] | null = null;
+  for (const candidate of candidates) {
+    const candidateIssues: ValidationIssue[] = [];
+    check(candidate, value, path, candidateIssues);
+    if (candidateIssues.length === 0) {
+      return;
+    }
+    if (!closest || candidateIssues.length < closest.length) {
+      closest = candidateIssues;
+    }
+  }
+
+  // A plain type mismatch reads better as the list of allowed types
+  if (closest?.every((issue) => issue.path === path)) {
+    issues.push({
+      path,
+      message: `expected ${candidates.map(describeType).join(" | ")}, got ${describeValue(value)}`,
+    });
+    return;
+  }
+  issues.push(...(closest ?? []));
+}
+
+function mismatchesDiscriminant(type: TypeDescriptor, value: unknown): boolean {
+  const resolved = resolve(type);
+  if (resolved.kind === "intersection") {
+    return resolved.members.some((member) =>
+      mismatchesDiscriminant(member, value),
+    );
+  }
+  if (resolved.kind !== "object" || !isObject(value)) {
+    return false;
+  }
+  return Object.entries(resolved.properties).some(
+    ([key, property]) =>
+      property.type.kind === "literal" && value[key] !== property.type.value,
+  );
+}
+
+/** Name of the first literal field of the union's object members */
+function discriminantKey(members: TypeDescriptor[]): string | null {
+  for (const member of members) {
+    const resolved = resolve(member);
+    if (resolved.kind !== "object") {
+      continue;
+    }
+    const entry = Object.entries(resolved.properties).find(
+      ([, property]) => property.type.kind === "literal",
+    );
+    if (entry) {
+      return entry[0];
+    }
+  }
+  return null;
+}
+
+function accepts(type: TypeDescriptor, value: unknown): boolean {
+  const issues: ValidationIssue[] = [];
+  check(type, value, "", issues);
+  return issues.length === 0;
+}
+
+function resolve(type: TypeDescriptor): TypeDescriptor {
+  let resolved = type;
+  while (resolved.kind === "ref" && TYPES[resolved.name]) {
+    resolved = TYPES[resolved.name];
+  }
+  return resolved;
+}
+
+function describeType(type: TypeDescriptor): string {
+  switch (type.kind) {
+    case "literal":
+      return JSON.stringify(type.value);
+    case "ref":
+      return type.name.split("/").pop() ?? type.name;
+    case "array":
+      return `${describeType(type.items)}[]`;
+    case "record":
+    case "intersection":
+      return "object";
+    case "union":
+      return type.members.map(describeType).join(" | ");
+    default:
+      return type.kind;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (typeof value === "string") {
+    return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+  }
+  return typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
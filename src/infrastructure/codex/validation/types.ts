@@ -0,0 +1,65 @@
+// ============================================================================
+// Type Descriptors
+// ============================================================================
+
+/**
+ * Runtime description of a generated schema type, produced from the ts-rs
+ * declarations by `scripts/generate-validators.ts`.
+ */
+export type TypeDescriptor =
+  | { kind: "string" }
+  | { kind: "number" }
+  | { kind: "boolean" }
+  | { kind: "null" }
+  | { kind: "undefined" }
+  | { kind: "never" }
+  | { kind: "unknown" }
+  | { kind: "literal"; value: string | number | boolean }
+  | { kind: "array"; items: TypeDescriptor }
+  | { kind: "record"; values: TypeDescriptor }
+  | {
+      kind: "object";
+      properties: Record<string, PropertyDescriptor>;
+    }
+  | { kind: "union"; members: TypeDescriptor[] }
+  | { kind: "intersection"; members: TypeDescriptor[] }
+  /** Another generated type, e.g. `v2/Thread` */
+  | { kind: "ref"; name: string };
+
+/** Property of an object descriptor */
+export interface PropertyDescriptor {
+  type: TypeDescriptor;
+  optional?: boolean;
+}
+
+// ============================================================================
+// Validation Results
+// ============================================================================
+
+/** One way a value does not match its schema */
+export interface ValidationIssue {
+  /** Location in the message, e.g. `params.item.status` */
+  path: string;
+  message: string;
+}
+
+/** Kind of inbound message that failed validation */
+export type ProtocolMessageKind =
+  | "notification"
+  | "event"
+  | "serverRequest"
+  | "response";
+
+/** Payload of the `protocol-mismatch` event */
+export interface ProtocolMismatchEvent {
+  kind: ProtocolMessageKind;
+  /** JSON-RPC method of the message (of the request, for responses) */
+  method: string;
+  issues: ValidationIssue[];
+  /** The message as received */
+  message: unknown;
+  /** `userAgent` the app-server reported in `initialize` */
+  userAgent: string | null;
+  /** Codex version the generated schemas come from */
+  schemaVersion: string;
+}
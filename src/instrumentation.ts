@@ -0,0 +1,32 @@
+/**
+ * Next.js instrumentation hook
+ *
+ * Starts the OpenTelemetry SDK when telemetry is configured through the
+ * standard OTEL_* environment variables, e.g.
+ * `OTEL_EXPORTER_OTLP_ENDPOINT=http://localhost:4318` for a collector or
+ * `OTEL_TRACES_EXPORTER=console OTEL_METRICS_EXPORTER=console` for stdout.
+ * Without them no SDK is loaded and the Codex instrumentation records nothing.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") {
+    return;
+  }
+  const configured = [
+    "OTEL_EXPORTER_OTLP_ENDPOINT",
+    "OTEL_TRACES_EXPORTER",
+    "OTEL_METRICS_EXPORTER",
+  ].some((name) => process.env[name]);
+  if (!configured) {
+    return;
+  }
+
+  const { NodeSDK } = await import("@opentelemetry/sdk-node");
+  const sdk = new NodeSDK({
+    serviceName: process.env.OTEL_SERVICE_NAME ?? "next-codex-app-server",
+  });
+  sdk.start();
+
+  process.once("SIGTERM", () => {
+    sdk.shutdown().finally(() => process.exit(0));
+  });
+}